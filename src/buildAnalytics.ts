@@ -0,0 +1,319 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { JobStatus } from './jobManager';
+import { RunRecord, RunRecordStore } from './runRecordStore';
+import { formatDuration } from './buildProgress';
+
+/**
+ * Statistics of one command (same command text and cwd)
+ */
+export interface CommandStats {
+    label: string;
+    command: string;
+    cwd?: string;
+    targets: string[];  // Containers / hosts the command ran on
+    runs: number;
+    failures: number;  // Failed runs (stopped runs are not counted as failures)
+    failureRate: number;  // failures / (runs - stopped)
+    p50?: number;  // Durations of successful runs (milliseconds)
+    p90?: number;
+    trend?: number;  // Relative change of the median of the latest 5 successful runs vs. the 5 before
+    durations: { time: number; duration: number }[];  // Successful runs, oldest first
+    lastRun: number;
+}
+
+/**
+ * Percentile of sorted values (nearest rank)
+ */
+export function percentile(sorted: number[], p: number): number | undefined {
+    if (sorted.length === 0) {
+        return undefined;
+    }
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(Math.max(rank - 1, 0), sorted.length - 1)];
+}
+
+function median(values: number[]): number | undefined {
+    return percentile([...values].sort((a, b) => a - b), 50);
+}
+
+/**
+ * Compute per-command statistics
+ * @param since Only runs started at or after this time
+ */
+export function computeCommandStats(records: RunRecord[], since = 0): CommandStats[] {
+    const groups = new Map<string, RunRecord[]>();
+    records
+        .filter(record => record.startTime >= since)
+        .forEach(record => {
+            const key = `${record.cwd || ''}\0${record.command}`;
+            const group = groups.get(key) || [];
+            group.push(record);
+            groups.set(key, group);
+        });
+
+    const stats: CommandStats[] = [];
+    groups.forEach(group => {
+        group.sort((a, b) => a.startTime - b.startTime);
+        const last = group[group.length - 1];
+        const succeeded = group.filter(r => r.status === JobStatus.SUCCEEDED);
+        const failures = group.filter(r => r.status === JobStatus.FAILED).length;
+        const completed = group.filter(r => r.status !== JobStatus.STOPPED).length;
+        const durations = succeeded.map(r => ({ time: r.startTime, duration: r.endTime - r.startTime }));
+        const sorted = durations.map(d => d.duration).sort((a, b) => a - b);
+
+        let trend: number | undefined;
+        if (durations.length >= 6) {
+            const recent = median(durations.slice(-5).map(d => d.duration))!;
+            const before = median(durations.slice(-10, -5).map(d => d.duration))!;
+            trend = before > 0 ? (recent - before) / before : undefined;
+        }
+
+        stats.push({
+            label: last.label,
+            command: last.command,
+            cwd: last.cwd,
+            targets: Array.from(new Set(group.map(r => r.target))),
+            runs: group.length,
+            failures,
+            failureRate: completed > 0 ? failures / completed : 0,
+            p50: percentile(sorted, 50),
+            p90: percentile(sorted, 90),
+            trend,
+            durations,
+            lastRun: last.startTime
+        });
+    });
+
+    // Slowest commands first
+    return stats.sort((a, b) => (b.p50 ?? -1) - (a.p50 ?? -1));
+}
+
+/**
+ * Quote a CSV field
+ */
+function csvField(value: string | number | null | undefined): string {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * All runs as CSV, one row per run
+ */
+export function toCsv(records: RunRecord[]): string {
+    const header = ['start', 'end', 'duration_s', 'label', 'command', 'cwd', 'mode', 'target', 'profile', 'status', 'exit_code'];
+    const rows = records.map(record => [
+        new Date(record.startTime).toISOString(),
+        new Date(record.endTime).toISOString(),
+        ((record.endTime - record.startTime) / 1000).toFixed(1),
+        record.label,
+        record.command,
+        record.cwd,
+        record.mode,
+        record.target,
+        record.profile,
+        record.status,
+        record.exitCode
+    ].map(csvField).join(','));
+    return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Ask for a file and export all runs as CSV
+ */
+export async function exportRunRecordsCsv(store: RunRecordStore): Promise<void> {
+    const records = store.getRecords();
+    if (records.length === 0) {
+        vscode.window.showInformationMessage('No runs recorded yet');
+        return;
+    }
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`deeproute-build-runs-${new Date().toISOString().slice(0, 10)}.csv`),
+        filters: { 'CSV files': ['csv'] }
+    });
+    if (!uri) {
+        return;
+    }
+
+    try {
+        fs.writeFileSync(uri.fsPath, toCsv(records));
+        vscode.window.showInformationMessage(`✅ Exported ${records.length} runs to ${uri.fsPath}`);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`CSV export failed: ${error.message}`);
+    }
+}
+
+/**
+ * HTML-escape text for the webview
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Inline SVG line chart of the durations of successful runs
+ */
+function sparkline(durations: { duration: number }[], width = 160, height = 32): string {
+    if (durations.length < 2) {
+        return '';
+    }
+    const max = Math.max(...durations.map(d => d.duration));
+    const min = Math.min(...durations.map(d => d.duration));
+    const range = max - min || 1;
+    const points = durations.map((d, i) => {
+        const x = (i / (durations.length - 1)) * (width - 4) + 2;
+        const y = height - 2 - ((d.duration - min) / range) * (height - 4);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' ');
+    return `<svg width="${width}" height="${height}"><polyline points="${points}" fill="none" stroke="var(--vscode-charts-blue)" stroke-width="1.5"/></svg>`;
+}
+
+/**
+ * Webview dashboard of build durations: trends, p50/p90, slowest commands and failure rates
+ */
+export class BuildAnalyticsPanel implements vscode.Disposable {
+    private static current: BuildAnalyticsPanel | undefined;
+    private panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private rangeDays = 30;  // 0 = all runs
+
+    /**
+     * Show the dashboard (reuses the open panel)
+     */
+    static show(store: RunRecordStore): void {
+        if (BuildAnalyticsPanel.current) {
+            BuildAnalyticsPanel.current.panel.reveal();
+            return;
+        }
+        BuildAnalyticsPanel.current = new BuildAnalyticsPanel(store);
+    }
+
+    private constructor(private store: RunRecordStore) {
+        this.panel = vscode.window.createWebviewPanel(
+            'deeprouteBuildAnalytics',
+            'Build Analytics',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.store.onDidChange(() => this.render()),
+            this.panel.webview.onDidReceiveMessage(message => this.onMessage(message))
+        );
+        this.render();
+    }
+
+    private async onMessage(message: { type: string; days?: number }): Promise<void> {
+        switch (message.type) {
+            case 'range':
+                this.rangeDays = message.days ?? 30;
+                this.render();
+                break;
+            case 'export':
+                await exportRunRecordsCsv(this.store);
+                break;
+            case 'clear': {
+                const answer = await vscode.window.showWarningMessage('Delete all recorded runs?', { modal: true }, 'Delete');
+                if (answer === 'Delete') {
+                    await this.store.clear();
+                }
+                break;
+            }
+        }
+    }
+
+    private render(): void {
+        const since = this.rangeDays > 0 ? Date.now() - this.rangeDays * 24 * 3600 * 1000 : 0;
+        const records = this.store.getRecords().filter(record => record.startTime >= since);
+        const stats = computeCommandStats(records);
+        this.panel.webview.html = this.getHtml(records, stats);
+    }
+
+    private getHtml(records: RunRecord[], stats: CommandStats[]): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const failed = records.filter(r => r.status === JobStatus.FAILED).length;
+        const completed = records.filter(r => r.status !== JobStatus.STOPPED).length;
+        const totalTime = records.reduce((sum, r) => sum + (r.endTime - r.startTime), 0);
+
+        const rows = stats.map(s => {
+            const trend = s.trend === undefined
+                ? '–'
+                : `<span class="${s.trend > 0.1 ? 'worse' : s.trend < -0.1 ? 'better' : ''}">${s.trend > 0 ? '+' : ''}${(s.trend * 100).toFixed(0)}%</span>`;
+            return `<tr>
+                <td title="${escapeHtml(s.command)}">${escapeHtml(s.label)}<div class="sub">${escapeHtml(s.cwd || '.')}</div></td>
+                <td>${escapeHtml(s.targets.join(', '))}</td>
+                <td class="num">${s.runs}</td>
+                <td class="num">${s.p50 !== undefined ? formatDuration(s.p50) : '–'}</td>
+                <td class="num">${s.p90 !== undefined ? formatDuration(s.p90) : '–'}</td>
+                <td class="num">${trend}</td>
+                <td class="num ${s.failureRate > 0.2 ? 'worse' : ''}">${(s.failureRate * 100).toFixed(0)}%</td>
+                <td>${sparkline(s.durations)}</td>
+                <td>${new Date(s.lastRun).toLocaleString()}</td>
+            </tr>`;
+        }).join('');
+
+        const ranges = [[7, 'Last 7 days'], [30, 'Last 30 days'], [90, 'Last 90 days'], [0, 'All runs']]
+            .map(([days, label]) => `<option value="${days}"${days === this.rangeDays ? ' selected' : ''}>${label}</option>`)
+            .join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    .toolbar { display: flex; gap: 8px; align-items: center; margin: 12px 0; }
+    .cards { display: flex; gap: 12px; margin-bottom: 16px; }
+    .card { border: 1px solid var(--vscode-panel-border); padding: 8px 16px; border-radius: 4px; }
+    .card .value { font-size: 1.6em; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); vertical-align: middle; }
+    .num { text-align: right; }
+    .sub { opacity: 0.7; font-size: 0.85em; }
+    .worse { color: var(--vscode-errorForeground); }
+    .better { color: var(--vscode-testing-iconPassed); }
+    button, select { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; }
+</style>
+</head>
+<body>
+<h2>Build Analytics</h2>
+<div class="toolbar">
+    <select id="range">${ranges}</select>
+    <button id="export">Export CSV</button>
+    <button id="clear">Clear</button>
+</div>
+<div class="cards">
+    <div class="card"><div>Runs</div><div class="value">${records.length}</div></div>
+    <div class="card"><div>Failure rate</div><div class="value">${completed > 0 ? ((failed / completed) * 100).toFixed(0) : 0}%</div></div>
+    <div class="card"><div>Total build time</div><div class="value">${formatDuration(totalTime)}</div></div>
+    <div class="card"><div>Commands</div><div class="value">${stats.length}</div></div>
+</div>
+${stats.length === 0 ? '<p>No runs recorded in this period.</p>' : `<table>
+    <thead><tr><th>Command (slowest first)</th><th>Target</th><th class="num">Runs</th><th class="num">p50</th><th class="num">p90</th><th class="num">Trend</th><th class="num">Failures</th><th>Durations</th><th>Last run</th></tr></thead>
+    <tbody>${rows}</tbody>
+</table>
+<p class="sub">p50/p90 and durations use successful runs. Trend compares the median of the latest 5 successful runs with the 5 before.</p>`}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('range').addEventListener('change', e => vscode.postMessage({ type: 'range', days: Number(e.target.value) }));
+    document.getElementById('export').addEventListener('click', () => vscode.postMessage({ type: 'export' }));
+    document.getElementById('clear').addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+</script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        BuildAnalyticsPanel.current = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.panel.dispose();
+    }
+}
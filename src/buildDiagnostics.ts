@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Job, JobManager } from './jobManager';
+
+/**
+ * Diagnostic parsed from a single output line, before path resolution
+ */
+export interface ParsedDiagnostic {
+    file: string;
+    line: number;  // 1-based
+    column?: number;  // 1-based
+    severity: 'error' | 'warning' | 'note';
+    message: string;
+    source: string;
+}
+
+// gcc/clang: file:line:col: error: message
+const COMPILER_PATTERN = /^(.+?):(\d+):(\d+):\s+(fatal error|error|warning|note):\s+(.*)$/;
+// gcc/clang/ninja without column: file:line: error: message
+const COMPILER_NO_COLUMN_PATTERN = /^(.+?):(\d+):\s+(fatal error|error|warning|note):\s+(.*)$/;
+// ld: [/usr/bin/ld: ]file:line: undefined reference to 'x'
+const LINKER_LINE_PATTERN = /^(?:\S*ld(?:\.\w+)?: )?(.+?):(\d+): (undefined reference to .*|multiple definition of .*)$/;
+// ld: file.cc:(.text+0x12): undefined reference to 'x' (no debug info, no line)
+const LINKER_SECTION_PATTERN = /^(?:\S*ld(?:\.\w+)?: )?(.+?):\(\.[^)]*\): (undefined reference to .*|multiple definition of .*)$/;
+// CMake Error at path/CMakeLists.txt:12 (find_package):
+const CMAKE_PATTERN = /^CMake (Error|Warning)(?: \(dev\))? at (.+?):(\d+) \((\w+)\):\s*$/;
+// ninja: error: build.ninja:123: message
+const NINJA_PATTERN = /^ninja: error: (.+?):(\d+): (.*)$/;
+
+/**
+ * Stateful parser for one job's output
+ * CMake messages span several indented lines, so the parser keeps the pending diagnostic
+ */
+export class BuildOutputParser {
+    private pendingCmake: ParsedDiagnostic | undefined;
+
+    /**
+     * Parse one output line
+     * @returns Diagnostics completed by this line (usually zero or one)
+     */
+    parseLine(line: string): ParsedDiagnostic[] {
+        const results: ParsedDiagnostic[] = [];
+
+        // CMake message body: indented lines (blank lines allowed) until the next unindented line
+        if (this.pendingCmake) {
+            if (line.trim() === '' || /^\s/.test(line)) {
+                const text = line.trim();
+                if (text) {
+                    this.pendingCmake.message += (this.pendingCmake.message ? ' ' : '') + text;
+                }
+                return results;
+            }
+            results.push(this.finishCmake());
+        }
+
+        let match = CMAKE_PATTERN.exec(line);
+        if (match) {
+            this.pendingCmake = {
+                file: match[2],
+                line: parseInt(match[3], 10),
+                severity: match[1] === 'Error' ? 'error' : 'warning',
+                message: '',
+                source: `cmake (${match[4]})`
+            };
+            return results;
+        }
+
+        match = COMPILER_PATTERN.exec(line);
+        if (match) {
+            results.push({
+                file: match[1],
+                line: parseInt(match[2], 10),
+                column: parseInt(match[3], 10),
+                severity: toSeverity(match[4]),
+                message: match[5],
+                source: 'compiler'
+            });
+            return results;
+        }
+
+        match = NINJA_PATTERN.exec(line);
+        if (match) {
+            results.push({
+                file: match[1],
+                line: parseInt(match[2], 10),
+                severity: 'error',
+                message: match[3],
+                source: 'ninja'
+            });
+            return results;
+        }
+
+        match = LINKER_LINE_PATTERN.exec(line);
+        if (match) {
+            results.push({
+                file: match[1],
+                line: parseInt(match[2], 10),
+                severity: 'error',
+                message: match[3],
+                source: 'ld'
+            });
+            return results;
+        }
+
+        match = LINKER_SECTION_PATTERN.exec(line);
+        if (match) {
+            results.push({
+                file: match[1],
+                line: 1,
+                severity: 'error',
+                message: match[2],
+                source: 'ld'
+            });
+            return results;
+        }
+
+        match = COMPILER_NO_COLUMN_PATTERN.exec(line);
+        if (match) {
+            results.push({
+                file: match[1],
+                line: parseInt(match[2], 10),
+                severity: toSeverity(match[3]),
+                message: match[4],
+                source: 'compiler'
+            });
+        }
+
+        return results;
+    }
+
+    /**
+     * Flush pending multi-line diagnostic at end of output
+     */
+    flush(): ParsedDiagnostic[] {
+        return this.pendingCmake ? [this.finishCmake()] : [];
+    }
+
+    private finishCmake(): ParsedDiagnostic {
+        const diagnostic = this.pendingCmake!;
+        this.pendingCmake = undefined;
+        if (!diagnostic.message) {
+            diagnostic.message = `CMake ${diagnostic.severity}`;
+        }
+        return diagnostic;
+    }
+}
+
+/**
+ * Convert compiler severity keyword
+ */
+function toSeverity(keyword: string): 'error' | 'warning' | 'note' {
+    if (keyword === 'warning') {
+        return 'warning';
+    }
+    if (keyword === 'note') {
+        return 'note';
+    }
+    return 'error';
+}
+
+/**
+ * Diagnostics collected for one job
+ */
+interface JobDiagnostics {
+    key: string;  // command + cwd, used to replace results of the previous run
+    files: Map<string, vscode.Diagnostic[]>;
+    seen: Set<string>;
+    lastDiagnostic?: vscode.Diagnostic;
+    lastUri?: vscode.Uri;
+}
+
+/**
+ * Feeds job output into the VS Code Problems panel
+ * Results of a run replace those of the previous run of the same command
+ */
+export class BuildDiagnostics implements vscode.Disposable {
+    private collection: vscode.DiagnosticCollection;
+    private runs = new Map<number, JobDiagnostics>();
+    private updateTimer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private jobManager: JobManager) {
+        this.collection = vscode.languages.createDiagnosticCollection('deeproute-build');
+        this.disposables.push(
+            this.collection,
+            this.jobManager.onDidStartJob(job => this.attach(job))
+        );
+    }
+
+    /**
+     * Start collecting diagnostics from a job
+     */
+    private attach(job: Job): void {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        if (!config.get<boolean>('parseProblems', true)) {
+            return;
+        }
+
+        // Drop results of previous runs of the same command
+        const key = `${job.command}\u0000${job.cwd || ''}`;
+        for (const [id, run] of this.runs) {
+            if (run.key === key) {
+                this.runs.delete(id);
+            }
+        }
+        this.scheduleUpdate();
+
+        const run: JobDiagnostics = { key, files: new Map(), seen: new Set() };
+        this.runs.set(job.id, run);
+
+        const parser = new BuildOutputParser();
+        const lineListener = job.onDidWriteLine(line => {
+            parser.parseLine(line).forEach(parsed => this.add(job, run, parsed));
+        });
+        const finishListener = this.jobManager.onDidFinishJob(finished => {
+            if (finished !== job) {
+                return;
+            }
+            parser.flush().forEach(parsed => this.add(job, run, parsed));
+            lineListener.dispose();
+            finishListener.dispose();
+            this.scheduleUpdate();
+        });
+    }
+
+    /**
+     * Add a parsed diagnostic to a run
+     */
+    private add(job: Job, run: JobDiagnostics, parsed: ParsedDiagnostic): void {
+        const uri = vscode.Uri.file(this.resolvePath(job, parsed.file));
+        const line = Math.max(0, parsed.line - 1);
+        const column = Math.max(0, (parsed.column || 1) - 1);
+        const range = new vscode.Range(line, column, line, parsed.column ? column : Number.MAX_SAFE_INTEGER);
+
+        // Notes belong to the preceding error/warning
+        if (parsed.severity === 'note' && run.lastDiagnostic && run.lastUri) {
+            const related = run.lastDiagnostic.relatedInformation || [];
+            related.push(new vscode.DiagnosticRelatedInformation(new vscode.Location(uri, range), parsed.message));
+            run.lastDiagnostic.relatedInformation = related;
+            return;
+        }
+
+        // Builds often print the same diagnostic several times (e.g. a header included by many units)
+        const dedupeKey = `${uri.fsPath}:${line}:${column}:${parsed.message}`;
+        if (run.seen.has(dedupeKey)) {
+            // Its notes were attached the first time; they must not go to the previous diagnostic
+            run.lastDiagnostic = undefined;
+            run.lastUri = undefined;
+            return;
+        }
+        run.seen.add(dedupeKey);
+
+        const severity = parsed.severity === 'error'
+            ? vscode.DiagnosticSeverity.Error
+            : parsed.severity === 'warning'
+                ? vscode.DiagnosticSeverity.Warning
+                : vscode.DiagnosticSeverity.Information;
+        const diagnostic = new vscode.Diagnostic(range, parsed.message, severity);
+        diagnostic.source = parsed.source;
+
+        const list = run.files.get(uri.fsPath) || [];
+        list.push(diagnostic);
+        run.files.set(uri.fsPath, list);
+        run.lastDiagnostic = diagnostic;
+        run.lastUri = uri;
+
+        this.scheduleUpdate();
+    }
+
+    /**
+     * Resolve a path printed by the build to a host path
+     * Relative paths are resolved against the job working directory, then translated
+     * from container to host paths (e.g. /sandbox/... -> $HOME/codetree/repo/...)
+     */
+    private resolvePath(job: Job, file: string): string {
+        let resolved = file;
+        if (!path.isAbsolute(resolved) && job.options.workDir) {
+            resolved = path.posix.join(job.options.workDir, resolved);
+        }
+        resolved = path.posix.normalize(resolved);
+        return job.options.toHostPath ? job.options.toHostPath(resolved) : resolved;
+    }
+
+    /**
+     * Publish diagnostics of all runs, batched to avoid updating on every output line
+     */
+    private scheduleUpdate(): void {
+        if (this.updateTimer) {
+            return;
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.publish();
+        }, 500);
+    }
+
+    private publish(): void {
+        const merged = new Map<string, vscode.Diagnostic[]>();
+        for (const run of this.runs.values()) {
+            for (const [file, diagnostics] of run.files) {
+                merged.set(file, [...(merged.get(file) || []), ...diagnostics]);
+            }
+        }
+
+        this.collection.clear();
+        for (const [file, diagnostics] of merged) {
+            this.collection.set(vscode.Uri.file(file), diagnostics);
+        }
+    }
+
+    /**
+     * Remove all build diagnostics
+     */
+    clear(): void {
+        this.runs.clear();
+        this.collection.clear();
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+}
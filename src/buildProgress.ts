@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import { Job } from './jobManager';
+
+/**
+ * Progress marker parsed from an output line
+ */
+export interface ProgressMarker {
+    fraction?: number;  // 0..1 within the current build step
+    target?: string;  // What is being built, e.g. "Building CXX object src/foo.cc.o"
+    stage?: string;  // Stage banner of a build script
+    stageIndex?: number;  // 1-based stage number, when the banner has one
+    stageCount?: number;
+}
+
+// make / cmake: [ 45%] Building CXX object ...
+const MAKE_PATTERN = /^\[\s*(\d{1,3})%\]\s*(.*)$/;
+// ninja: [123/4567] Building CXX object ...
+const NINJA_PATTERN = /^\[(\d+)\/(\d+)\]\s*(.*)$/;
+// Stage banners of build scripts (package.sh): "===== [2/5] Build =====", "### Packaging ###", ">>> Install"
+const DEFAULT_STAGE_PATTERN = '^\\s*(?:={3,}|#{3,}|\\*{3,}|>{3})\\s*(?:\\[(?<current>\\d+)\\/(?<total>\\d+)\\]\\s*)?(?<stage>[A-Za-z][^=#*]*?)\\s*(?:={3,}|#{3,}|\\*{3,})?\\s*$';
+
+/**
+ * Parses build progress from make, ninja and cmake output and from build script stage banners
+ */
+export class BuildProgressParser {
+    private stagePattern: RegExp | undefined;
+
+    /**
+     * @param stagePattern Regular expression for stage banners with a "stage" group and optional
+     *                     "current"/"total" groups (an invalid pattern disables stage parsing)
+     */
+    constructor(stagePattern: string = DEFAULT_STAGE_PATTERN) {
+        try {
+            this.stagePattern = stagePattern ? new RegExp(stagePattern) : undefined;
+        } catch {
+            this.stagePattern = undefined;
+        }
+    }
+
+    /**
+     * Parse one output line
+     * @returns undefined if the line has no progress marker
+     */
+    parseLine(line: string): ProgressMarker | undefined {
+        // Progress lines overwritten with \r (ninja in a terminal): the last one counts
+        const text = line.substring(line.lastIndexOf('\r') + 1).trim();
+
+        let match = NINJA_PATTERN.exec(text);
+        if (match) {
+            const total = parseInt(match[2], 10);
+            return total > 0 ? { fraction: Math.min(parseInt(match[1], 10) / total, 1), target: match[3] || undefined } : undefined;
+        }
+
+        match = MAKE_PATTERN.exec(text);
+        if (match) {
+            return { fraction: Math.min(parseInt(match[1], 10) / 100, 1), target: match[2] || undefined };
+        }
+
+        match = this.stagePattern ? this.stagePattern.exec(text) : null;
+        if (match) {
+            const groups = match.groups || {};
+            const stage = (groups.stage || match[1] || '').trim();
+            if (!stage) {
+                return undefined;
+            }
+            const marker: ProgressMarker = { stage };
+            if (groups.current && groups.total && parseInt(groups.total, 10) > 0) {
+                marker.stageIndex = parseInt(groups.current, 10);
+                marker.stageCount = parseInt(groups.total, 10);
+            }
+            return marker;
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Format a duration in milliseconds as "1h 2m", "3m 20s" or "45s"
+ */
+export function formatDuration(ms: number): string {
+    const seconds = Math.max(Math.round(ms / 1000), 0);
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) {
+        return `${hours}h ${minutes}m`;
+    }
+    if (minutes > 0) {
+        return `${minutes}m ${seconds % 60}s`;
+    }
+    return `${seconds}s`;
+}
+
+/**
+ * Reports a job's build progress to a withProgress notification
+ *
+ * The overall fraction comes from the progress markers in the output (nested in the stage
+ * fraction when stage banners are numbered). The ETA uses the expected duration from previous
+ * runs of the same command when known, otherwise the rate of the markers. Without markers the
+ * expected duration alone drives the progress bar
+ */
+export class BuildProgressReporter implements vscode.Disposable {
+    private parser: BuildProgressParser;
+    private reported = 0;  // Percentage already reported (progress.report increments are cumulative)
+    private fraction: number | undefined;
+    private stageFraction: { index: number; count: number } | undefined;
+    private stage: string | undefined;
+    private target: string | undefined;
+    private lastReport = 0;
+    private timer: NodeJS.Timeout;
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param expectedDuration Median duration of previous successful runs (milliseconds)
+     */
+    constructor(
+        private job: Job,
+        private progress: vscode.Progress<{ message?: string; increment?: number }>,
+        private expectedDuration: number | undefined
+    ) {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        this.parser = new BuildProgressParser(config.get<string>('progressStagePattern', '') || undefined);
+        this.disposables.push(job.onDidWriteLine(line => this.onLine(line)));
+        // Refresh elapsed time and ETA while the output is quiet
+        this.timer = setInterval(() => this.report(), 5000);
+        this.report();
+    }
+
+    private onLine(line: string): void {
+        const marker = this.parser.parseLine(line);
+        if (!marker) {
+            return;
+        }
+
+        if (marker.stage) {
+            this.stage = marker.stage;
+            this.stageFraction = marker.stageIndex && marker.stageCount
+                ? { index: marker.stageIndex, count: marker.stageCount }
+                : this.stageFraction;
+            // A new stage restarts make/ninja percentages
+            this.fraction = undefined;
+            this.target = undefined;
+        }
+        if (marker.fraction !== undefined) {
+            this.fraction = marker.fraction;
+        }
+        if (marker.target) {
+            this.target = marker.target;
+        }
+
+        // Limit notification updates to a few per second
+        if (Date.now() - this.lastReport > 300) {
+            this.report();
+        }
+    }
+
+    /**
+     * Overall fraction: step progress nested in the numbered stage, if any
+     */
+    private getOverallFraction(): number | undefined {
+        if (this.stageFraction) {
+            const { index, count } = this.stageFraction;
+            return Math.min((index - 1 + (this.fraction ?? 0)) / count, 1);
+        }
+        return this.fraction;
+    }
+
+    private report(): void {
+        this.lastReport = Date.now();
+        const elapsed = this.job.getElapsed();
+        let fraction = this.getOverallFraction();
+
+        let remaining: number | undefined;
+        if (this.expectedDuration) {
+            remaining = fraction !== undefined
+                ? this.expectedDuration * (1 - fraction)
+                : Math.max(this.expectedDuration - elapsed, 0);
+            // No markers: the expected duration drives the bar, never quite reaching the end
+            if (fraction === undefined) {
+                fraction = Math.min(elapsed / this.expectedDuration, 0.99);
+            }
+        } else if (fraction !== undefined && fraction >= 0.02) {
+            remaining = elapsed * (1 - fraction) / fraction;
+        }
+
+        const parts: string[] = [];
+        if (fraction !== undefined) {
+            parts.push(`${Math.floor(fraction * 100)}%`);
+        }
+        if (this.stage) {
+            parts.push(this.stageFraction ? `[${this.stageFraction.index}/${this.stageFraction.count}] ${this.stage}` : this.stage);
+        }
+        if (this.target) {
+            parts.push(this.target.length > 80 ? `…${this.target.slice(-79)}` : this.target);
+        }
+        parts.push(remaining !== undefined ? `ETA ${formatDuration(remaining)}` : `elapsed ${formatDuration(elapsed)}`);
+
+        // The bar only moves forward: percentages of a later make/ninja step start again at 0
+        const percent = fraction !== undefined ? Math.floor(fraction * 100) : 0;
+        const increment = percent > this.reported ? percent - this.reported : 0;
+        this.reported += increment;
+        this.progress.report({ message: parts.join(' · '), increment: increment || undefined });
+    }
+
+    dispose(): void {
+        clearInterval(this.timer);
+        this.disposables.forEach(d => d.dispose());
+    }
+}
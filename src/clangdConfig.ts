@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * How clangd is pointed at a database
+ *   none:       leave clangd configuration alone
+ *   clangdFile: managed block in the .clangd file of the module (CompileFlags.CompilationDatabase)
+ *   arguments:  --compile-commands-dir in the clangd.arguments workspace setting
+ */
+export type ClangdConfigMode = 'none' | 'clangdFile' | 'arguments';
+
+// The managed block is a separate YAML document, so the rest of the file stays untouched
+const BLOCK_BEGIN = '# >>> deeproute-compile-commands (managed, do not edit)';
+const BLOCK_END = '# <<< deeproute-compile-commands';
+const BLOCK_PATTERN = /(?:^|\n)(?:---\n)?# >>> deeproute-compile-commands[^\n]*\n[\s\S]*?# <<< deeproute-compile-commands\n?/;
+
+/**
+ * Directory whose sources a database describes: the database directory, or its nearest
+ * parent with a CMakeLists.txt or package.sh (out-of-source build directories)
+ * Never leaves the workspace; falls back to the database directory
+ */
+export function findSourceRoot(databaseDir: string, workspaceRoot: string): string {
+    const isInWorkspace = (dir: string) => {
+        const relative = path.relative(workspaceRoot, dir);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+    };
+
+    for (let dir = databaseDir; isInWorkspace(dir); dir = path.dirname(dir)) {
+        if (fs.existsSync(path.join(dir, 'CMakeLists.txt')) || fs.existsSync(path.join(dir, 'package.sh'))) {
+            return dir;
+        }
+        if (dir === workspaceRoot) {
+            break;
+        }
+    }
+    return isInWorkspace(databaseDir) ? databaseDir : workspaceRoot;
+}
+
+/**
+ * Points clangd at a freshly written compile_commands.json
+ *
+ * clangd only looks for a database in the parent directories of a file (and their build/
+ * subdirectories), so databases generated in a module cwd or a separate build directory are
+ * often not found. Depending on the clangdConfig setting, the database is made explicit in the
+ * .clangd file of the module or with --compile-commands-dir
+ */
+export class ClangdConfig {
+    constructor(private workspaceRoot: string) {}
+
+    /**
+     * Configured mode
+     */
+    static getMode(): ClangdConfigMode {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        return config.get<ClangdConfigMode>('clangdConfig', 'none');
+    }
+
+    /**
+     * Make clangd use a database
+     * @returns Description of the change, undefined if nothing changed
+     */
+    async apply(databasePath: string): Promise<string | undefined> {
+        switch (ClangdConfig.getMode()) {
+            case 'clangdFile':
+                return this.updateClangdFile(databasePath);
+            case 'arguments':
+                return this.updateArguments(databasePath);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Write CompilationDatabase into the managed block of <source root>/.clangd
+     */
+    private updateClangdFile(databasePath: string): string | undefined {
+        const databaseDir = path.dirname(databasePath);
+        const sourceRoot = findSourceRoot(databaseDir, this.workspaceRoot);
+        const clangdFile = path.join(sourceRoot, '.clangd');
+        const relative = path.relative(sourceRoot, databaseDir).split(path.sep).join('/') || '.';
+
+        const block = [BLOCK_BEGIN, 'CompileFlags:', `  CompilationDatabase: ${relative}`, BLOCK_END, ''].join('\n');
+        const current = fs.existsSync(clangdFile) ? fs.readFileSync(clangdFile, 'utf8') : '';
+        const rest = current.replace(BLOCK_PATTERN, '\n').trim();
+        const content = rest ? `${rest}\n---\n${block}` : block;
+        if (content === current) {
+            return undefined;
+        }
+
+        fs.writeFileSync(clangdFile, content);
+        return `${path.relative(this.workspaceRoot, clangdFile)}: CompilationDatabase: ${relative}`;
+    }
+
+    /**
+     * Replace --compile-commands-dir in the clangd.arguments workspace folder setting
+     */
+    private async updateArguments(databasePath: string): Promise<string | undefined> {
+        const databaseDir = path.dirname(databasePath);
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this.workspaceRoot));
+        const config = vscode.workspace.getConfiguration('clangd', folder?.uri);
+        const current = config.get<string[]>('arguments', []);
+        const argument = `--compile-commands-dir=${databaseDir}`;
+        if (current.includes(argument)) {
+            return undefined;
+        }
+
+        const updated = [...current.filter(arg => !arg.startsWith('--compile-commands-dir')), argument];
+        await config.update(
+            'arguments',
+            updated,
+            folder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace
+        );
+        return `clangd.arguments: ${argument}`;
+    }
+}
@@ -0,0 +1,529 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandConfig, CommandInput } from './commandTreeProvider';
+import { COMMAND_FILE, CommandStore, StoredCommand, normalizeGroup } from './commandStore';
+import { ContainerProfiles, describeProfileTarget } from './containerProfiles';
+import { DeepRouteCompileCommands, InvocationPreview } from './deepRouteCompileCommands';
+import { Presentation, describeRunPolicy } from './jobManager';
+import { VariableResolver } from './variableResolver';
+
+type Field = keyof CommandConfig | 'preview' | 'save';
+
+/**
+ * Parse the inputs JSON entered in the editor
+ */
+export function parseInputs(text: string): { inputs?: CommandInput[]; error?: string } {
+    if (!text.trim()) {
+        return {};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error: any) {
+        return { error: `Invalid JSON: ${error.message}` };
+    }
+    if (!Array.isArray(parsed)) {
+        return { error: 'Expected a JSON array' };
+    }
+
+    const inputs: CommandInput[] = [];
+    for (const [index, value] of parsed.entries()) {
+        const problem = checkInput(value);
+        if (problem) {
+            return { error: `Input ${index + 1}: ${problem}` };
+        }
+        inputs.push(value as CommandInput);
+    }
+    return { inputs: inputs.length > 0 ? inputs : undefined };
+}
+
+/**
+ * @returns what is wrong with an entry of the inputs JSON, or undefined if it is a valid CommandInput
+ */
+function checkInput(value: unknown): string | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return 'expected an object with an "id"';
+    }
+    const input = value as Record<string, unknown>;
+    if (typeof input.id !== 'string' || !input.id.trim()) {
+        return '"id" is required';
+    }
+    if (input.description !== undefined && typeof input.description !== 'string') {
+        return '"description" must be a string';
+    }
+    if (input.options !== undefined && (!Array.isArray(input.options) || input.options.some(option => typeof option !== 'string'))) {
+        return '"options" must be an array of strings';
+    }
+    if (input.default !== undefined && typeof input.default !== 'string') {
+        return '"default" must be a string';
+    }
+    return undefined;
+}
+
+/**
+ * Parse the environment JSON entered in the editor
+ */
+export function parseEnv(text: string): { env?: Record<string, string>; error?: string } {
+    if (!text.trim()) {
+        return {};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error: any) {
+        return { error: `Invalid JSON: ${error.message}` };
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { error: 'Expected a JSON object' };
+    }
+
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key) || typeof value !== 'string') {
+            return { error: `${key}: names must be valid variable names and values strings` };
+        }
+        env[key] = value;
+    }
+    return { env: Object.keys(env).length > 0 ? env : undefined };
+}
+
+/**
+ * Multi-step editor for every field of a predefined command
+ *
+ * Fields are edited one at a time from a menu showing the current values; nothing is written
+ * until Save. Saving checks for duplicate command text and that the working directory exists
+ * where the command runs, and writes the command back to where it is stored
+ */
+export class CommandEditor {
+    constructor(
+        private executor: DeepRouteCompileCommands | undefined,
+        private variableResolver: VariableResolver | undefined
+    ) {}
+
+    /**
+     * Edit a command until it is saved or the editor is closed
+     * @returns true if the command was saved
+     */
+    async edit(stored: StoredCommand): Promise<boolean> {
+        const original = stored.config;
+        let draft: CommandConfig = { ...original };
+
+        for (;;) {
+            const changed = JSON.stringify(this.clean(draft)) !== JSON.stringify(this.clean(original));
+            const selected = await vscode.window.showQuickPick(this.getMenuItems(draft, changed), {
+                placeHolder: `Edit ${draft.alias || draft.command} (${stored.source === 'workspace' ? COMMAND_FILE : 'User settings'})`,
+                ignoreFocusOut: true
+            });
+
+            if (!selected) {
+                if (!changed) {
+                    return false;
+                }
+                const choice = await vscode.window.showWarningMessage(
+                    'Discard changes to the command?',
+                    { modal: true },
+                    'Discard',
+                    'Keep Editing'
+                );
+                if (choice === 'Discard') {
+                    return false;
+                }
+                continue;
+            }
+
+            if (selected.field === 'preview') {
+                await this.showPreview(draft);
+            } else if (selected.field === 'save') {
+                if (await this.save(stored, draft)) {
+                    return true;
+                }
+            } else {
+                draft = await this.editField(selected.field, draft, original);
+            }
+        }
+    }
+
+    private getMenuItems(draft: CommandConfig, changed: boolean): (vscode.QuickPickItem & { field: Field })[] {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const globalExecuteLocally = config.get<boolean>('executeLocally', false);
+        const mode = draft.executeLocally || globalExecuteLocally ? '🖥️  Local (Host)' : '🐳 Docker Container';
+        const inputCount = (draft.inputs || []).length;
+
+        return [
+            { label: '$(terminal) Command', description: draft.command, field: 'command' },
+            { label: '$(folder) Working Directory', description: draft.cwd || '(workspace root)', field: 'cwd' },
+            { label: '$(tag) Alias', description: draft.alias || '(none)', field: 'alias' },
+            {
+                label: '$(vm) Execution Mode',
+                description: globalExecuteLocally ? `${mode} (Global setting)` : mode,
+                field: 'executeLocally'
+            },
+            { label: '$(server-environment) Container Profile', description: draft.profile || '(default)', field: 'profile' },
+            { label: '$(output) Presentation', description: draft.presentation || '(default)', field: 'presentation' },
+            { label: '$(symbol-constant) Environment', description: Object.keys(draft.env || {}).join(', ') || '(none)', field: 'env' },
+            { label: '$(file) Env File', description: draft.envFile || '(none)', field: 'envFile' },
+            { label: '$(terminal-bash) Shell', description: draft.shell || '(default)', field: 'shell' },
+            { label: '$(watch) Timeout', description: draft.timeout ? `${draft.timeout}s` : '(none)', field: 'timeout' },
+            { label: '$(sync) Retries', description: draft.retries ? String(draft.retries) : '(none)', field: 'retries' },
+            {
+                label: '$(list-filter) Retry On Exit Codes',
+                description: draft.retryOn ? draft.retryOn.join(', ') : '(any failure)',
+                field: 'retryOn'
+            },
+            {
+                label: '$(debug-stop) Kill Grace Period',
+                description: draft.killGraceSeconds !== undefined ? `${draft.killGraceSeconds}s` : '(3s)',
+                field: 'killGraceSeconds'
+            },
+            { label: '$(folder-library) Group', description: draft.group || '(top level)', field: 'group' },
+            { label: '$(symbol-keyword) Tags', description: (draft.tags || []).join(', ') || '(none)', field: 'tags' },
+            {
+                label: '$(symbol-variable) Inputs',
+                description: inputCount > 0 ? (draft.inputs || []).map(input => input.id).join(', ') : '(none)',
+                field: 'inputs'
+            },
+            {
+                label: '$(database) Regenerates compile_commands.json',
+                description: draft.regeneratesCompileCommands ? 'Yes' : 'No',
+                field: 'regeneratesCompileCommands'
+            },
+            { label: '', kind: vscode.QuickPickItemKind.Separator, field: 'preview' },
+            { label: '$(eye) Preview Invocation', description: 'How the command would run', field: 'preview' },
+            { label: '$(check) Save', description: changed ? 'Unsaved changes' : 'No changes', field: 'save' }
+        ];
+    }
+
+    /**
+     * Edit a single field
+     * @returns The updated draft (unchanged if the prompt was cancelled)
+     */
+    private async editField(field: keyof CommandConfig, draft: CommandConfig, original: CommandConfig): Promise<CommandConfig> {
+        switch (field) {
+            case 'command': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Command',
+                    value: draft.command,
+                    ignoreFocusOut: true,
+                    validateInput: text => {
+                        if (!text.trim()) {
+                            return 'Command cannot be empty';
+                        }
+                        return text.trim() !== original.command && CommandStore.find(text.trim())
+                            ? 'A predefined command with this command text already exists'
+                            : null;
+                    }
+                });
+                return value === undefined ? draft : { ...draft, command: value.trim() };
+            }
+
+            case 'cwd': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Working directory (relative to the workspace root, leave empty for the workspace root)',
+                    placeHolder: 'e.g.: blc or ./build',
+                    value: draft.cwd || '',
+                    ignoreFocusOut: true
+                });
+                return value === undefined ? draft : { ...draft, cwd: value.trim() || undefined };
+            }
+
+            case 'alias': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Alias (leave empty to not use alias)',
+                    placeHolder: 'e.g.: 🔨 Build Project',
+                    value: draft.alias || '',
+                    ignoreFocusOut: true
+                });
+                return value === undefined ? draft : { ...draft, alias: value.trim() || undefined };
+            }
+
+            case 'executeLocally': {
+                const selected = await vscode.window.showQuickPick(
+                    [
+                        { label: '🐳 Docker Container', description: 'Execute in Docker container (default)', value: false },
+                        { label: '🖥️  Local (Host)', description: 'Execute on local machine', value: true }
+                    ],
+                    { placeHolder: 'Select execution mode for this command' }
+                );
+                return selected ? { ...draft, executeLocally: selected.value || undefined } : draft;
+            }
+
+            case 'profile': {
+                const selected = await vscode.window.showQuickPick(
+                    [
+                        { label: '$(circle-slash) Default profile', description: 'Use the default container profile', name: undefined as string | undefined },
+                        ...ContainerProfiles.getProfiles().map(profile => ({
+                            label: profile.name,
+                            description: describeProfileTarget(profile),
+                            name: profile.name as string | undefined
+                        }))
+                    ],
+                    { placeHolder: 'Select container profile for this command' }
+                );
+                return selected ? { ...draft, profile: selected.name } : draft;
+            }
+
+            case 'presentation': {
+                const selected = await vscode.window.showQuickPick(
+                    [
+                        { label: '$(circle-slash) Default', description: 'Use the presentation setting', value: undefined as Presentation | undefined },
+                        { label: '$(output) Output', description: 'Output panel', value: 'output' as Presentation | undefined },
+                        { label: '$(terminal) Terminal', description: 'Integrated terminal (colors, interactive prompts)', value: 'terminal' as Presentation | undefined }
+                    ],
+                    { placeHolder: 'Select where the output is shown' }
+                );
+                return selected ? { ...draft, presentation: selected.value } : draft;
+            }
+
+            case 'env': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Environment variables as a JSON object (override the env setting, the container profile and the env file)',
+                    placeHolder: '{ "CORE_NUMS": "12" }',
+                    value: draft.env && Object.keys(draft.env).length > 0 ? JSON.stringify(draft.env) : '',
+                    ignoreFocusOut: true,
+                    validateInput: text => parseEnv(text).error || null
+                });
+                return value === undefined ? draft : { ...draft, env: parseEnv(value).env };
+            }
+
+            case 'envFile': {
+                const value = await vscode.window.showInputBox({
+                    prompt: '.env file with KEY=VALUE lines (relative to the workspace root, leave empty for none)',
+                    placeHolder: 'e.g.: .env or blc/.env.build',
+                    value: draft.envFile || '',
+                    ignoreFocusOut: true,
+                    validateInput: text => {
+                        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+                        return text.trim() && root && !fs.existsSync(path.resolve(root, text.trim()))
+                            ? { message: 'File does not exist (yet)', severity: vscode.InputBoxValidationSeverity.Warning }
+                            : null;
+                    }
+                });
+                return value === undefined ? draft : { ...draft, envFile: value.trim() || undefined };
+            }
+
+            case 'shell': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Shell the command runs with (leave empty for the shell setting)',
+                    placeHolder: 'e.g.: /bin/bash or zsh',
+                    value: draft.shell || '',
+                    ignoreFocusOut: true
+                });
+                return value === undefined ? draft : { ...draft, shell: value.trim() || undefined };
+            }
+
+            case 'timeout': {
+                const value = await this.editNumber('Timeout in seconds per attempt (leave empty for no timeout)', 'e.g.: 1800', draft.timeout, 1);
+                return value === null ? draft : { ...draft, timeout: value };
+            }
+
+            case 'retries': {
+                const value = await this.editNumber('Retries after a failed attempt (leave empty for none)', 'e.g.: 2', draft.retries, 0);
+                return value === null ? draft : { ...draft, retries: value || undefined };
+            }
+
+            case 'retryOn': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Exit codes that are retried, separated by commas (leave empty to retry any failure, including timeouts)',
+                    placeHolder: 'e.g.: 75, 124',
+                    value: (draft.retryOn || []).join(', '),
+                    ignoreFocusOut: true,
+                    validateInput: text => text.split(',').every(code => !code.trim() || /^\d+$/.test(code.trim()))
+                        ? null
+                        : 'Exit codes must be non-negative integers'
+                });
+                if (value === undefined) {
+                    return draft;
+                }
+                const codes = [...new Set(value.split(',').map(code => code.trim()).filter(Boolean).map(Number))];
+                return { ...draft, retryOn: codes.length > 0 ? codes : undefined };
+            }
+
+            case 'killGraceSeconds': {
+                const value = await this.editNumber(
+                    'Seconds between SIGTERM and SIGKILL when the command is stopped or times out (leave empty for 3)',
+                    'e.g.: 10',
+                    draft.killGraceSeconds,
+                    0
+                );
+                return value === null ? draft : { ...draft, killGraceSeconds: value };
+            }
+
+            case 'group': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Group path, nested groups separated by "/" (leave empty for the top level)',
+                    placeHolder: 'e.g.: Build/x86',
+                    value: draft.group || '',
+                    ignoreFocusOut: true
+                });
+                return value === undefined ? draft : { ...draft, group: normalizeGroup(value) };
+            }
+
+            case 'tags': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Tags, separated by commas',
+                    placeHolder: 'e.g.: build, x86',
+                    value: (draft.tags || []).join(', '),
+                    ignoreFocusOut: true
+                });
+                if (value === undefined) {
+                    return draft;
+                }
+                const tags = [...new Set(value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean))];
+                return { ...draft, tags: tags.length > 0 ? tags : undefined };
+            }
+
+            case 'inputs': {
+                const value = await vscode.window.showInputBox({
+                    prompt: 'Inputs for ${input:id} placeholders, as a JSON array (leave empty for none)',
+                    placeHolder: '[{ "id": "arch", "options": ["x86_2004", "aarch64"] }]',
+                    value: draft.inputs && draft.inputs.length > 0 ? JSON.stringify(draft.inputs) : '',
+                    ignoreFocusOut: true,
+                    validateInput: text => parseInputs(text).error || null
+                });
+                return value === undefined ? draft : { ...draft, inputs: parseInputs(value).inputs };
+            }
+
+            case 'regeneratesCompileCommands':
+                return { ...draft, regeneratesCompileCommands: !draft.regeneratesCompileCommands || undefined };
+
+            default:
+                return draft;
+        }
+    }
+
+    /**
+     * Prompt for a whole number
+     * @returns undefined if the input was cleared, null if the prompt was cancelled
+     */
+    private async editNumber(prompt: string, placeHolder: string, current: number | undefined, min: number): Promise<number | undefined | null> {
+        const value = await vscode.window.showInputBox({
+            prompt,
+            placeHolder,
+            value: current !== undefined ? String(current) : '',
+            ignoreFocusOut: true,
+            validateInput: text => !text.trim() || (/^\d+$/.test(text.trim()) && Number(text.trim()) >= min)
+                ? null
+                : `Enter a whole number of at least ${min}`
+        });
+        if (value === undefined) {
+            return null;
+        }
+        return value.trim() ? Number(value.trim()) : undefined;
+    }
+
+    /**
+     * Resolve placeholders (without prompting) and describe how the command would run
+     */
+    private async describe(draft: CommandConfig): Promise<{ command: string; cwd?: string; preview?: InvocationPreview }> {
+        const resolved = this.variableResolver
+            ? this.variableResolver.preview({ command: draft.command, cwd: draft.cwd, inputs: draft.inputs })
+            : { command: draft.command, cwd: draft.cwd };
+        const preview = this.executor
+            ? await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Checking working directory...' },
+                () => this.executor!.describeInvocation(resolved.command, resolved.cwd, {
+                    executeLocally: draft.executeLocally,
+                    profile: draft.profile,
+                    env: draft.env,
+                    envFile: draft.envFile,
+                    shell: draft.shell
+                })
+            )
+            : undefined;
+        return { ...resolved, preview };
+    }
+
+    private async showPreview(draft: CommandConfig): Promise<void> {
+        const { command, preview } = await this.describe(draft);
+        const lines = [`Command: ${command}`];
+        if (preview) {
+            const mode = preview.mode === 'local' ? '🖥️  Local (Host)' : preview.mode === 'ssh' ? '🌐 Remote Host (SSH)' : '🐳 Docker Container';
+            lines.push(`Execution Mode: ${mode}`);
+            if (preview.target) {
+                lines.push(`Target: ${preview.target}${preview.profile ? ` (profile: ${preview.profile})` : ''}`);
+            }
+            if (preview.error) {
+                lines.push(`❌ ${preview.error}`);
+            } else {
+                lines.push(`Working Dir: ${preview.workDir} ${this.describeWorkDirCheck(preview)}`);
+                lines.push('', 'Invocation:', preview.commandLine || '');
+            }
+        }
+        const policy = describeRunPolicy(draft);
+        if (policy) {
+            lines.push('', policy);
+        }
+        if (VariableResolver.hasVariables(command)) {
+            lines.push('', 'Placeholders without a last used or default value are prompted for when the command runs');
+        }
+
+        await vscode.window.showInformationMessage(
+            `Preview: ${draft.alias || draft.command}`,
+            { modal: true, detail: lines.join('\n') }
+        );
+    }
+
+    private describeWorkDirCheck(preview: InvocationPreview): string {
+        if (preview.workDirExists === true) {
+            return '✅';
+        }
+        if (preview.workDirExists === false) {
+            return '❌ does not exist';
+        }
+        return `⚠️ not checked: ${preview.checkError}`;
+    }
+
+    /**
+     * Validate and write the command back to where it is stored
+     * @returns false if the user should keep editing
+     */
+    private async save(stored: StoredCommand, draft: CommandConfig): Promise<boolean> {
+        const command = draft.command.trim();
+        if (command !== stored.config.command && CommandStore.find(command)) {
+            vscode.window.showErrorMessage(`A predefined command with this command text already exists: ${command}`);
+            return false;
+        }
+
+        // A cwd with unresolved placeholders cannot be checked before the command runs
+        const { cwd, preview } = await this.describe(draft);
+        if (preview && !VariableResolver.hasVariables(cwd)) {
+            const problem = preview.error || (preview.workDirExists === false ? `Working directory ${preview.workDir} does not exist on ${preview.target}` : undefined);
+            if (problem) {
+                const choice = await vscode.window.showWarningMessage(problem, { modal: true }, 'Save Anyway');
+                if (choice !== 'Save Anyway') {
+                    return false;
+                }
+            }
+        }
+
+        try {
+            const found = await CommandStore.update(stored.config.command, stored.source, () => this.clean({ ...draft, command }));
+            if (!found) {
+                vscode.window.showErrorMessage('Command not found');
+                return false;
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Cannot save command: ${error.message}`);
+            return false;
+        }
+
+        vscode.window.showInformationMessage(`✅ Command saved: ${draft.alias || command}`);
+        return true;
+    }
+
+    /**
+     * Drop empty optional fields so they don't end up in the configuration
+     */
+    private clean(draft: CommandConfig): CommandConfig {
+        const result: Record<string, unknown> = {};
+        Object.entries(draft).forEach(([key, value]) => {
+            if (value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)) {
+                result[key] = value;
+            }
+        });
+        return result as unknown as CommandConfig;
+    }
+}
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Environment and shell a command runs with
+ */
+export interface CommandEnvironment {
+    env: Record<string, string>;  // Variables set on top of the environment of the target
+    shell?: string;  // Shell the command is run with (undefined: target default)
+}
+
+/**
+ * Per-command environment settings (from CommandConfig)
+ */
+export interface EnvironmentOverrides {
+    env?: Record<string, string>;
+    envFile?: string;  // .env file, relative to the workspace root
+    shell?: string;
+}
+
+// Variables whose names match are masked in output headers and previews
+const DEFAULT_SECRET_PATTERN = '(SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_?KEY|CREDENTIAL|AUTH)';
+const MASK = '******';
+
+/**
+ * Parse a .env file: KEY=VALUE lines, optional "export " prefix, # comments,
+ * values optionally in single or double quotes (\n escapes in double quotes)
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+    const env: Record<string, string> = {};
+    content.split(/\r?\n/).forEach(line => {
+        const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+        if (!match) {
+            return;
+        }
+
+        let value = match[2];
+        if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+            value = value.slice(1, -1).replace(/\\n/g, '\n').replace(/\\"/g, '"');
+        } else if (value.length >= 2 && value.startsWith('\'') && value.endsWith('\'')) {
+            value = value.slice(1, -1);
+        } else {
+            // Unquoted values end at an inline comment
+            value = value.replace(/\s+#.*$/, '');
+        }
+        env[match[1]] = value;
+    });
+    return env;
+}
+
+/**
+ * Merge the environment of a command, later sources win:
+ * env setting < container profile env < envFile of the command < env of the command
+ * The shell of the command overrides the shell setting
+ * @throws Error if the env file cannot be read
+ */
+export function resolveCommandEnvironment(
+    workspaceRoot: string,
+    overrides: EnvironmentOverrides,
+    profileEnv?: Record<string, string>
+): CommandEnvironment {
+    const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+
+    let fileEnv: Record<string, string> = {};
+    if (overrides.envFile && overrides.envFile.trim()) {
+        const envFile = path.resolve(workspaceRoot, overrides.envFile.trim().replace(/\$\{workspaceFolder\}/g, workspaceRoot));
+        if (!fs.existsSync(envFile)) {
+            throw new Error(`Env file not found: ${envFile}`);
+        }
+        fileEnv = parseEnvFile(fs.readFileSync(envFile, 'utf8'));
+    }
+
+    return {
+        env: {
+            ...config.get<Record<string, string>>('env', {}),
+            ...(profileEnv || {}),
+            ...fileEnv,
+            ...(overrides.env || {})
+        },
+        shell: (overrides.shell && overrides.shell.trim()) || config.get<string>('shell', '').trim() || undefined
+    };
+}
+
+/**
+ * Whether a variable holds a secret (name matches the secretEnvPattern setting)
+ */
+export function isSecret(name: string): boolean {
+    const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+    try {
+        return new RegExp(config.get<string>('secretEnvPattern', DEFAULT_SECRET_PATTERN) || DEFAULT_SECRET_PATTERN, 'i').test(name);
+    } catch {
+        return new RegExp(DEFAULT_SECRET_PATTERN, 'i').test(name);
+    }
+}
+
+/**
+ * Copy of the variables with secrets masked, for display
+ */
+export function maskEnvironment(env: Record<string, string>): Record<string, string> {
+    const masked: Record<string, string> = {};
+    Object.entries(env).forEach(([key, value]) => {
+        masked[key] = isSecret(key) ? MASK : value;
+    });
+    return masked;
+}
+
+/**
+ * KEY=value list for output headers, with secrets masked
+ */
+export function describeEnvironment(env: Record<string, string>): string[] {
+    return Object.entries(maskEnvironment(env)).map(([key, value]) => `${key}=${value.replace(/\r?\n/g, '\\n')}`);
+}
+
+/**
+ * Write variables to a temporary file for docker exec --env-file, so values don't show up in
+ * the process list. docker reads values literally to the end of the line: variables with line
+ * breaks are returned to be passed with -e instead
+ * @returns Path of the file (delete it once the process has exited) and the remaining variables
+ */
+export function writeDockerEnvFile(env: Record<string, string>): { file?: string; inline: Record<string, string> } {
+    const lines: string[] = [];
+    const inline: Record<string, string> = {};
+    Object.entries(env).forEach(([key, value]) => {
+        if (/[\r\n]/.test(value)) {
+            inline[key] = value;
+        } else {
+            lines.push(`${key}=${value}`);
+        }
+    });
+    if (lines.length === 0) {
+        return { inline };
+    }
+
+    const file = path.join(os.tmpdir(), `deeproute-env-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`);
+    fs.writeFileSync(file, lines.join('\n') + '\n', { mode: 0o600 });
+    return { file, inline };
+}
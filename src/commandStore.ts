@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandConfig } from './commandTreeProvider';
+
+/**
+ * Where a predefined command is stored
+ *   workspace: .vscode/deeproute-commands.json, checked into the repository and shared with the team
+ *   user:      predefinedCommands user setting, available in every workspace
+ */
+export type CommandSource = 'workspace' | 'user';
+
+/**
+ * Predefined command with its source
+ */
+export interface StoredCommand {
+    config: CommandConfig;  // String commands are converted to { command }
+    source: CommandSource;
+}
+
+/**
+ * Content of the workspace command file (other top-level keys are kept when writing)
+ */
+interface CommandFile {
+    $schema?: string;
+    commands?: (string | CommandConfig)[];
+    [key: string]: unknown;
+}
+
+// Workspace command file, relative to the workspace root
+export const COMMAND_FILE = '.vscode/deeproute-commands.json';
+
+/**
+ * Normalize a group path: "/Build//x86 " → "Build/x86"
+ * @returns undefined for the top level
+ */
+export function normalizeGroup(group?: string): string | undefined {
+    const segments = (group || '').split('/').map(segment => segment.trim()).filter(Boolean);
+    return segments.length > 0 ? segments.join('/') : undefined;
+}
+
+function getCommandText(cmd: string | CommandConfig): string {
+    return typeof cmd === 'string' ? cmd : cmd.command;
+}
+
+/**
+ * Reads and writes predefined commands from the workspace command file and the user setting
+ *
+ * Workspace commands come first; a user command with the same command text as a workspace
+ * command is hidden. Edits are written back to the source of the command
+ */
+export class CommandStore {
+    private static _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    // Fires when the workspace command file or the predefinedCommands setting changes
+    static readonly onDidChange: vscode.Event<void> = CommandStore._onDidChange.event;
+
+    // Parsed workspace command file, reused until the file changes
+    private static cache: { mtimeMs: number; commands: CommandConfig[] } | undefined;
+
+    /**
+     * Path of the workspace command file (first workspace folder)
+     * @returns undefined without an open folder
+     */
+    static getFilePath(): string | undefined {
+        const folders = vscode.workspace.workspaceFolders;
+        return folders && folders.length > 0 ? path.join(folders[0].uri.fsPath, COMMAND_FILE) : undefined;
+    }
+
+    /**
+     * All predefined commands: workspace commands first, then user commands
+     */
+    static getCommands(): StoredCommand[] {
+        const workspaceCommands = CommandStore.readWorkspaceCommands();
+        const workspaceTexts = new Set(workspaceCommands.map(cmd => cmd.command));
+        return [
+            ...workspaceCommands.map(config => ({ config, source: 'workspace' as CommandSource })),
+            ...CommandStore.readUserCommands()
+                .filter(cmd => !workspaceTexts.has(cmd.command))
+                .map(config => ({ config, source: 'user' as CommandSource }))
+        ];
+    }
+
+    /**
+     * Find a predefined command by its command text
+     * @param source Look only in this source (also finds user commands hidden by a workspace
+     *               command with the same text); without it, the command as listed by getCommands()
+     */
+    static find(command: string, source?: CommandSource): StoredCommand | undefined {
+        if (!source) {
+            return CommandStore.getCommands().find(cmd => cmd.config.command === command);
+        }
+        const commands = source === 'workspace' ? CommandStore.readWorkspaceCommands() : CommandStore.readUserCommands();
+        const config = commands.find(cmd => cmd.command === command);
+        return config ? { config, source } : undefined;
+    }
+
+    /**
+     * Append a command to a source
+     * @throws Error if the workspace command file cannot be read or written
+     */
+    static async add(command: CommandConfig, source: CommandSource): Promise<void> {
+        await CommandStore.modify(source, commands => [...commands, command]);
+    }
+
+    /**
+     * Replace a command in its source
+     * @param update Receives the current command (string commands converted to objects)
+     * @returns false if the command does not exist in the source
+     * @throws Error if the workspace command file cannot be read or written
+     */
+    static async update(
+        command: string,
+        source: CommandSource,
+        update: (current: CommandConfig) => CommandConfig
+    ): Promise<boolean> {
+        let found = false;
+        await CommandStore.modify(source, commands => commands.map(cmd => {
+            const current = typeof cmd === 'string' ? { command: cmd } : cmd;
+            if (found || current.command !== command) {
+                return cmd;
+            }
+            found = true;
+            return update(current);
+        }));
+        return found;
+    }
+
+    /**
+     * Remove a command from its source
+     * @returns false if the command does not exist in the source
+     * @throws Error if the workspace command file cannot be read or written
+     */
+    static async remove(command: string, source: CommandSource): Promise<boolean> {
+        let found = false;
+        await CommandStore.modify(source, commands => commands.filter(cmd => {
+            const text = getCommandText(cmd);
+            found = found || text === command;
+            return text !== command;
+        }));
+        return found;
+    }
+
+    /**
+     * Move commands of a source into a group, keeping their relative order
+     * @param group Group path ("Build/x86"), undefined for the top level
+     * @param before Command text to insert before; the commands are appended to the source if it
+     *               is undefined or not in the source
+     * @throws Error if the workspace command file cannot be read or written
+     */
+    static async move(commands: string[], source: CommandSource, group: string | undefined, before?: string): Promise<void> {
+        await CommandStore.modify(source, current => {
+            const moved = current
+                .filter(cmd => commands.includes(getCommandText(cmd)))
+                .map(cmd => ({ ...(typeof cmd === 'string' ? { command: cmd } : cmd), group: normalizeGroup(group) }));
+            const rest = current.filter(cmd => !commands.includes(getCommandText(cmd)));
+            const index = before !== undefined ? rest.findIndex(cmd => getCommandText(cmd) === before) : -1;
+            rest.splice(index === -1 ? rest.length : index, 0, ...moved);
+            return rest;
+        });
+    }
+
+    /**
+     * Watch the workspace command file and the predefinedCommands setting
+     */
+    static watch(): vscode.Disposable {
+        const disposables: vscode.Disposable[] = [
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('deeproute-compile-commands.predefinedCommands')) {
+                    CommandStore._onDidChange.fire();
+                }
+            })
+        ];
+
+        const folders = vscode.workspace.workspaceFolders;
+        if (folders && folders.length > 0) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folders[0], COMMAND_FILE));
+            const onFileChange = () => {
+                CommandStore.cache = undefined;
+                CommandStore._onDidChange.fire();
+            };
+            disposables.push(
+                watcher,
+                watcher.onDidCreate(onFileChange),
+                watcher.onDidChange(onFileChange),
+                watcher.onDidDelete(onFileChange)
+            );
+        }
+
+        return vscode.Disposable.from(...disposables);
+    }
+
+    private static readUserCommands(): CommandConfig[] {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        return config.get<(string | CommandConfig)[]>('predefinedCommands', [])
+            .map(cmd => typeof cmd === 'string' ? { command: cmd } : cmd)
+            .filter(cmd => cmd && typeof cmd.command === 'string' && cmd.command.trim());
+    }
+
+    /**
+     * Commands of the workspace command file
+     * An invalid file is reported once per modification and yields its valid commands only
+     */
+    private static readWorkspaceCommands(): CommandConfig[] {
+        const filePath = CommandStore.getFilePath();
+        if (!filePath || !fs.existsSync(filePath)) {
+            return [];
+        }
+
+        const mtimeMs = fs.statSync(filePath).mtimeMs;
+        if (CommandStore.cache && CommandStore.cache.mtimeMs === mtimeMs) {
+            return CommandStore.cache.commands;
+        }
+
+        const commands: CommandConfig[] = [];
+        const problems: string[] = [];
+        try {
+            const file = CommandStore.readFile(filePath);
+            (file.commands || []).forEach((cmd, index) => {
+                if (typeof cmd === 'string' && cmd.trim()) {
+                    commands.push({ command: cmd });
+                } else if (cmd && typeof cmd === 'object' && typeof cmd.command === 'string' && cmd.command.trim()) {
+                    commands.push(cmd);
+                } else {
+                    problems.push(`commands[${index}]: "command" is required`);
+                }
+            });
+        } catch (error: any) {
+            problems.push(error.message);
+        }
+
+        CommandStore.cache = { mtimeMs, commands };
+        if (problems.length > 0) {
+            vscode.window.showWarningMessage(`⚠️ Invalid ${COMMAND_FILE}: ${problems.join('; ')}`);
+        }
+        return commands;
+    }
+
+    /**
+     * Parse the workspace command file
+     * The file is strict JSON: comments and trailing commas are rejected, since they would be lost on the next write
+     * @throws Error if the file is not valid JSON or has no commands array
+     */
+    private static readFile(filePath: string): CommandFile {
+        const content = fs.readFileSync(filePath, 'utf8');
+        if (!content.trim()) {
+            return {};
+        }
+
+        let file: CommandFile;
+        try {
+            file = JSON.parse(content);
+        } catch (error: any) {
+            throw new Error(`not valid JSON, comments and trailing commas are not allowed (${error.message})`);
+        }
+        if (!file || typeof file !== 'object' || Array.isArray(file)) {
+            throw new Error('expected an object with a "commands" array');
+        }
+        if (file.commands !== undefined && !Array.isArray(file.commands)) {
+            throw new Error('"commands" must be an array');
+        }
+        return file;
+    }
+
+    /**
+     * Apply a change to the raw command list of a source
+     */
+    private static async modify(
+        source: CommandSource,
+        change: (commands: (string | CommandConfig)[]) => (string | CommandConfig)[]
+    ): Promise<void> {
+        if (source === 'user') {
+            const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+            const commands = config.get<(string | CommandConfig)[]>('predefinedCommands', []);
+            await config.update('predefinedCommands', change(commands), vscode.ConfigurationTarget.Global);
+            return;
+        }
+
+        const filePath = CommandStore.getFilePath();
+        if (!filePath) {
+            throw new Error(`Cannot write ${COMMAND_FILE}: no workspace folder is open`);
+        }
+
+        let file: CommandFile = {};
+        if (fs.existsSync(filePath)) {
+            try {
+                file = CommandStore.readFile(filePath);
+            } catch (error: any) {
+                // Never overwrite a file the user has to fix first
+                throw new Error(`Cannot update ${COMMAND_FILE}: ${error.message}`);
+            }
+        }
+
+        const updated: CommandFile = { ...file, commands: change(file.commands || []) };
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(updated, null, 4) + '\n');
+
+        CommandStore.cache = undefined;
+        CommandStore._onDidChange.fire();
+    }
+}
@@ -1,4 +1,10 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ExecutionMode, Job, JobManager, JobStatus, Presentation } from './jobManager';
+import { PipelineRunner, StepStatus } from './pipelineRunner';
+import { ExecuteOptions } from './deepRouteCompileCommands';
+import { ContainerProfiles, describeProfileTarget } from './containerProfiles';
+import { COMMAND_FILE, CommandSource, CommandStore, StoredCommand, normalizeGroup } from './commandStore';
 
 /**
  * 命令配置接口
@@ -8,6 +14,51 @@ export interface CommandConfig {
     cwd?: string;
     alias?: string;  // 命令别名，用于显示
     executeLocally?: boolean;  // 是否在本地执行
+    inputs?: CommandInput[];  // ${input:id} 占位符的声明（可选）
+    profile?: string;  // 容器配置名称（可选，默认使用 defaultProfile）
+    presentation?: Presentation;  // 输出方式：输出面板或集成终端（可选，默认使用 presentation 设置）
+    regeneratesCompileCommands?: boolean;  // 是否用于重新生成 cwd 下的 compile_commands.json（用于过期检测）
+    group?: string;  // 分组路径，用 "/" 分隔多级分组，如 "Build/x86"（可选）
+    tags?: string[];  // 标签，显示在命令后，可在命令面板中搜索（可选）
+    env?: Record<string, string>;  // 命令级环境变量，覆盖 env 设置、容器配置和 envFile 中的同名变量（可选）
+    envFile?: string;  // .env 文件路径，相对于工作区根目录（可选）
+    shell?: string;  // 执行命令使用的 shell，覆盖 shell 设置（可选）
+    timeout?: number;  // 单次执行的超时时间（秒），超时后终止并视为失败（可选，默认不限制）
+    retries?: number;  // 失败后的重试次数（可选，默认 0）
+    retryOn?: number[];  // 需要重试的退出码（可选，默认任何失败都重试，包括超时）
+    killGraceSeconds?: number;  // 停止时 SIGTERM 与 SIGKILL 之间的等待秒数（可选，默认 3）
+}
+
+/**
+ * 命令输入变量接口，对应 command/cwd 中的 ${input:id}
+ */
+export interface CommandInput {
+    id: string;
+    description?: string;  // 输入提示
+    options?: string[];  // 可选值，提供时使用快速选择
+    default?: string;  // 默认值（无上次输入值时使用）
+}
+
+/**
+ * 流水线步骤接口
+ * ref 和 command 二选一：ref 引用预设命令（别名或命令文本），command 为内联命令
+ */
+export interface PipelineStep {
+    ref?: string;  // 引用的预设命令（别名或命令文本）
+    command?: string;  // 内联命令
+    name?: string;  // 步骤名称，用于显示（可选）
+    cwd?: string;  // 覆盖引用命令的执行目录
+    executeLocally?: boolean;  // 覆盖引用命令的执行模式
+    profile?: string;  // 覆盖引用命令的容器配置
+    continueOnFailure?: boolean;  // 失败后是否继续执行后续步骤（默认 false）
+}
+
+/**
+ * 流水线配置接口
+ */
+export interface PipelineConfig {
+    name: string;  // 流水线名称
+    steps: PipelineStep[];  // 按顺序执行的步骤
 }
 
 /**
@@ -17,6 +68,20 @@ export interface HistoryItem {
     command: string;
     cwd?: string;
     timestamp?: number;  // 执行时间戳（可选）
+    alias?: string;  // 执行时使用的别名（可选）
+    mode?: ExecutionMode;  // 执行模式：Docker 容器、SSH 远程主机或本地
+    target?: string;  // 执行目标：容器名称、远程主机或 "Local"
+    profile?: string;  // 执行时使用的容器配置名称
+    status?: JobStatus;  // 执行结果状态
+    exitCode?: number | null;  // 退出码
+    signal?: string | null;  // 终止信号
+    error?: string;  // 未能启动或超时时的错误信息
+    timedOut?: boolean;  // 最后一次执行是否超时
+    attempts?: number;  // 执行次数（包括重试）
+    startTime?: number;  // 开始时间戳
+    endTime?: number;  // 结束时间戳
+    logFile?: string;  // 保存的输出日志路径
+    options?: ExecuteOptions;  // 执行时使用的选项（执行位置、容器配置、环境变量、超时等），重新执行时沿用
 }
 
 /**
@@ -26,8 +91,14 @@ export enum CommandNodeType {
     PREDEFINED_COMMANDS = 'predefined',
     CUSTOM_COMMAND = 'custom',
     COMMAND_ITEM = 'command',
+    COMMAND_GROUP = 'command_group',
     HISTORY = 'history',
-    HISTORY_ITEM = 'history_item'
+    HISTORY_ITEM = 'history_item',
+    JOBS = 'jobs',
+    JOB_ITEM = 'job_item',
+    PIPELINES = 'pipelines',
+    PIPELINE_ITEM = 'pipeline_item',
+    PIPELINE_STEP = 'pipeline_step'
 }
 
 /**
@@ -40,6 +111,20 @@ export class CommandTreeItem extends vscode.TreeItem {
     public readonly cwd?: string;
     // 保存执行模式
     public readonly executeLocally?: boolean;
+    // 保存容器配置名称（未指定时使用默认配置）
+    public readonly profile?: string;
+    // 保存任务 ID（任务节点和已启动的流水线步骤节点）
+    public jobId?: number;
+    // 保存流水线名称（流水线节点和步骤节点）
+    public pipelineName?: string;
+    // 保存输出日志路径（历史节点）
+    public logFile?: string;
+    // 保存命令来源：工作区命令文件或用户设置（预设命令节点）
+    public source?: CommandSource;
+    // 保存分组路径（分组节点和预设命令节点，顶层为 undefined）
+    public groupPath?: string;
+    // 保存执行选项（历史记录节点），重新执行时沿用
+    public executeOptions?: ExecuteOptions;
 
     constructor(
         public readonly label: string,
@@ -47,14 +132,16 @@ export class CommandTreeItem extends vscode.TreeItem {
         public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
         commandText?: string,
         cwd?: string,
-        executeLocally?: boolean
+        executeLocally?: boolean,
+        profile?: string
     ) {
         super(label, collapsibleState);
         
-        // Save command text, working directory, and execution mode
+        // Save command text, working directory, execution mode and container profile
         this.commandText = commandText;
         this.cwd = cwd;
         this.executeLocally = executeLocally;
+        this.profile = profile;
 
         // Set different icons and contexts based on node type (Apple style design)
         // Root nodes use UPPERCASE labels for better visual hierarchy
@@ -67,6 +154,12 @@ export class CommandTreeItem extends vscode.TreeItem {
                 // Don't set description, use view/title menu in package.json for + button
                 break;
             
+            case CommandNodeType.COMMAND_GROUP:
+                // Use folder - nested command groups, similar to Finder folders
+                this.iconPath = new vscode.ThemeIcon('folder', new vscode.ThemeColor('charts.blue'));
+                this.contextValue = 'commandGroup';
+                break;
+            
             case CommandNodeType.HISTORY:
                 // Use timeline-view-icon - modern timeline icon, similar to macOS history
                 this.iconPath = new vscode.ThemeIcon('timeline-view-icon', new vscode.ThemeColor('charts.purple'));
@@ -74,6 +167,20 @@ export class CommandTreeItem extends vscode.TreeItem {
                 this.tooltip = 'Command History';
                 break;
             
+            case CommandNodeType.PIPELINES:
+                // Use list-ordered - represents ordered steps, similar to Shortcuts.app workflow
+                this.iconPath = new vscode.ThemeIcon('list-ordered', new vscode.ThemeColor('charts.yellow'));
+                this.contextValue = 'pipelinesGroup';
+                this.tooltip = 'Pipelines';
+                break;
+            
+            case CommandNodeType.JOBS:
+                // Use pulse - represents live activity, similar to Activity Monitor
+                this.iconPath = new vscode.ThemeIcon('pulse', new vscode.ThemeColor('charts.orange'));
+                this.contextValue = 'jobsGroup';
+                this.tooltip = 'Running and recently finished jobs';
+                break;
+            
             case CommandNodeType.CUSTOM_COMMAND:
                 // Use symbol-key - represents typing command, similar to Terminal.app prompt
                 this.iconPath = new vscode.ThemeIcon('symbol-key', new vscode.ThemeColor('charts.green'));
@@ -96,9 +203,19 @@ export class CommandTreeItem extends vscode.TreeItem {
                 if (this.cwd) {
                     tooltipText += `\nDirectory: ${this.cwd}`;
                 }
-                // Always show execution mode
-                const mode = this.executeLocally === true ? '🖥️  Local (Host)' : '🐳 Docker Container';
+                // Always show execution mode (and the container profile unless executed locally)
+                const profile = this.executeLocally === true
+                    ? undefined
+                    : this.profile ? ContainerProfiles.getProfiles().find(p => p.name === this.profile) : ContainerProfiles.getDefault();
+                const mode = this.executeLocally === true ? '🖥️  Local (Host)' : profile?.ssh ? '🌐 Remote Host (SSH)' : '🐳 Docker Container';
                 tooltipText += `\nExecution Mode: ${mode}`;
+                if (this.executeLocally !== true) {
+                    if (profile) {
+                        tooltipText += `\nProfile: ${profile.name}${this.profile ? '' : ' (default)'} → ${describeProfileTarget(profile)}`;
+                    } else if (this.profile) {
+                        tooltipText += `\nProfile: ${this.profile} ⚠️ not configured`;
+                    }
+                }
                 this.tooltip = tooltipText;
                 
                 // Set click behavior
@@ -125,28 +242,55 @@ export class CommandTreeItem extends vscode.TreeItem {
     }
 }
 
+// Drag and drop of predefined commands within the tree (application/vnd.code.tree.<view id in lower case>)
+const COMMAND_MIME_TYPE = 'application/vnd.code.tree.deeproutecommandslist';
+
 /**
  * Command Tree Data Provider
+ * Predefined commands can be dragged onto a group (move into it), onto a command (move before it,
+ * into its group) or onto PREDEFINED COMMANDS (move to the top level)
  */
-export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeItem> {
+export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeItem>, vscode.TreeDragAndDropController<CommandTreeItem> {
+    readonly dragMimeTypes = [COMMAND_MIME_TYPE];
+    readonly dropMimeTypes = [COMMAND_MIME_TYPE];
+
     private _onDidChangeTreeData: vscode.EventEmitter<CommandTreeItem | undefined | null | void> = new vscode.EventEmitter<CommandTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<CommandTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private commandHistory: HistoryItem[] = [];
     private maxHistorySize = 10;
     private context: vscode.ExtensionContext;
+    private jobManager: JobManager;
+    private pipelineRunner: PipelineRunner;
     private readonly HISTORY_STORAGE_KEY = 'deeproute-compile-commands.commandHistory';
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, jobManager: JobManager, pipelineRunner: PipelineRunner) {
         this.context = context;
+        this.jobManager = jobManager;
+        this.pipelineRunner = pipelineRunner;
         
         // Load history from persistent storage
         this.loadHistory();
+
+        // Refresh when jobs are queued, started or finished
+        this.jobManager.onDidChangeJobs(() => this.refresh());
+
+        // Record every finished run in history
+        this.jobManager.onDidFinishJob(job => this.recordJob(job));
+
+        // Refresh when pipeline step status changes
+        this.pipelineRunner.onDidChange(() => this.refresh());
+
+        // Refresh when the workspace command file or the predefinedCommands setting changes
+        CommandStore.onDidChange(() => this.refresh());
         
         // Listen to configuration changes
         vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('deeproute-compile-commands.predefinedCommands') ||
-                e.affectsConfiguration('deeproute-compile-commands.executeLocally')) {
+            if (e.affectsConfiguration('deeproute-compile-commands.pipelines') ||
+                e.affectsConfiguration('deeproute-compile-commands.executeLocally') ||
+                e.affectsConfiguration('deeproute-compile-commands.containerProfiles') ||
+                e.affectsConfiguration('deeproute-compile-commands.defaultProfile') ||
+                e.affectsConfiguration('deeproute-compile-commands.dockerContainerName')) {
                 this.refresh();
             }
         });
@@ -199,7 +343,7 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
      */
     getChildren(element?: CommandTreeItem): Thenable<CommandTreeItem[]> {
         if (!element) {
-            // Root nodes - three sibling nodes: Predefined Commands, Execute Custom Command, Command History
+            // Root nodes - five sibling nodes: Predefined Commands, Pipelines, Execute Custom Command, Jobs, Command History
             // Important: All root nodes must use same collapsibleState type (all Collapsed or all Expanded)
             // Mixing None with Collapsed/Expanded causes VS Code TreeView rendering hierarchy errors
             // Use UPPERCASE for better visibility and hierarchy (avoid adding symbols that conflict with VS Code's built-in UI)
@@ -209,11 +353,21 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
                     CommandNodeType.PREDEFINED_COMMANDS,
                     vscode.TreeItemCollapsibleState.Expanded
                 ),
+                new CommandTreeItem(
+                    'PIPELINES',
+                    CommandNodeType.PIPELINES,
+                    vscode.TreeItemCollapsibleState.Collapsed
+                ),
                 new CommandTreeItem(
                     'EXECUTE CUSTOM COMMAND',
                     CommandNodeType.CUSTOM_COMMAND,
                     vscode.TreeItemCollapsibleState.Collapsed  // Changed to Collapsed, avoid None causing indentation
                 ),
+                new CommandTreeItem(
+                    'JOBS',
+                    CommandNodeType.JOBS,
+                    vscode.TreeItemCollapsibleState.Expanded
+                ),
                 new CommandTreeItem(
                     'COMMAND HISTORY',
                     CommandNodeType.HISTORY,
@@ -227,8 +381,16 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
         // Child nodes
         if (element.nodeType === CommandNodeType.PREDEFINED_COMMANDS) {
             return this.getPredefinedCommands();
+        } else if (element.nodeType === CommandNodeType.COMMAND_GROUP) {
+            return this.getPredefinedCommands(element.groupPath);
         } else if (element.nodeType === CommandNodeType.HISTORY) {
             return this.getHistoryCommands();
+        } else if (element.nodeType === CommandNodeType.JOBS) {
+            return this.getJobItems();
+        } else if (element.nodeType === CommandNodeType.PIPELINES) {
+            return this.getPipelineItems();
+        } else if (element.nodeType === CommandNodeType.PIPELINE_ITEM && element.pipelineName) {
+            return this.getPipelineStepItems(element.pipelineName);
         } else if (element.nodeType === CommandNodeType.CUSTOM_COMMAND) {
             // "Execute Custom Command" has no child nodes, return empty array
             return Promise.resolve([]);
@@ -238,11 +400,12 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
     }
 
     /**
-     * Get predefined commands list
+     * Get predefined commands of a group: its subgroups (in order of appearance), then its commands
+     * @param group Group path, undefined for the top level
      */
-    private getPredefinedCommands(): Thenable<CommandTreeItem[]> {
+    private getPredefinedCommands(group?: string): Thenable<CommandTreeItem[]> {
         const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-        const commands = config.get<(string | CommandConfig)[]>('predefinedCommands', []);
+        const commands = CommandStore.getCommands();
         const globalExecuteLocally = config.get<boolean>('executeLocally', false);
 
         if (commands.length === 0) {
@@ -255,36 +418,292 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
             ]);
         }
 
-        const items = commands.map(cmd => {
-            // Compatible with old format (string) and new format (object)
-            if (typeof cmd === 'string') {
-                return new CommandTreeItem(
-                    cmd,
-                    CommandNodeType.COMMAND_ITEM,
-                    vscode.TreeItemCollapsibleState.None,
-                    cmd,
-                    undefined,
-                    globalExecuteLocally ? true : undefined
-                );
-            } else {
-                // Use alias if available, otherwise use command itself
-                const displayName = cmd.alias || cmd.command;
-                // Determine effective execution mode: local if either global or per-command flag is true
-                const effectiveExecuteLocally = cmd.executeLocally === true || globalExecuteLocally === true;
-                const item = new CommandTreeItem(
-                    displayName,
-                    CommandNodeType.COMMAND_ITEM,
-                    vscode.TreeItemCollapsibleState.None,
-                    cmd.command,
-                    cmd.cwd,
-                    effectiveExecuteLocally ? true : undefined
-                );
-                // Path info and execution mode shown in tooltip (set by CommandTreeItem constructor)
-                return item;
+        const prefix = group ? `${group}/` : '';
+        const subgroups: string[] = [];
+        const direct: StoredCommand[] = [];
+        commands.forEach(cmd => {
+            const cmdGroup = normalizeGroup(cmd.config.group);
+            if (cmdGroup === group) {
+                direct.push(cmd);
+            } else if (cmdGroup && cmdGroup.startsWith(prefix)) {
+                const subgroup = prefix + cmdGroup.substring(prefix.length).split('/')[0];
+                if (!subgroups.includes(subgroup)) {
+                    subgroups.push(subgroup);
+                }
             }
         });
 
-        return Promise.resolve(items);
+        const groupItems = subgroups.map(subgroup => {
+            const count = commands.filter(cmd => `${normalizeGroup(cmd.config.group)}/`.startsWith(`${subgroup}/`)).length;
+            const item = new CommandTreeItem(
+                subgroup.substring(prefix.length),
+                CommandNodeType.COMMAND_GROUP,
+                vscode.TreeItemCollapsibleState.Collapsed
+            );
+            // Stable id keeps the expanded state across refreshes
+            item.id = `commandGroup:${subgroup}`;
+            item.groupPath = subgroup;
+            item.description = `${count}`;
+            item.tooltip = `Group: ${subgroup}\nCommands: ${count}`;
+            return item;
+        });
+
+        const items = direct.map(({ config: cmd, source }) => {
+            // Use alias if available, otherwise use command itself
+            const displayName = cmd.alias || cmd.command;
+            // Determine effective execution mode: local if either global or per-command flag is true
+            const effectiveExecuteLocally = cmd.executeLocally === true || globalExecuteLocally === true;
+            const item = new CommandTreeItem(
+                displayName,
+                CommandNodeType.COMMAND_ITEM,
+                vscode.TreeItemCollapsibleState.None,
+                cmd.command,
+                cmd.cwd,
+                effectiveExecuteLocally ? true : undefined,
+                cmd.profile
+            );
+            // Path info and execution mode shown in tooltip (set by CommandTreeItem constructor)
+            const tags = (cmd.tags || []).filter(tag => typeof tag === 'string' && tag.trim());
+            item.source = source;
+            item.groupPath = group;
+            item.description = [...tags.map(tag => `#${tag.trim()}`), source].join(' ');
+            if (tags.length > 0) {
+                item.tooltip += `\nTags: ${tags.join(', ')}`;
+            }
+            item.tooltip += `\nSource: ${source === 'workspace' ? COMMAND_FILE : 'User settings'}`;
+            return item;
+        });
+
+        return Promise.resolve([...groupItems, ...items]);
+    }
+
+    /**
+     * Start dragging predefined commands (other nodes cannot be dragged)
+     */
+    handleDrag(source: readonly CommandTreeItem[], dataTransfer: vscode.DataTransfer): void {
+        const commands = source
+            .filter(item => item.nodeType === CommandNodeType.COMMAND_ITEM && item.commandText && item.source)
+            .map(item => ({ command: item.commandText as string, source: item.source as CommandSource }));
+        if (commands.length > 0) {
+            dataTransfer.set(COMMAND_MIME_TYPE, new vscode.DataTransferItem(commands));
+        }
+    }
+
+    /**
+     * Move dropped commands and persist the new order to where each command is stored
+     * Commands stay in their source: the order is only kept relative to commands of the same source
+     */
+    async handleDrop(target: CommandTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const transferItem = dataTransfer.get(COMMAND_MIME_TYPE);
+        if (!transferItem) {
+            return;
+        }
+        const dragged: { command: string; source: CommandSource }[] = transferItem.value;
+
+        let group: string | undefined;
+        let before: { command: string; source?: CommandSource } | undefined;
+        if (!target || target.nodeType === CommandNodeType.PREDEFINED_COMMANDS) {
+            group = undefined;
+        } else if (target.nodeType === CommandNodeType.COMMAND_GROUP) {
+            group = target.groupPath;
+        } else if (target.nodeType === CommandNodeType.COMMAND_ITEM && target.commandText && target.source) {
+            if (dragged.some(item => item.command === target.commandText)) {
+                return;
+            }
+            group = target.groupPath;
+            before = { command: target.commandText, source: target.source };
+        } else {
+            return;
+        }
+
+        try {
+            for (const source of ['workspace', 'user'] as CommandSource[]) {
+                const commands = dragged.filter(item => item.source === source).map(item => item.command);
+                if (commands.length > 0) {
+                    await CommandStore.move(commands, source, group, before?.source === source ? before.command : undefined);
+                }
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Cannot move command: ${error.message}`);
+        }
+    }
+
+    /**
+     * Get pipelines list
+     */
+    private getPipelineItems(): Thenable<CommandTreeItem[]> {
+        const pipelines = PipelineRunner.getPipelines();
+        if (pipelines.length === 0) {
+            return Promise.resolve([
+                new CommandTreeItem(
+                    'No pipelines',
+                    CommandNodeType.PIPELINE_ITEM,
+                    vscode.TreeItemCollapsibleState.None
+                )
+            ]);
+        }
+
+        return Promise.resolve(pipelines.map(pipeline => {
+            const run = this.pipelineRunner.getRun(pipeline.name);
+            const item = new CommandTreeItem(
+                pipeline.name,
+                CommandNodeType.PIPELINE_ITEM,
+                run ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+            );
+            item.pipelineName = pipeline.name;
+
+            const running = this.pipelineRunner.isRunning(pipeline.name);
+            item.contextValue = running ? 'pipelineItemRunning' : 'pipelineItem';
+            item.iconPath = run
+                ? getStepStatusIcon(run.status)
+                : new vscode.ThemeIcon('list-ordered', new vscode.ThemeColor('charts.yellow'));
+            const stepCount = (pipeline.steps || []).length;
+            item.description = run ? run.status : `${stepCount} step${stepCount === 1 ? '' : 's'}`;
+            item.tooltip = `Pipeline: ${pipeline.name}\nSteps: ${stepCount}`;
+            return item;
+        }));
+    }
+
+    /**
+     * Get steps of a pipeline with the status of its last run
+     */
+    private getPipelineStepItems(pipelineName: string): Thenable<CommandTreeItem[]> {
+        const pipeline = PipelineRunner.getPipelines().find(p => p.name === pipelineName);
+        if (!pipeline) {
+            return Promise.resolve([]);
+        }
+
+        const run = this.pipelineRunner.getRun(pipelineName);
+        return Promise.resolve((pipeline.steps || []).map((step, index) => {
+            // Prefer resolved step from the current run (config may have changed since)
+            const stepRun = run?.steps[index];
+            let label: string;
+            let tooltipText: string;
+            try {
+                const resolved = stepRun ? stepRun.step : PipelineRunner.resolveStep(step, index);
+                label = resolved.label;
+                tooltipText = `Execute: ${resolved.command}`;
+                if (resolved.cwd) {
+                    tooltipText += `\nDirectory: ${resolved.cwd}`;
+                }
+                tooltipText += `\nOn failure: ${resolved.continueOnFailure ? 'continue' : 'stop pipeline'}`;
+            } catch (error: any) {
+                label = step.name || step.ref || step.command || `Step ${index + 1}`;
+                tooltipText = error.message;
+            }
+
+            const item = new CommandTreeItem(
+                `${index + 1}. ${label}`,
+                CommandNodeType.PIPELINE_STEP,
+                vscode.TreeItemCollapsibleState.None
+            );
+            item.pipelineName = pipelineName;
+            item.contextValue = 'pipelineStep';
+
+            const status = stepRun ? stepRun.status : StepStatus.PENDING;
+            item.iconPath = getStepStatusIcon(status);
+            item.description = stepRun ? status : undefined;
+            if (stepRun?.error) {
+                tooltipText += `\nError: ${stepRun.error}`;
+            }
+            item.tooltip = tooltipText;
+
+            // Click shows the output of the step's job
+            if (stepRun?.jobId !== undefined) {
+                item.jobId = stepRun.jobId;
+                item.command = {
+                    command: 'deeproute-compile-commands.showJobOutput',
+                    title: 'Show Job Output',
+                    arguments: [item]
+                };
+            }
+            return item;
+        }));
+    }
+
+    /**
+     * Get jobs list, active jobs first, newest first
+     */
+    private getJobItems(): Thenable<CommandTreeItem[]> {
+        const jobs = this.jobManager.getJobs();
+        if (jobs.length === 0) {
+            return Promise.resolve([
+                new CommandTreeItem(
+                    'No jobs',
+                    CommandNodeType.JOB_ITEM,
+                    vscode.TreeItemCollapsibleState.None
+                )
+            ]);
+        }
+
+        const active = jobs.filter(job => job.isActive()).reverse();
+        const finished = jobs.filter(job => !job.isActive()).reverse();
+        return Promise.resolve([...active, ...finished].map(job => this.createJobItem(job)));
+    }
+
+    /**
+     * Build tree item for a job
+     */
+    private createJobItem(job: Job): CommandTreeItem {
+        const item = new CommandTreeItem(
+            `#${job.id} ${job.label}`,
+            CommandNodeType.JOB_ITEM,
+            vscode.TreeItemCollapsibleState.None,
+            job.command,
+            job.cwd
+        );
+        item.jobId = job.id;
+
+        const elapsed = job.startTime ? ` · ${formatDuration(job.getElapsed())}` : '';
+        item.description = `${job.status}${elapsed}`;
+
+        switch (job.status) {
+            case JobStatus.QUEUED:
+                item.iconPath = new vscode.ThemeIcon('clock', new vscode.ThemeColor('charts.gray'));
+                item.contextValue = 'jobItemActive';
+                break;
+            case JobStatus.RUNNING:
+                item.iconPath = new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.blue'));
+                item.contextValue = 'jobItemActive';
+                break;
+            case JobStatus.SUCCEEDED:
+                item.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+                item.contextValue = 'jobItemFinished';
+                break;
+            case JobStatus.FAILED:
+                item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+                item.contextValue = 'jobItemFinished';
+                break;
+            case JobStatus.STOPPED:
+                item.iconPath = new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('charts.gray'));
+                item.contextValue = 'jobItemFinished';
+                break;
+        }
+
+        let tooltipText = `Job #${job.id}: ${job.command}`;
+        if (job.cwd) {
+            tooltipText += `\nDirectory: ${job.cwd}`;
+        }
+        tooltipText += `\nTarget: ${job.target}`;
+        if (job.options.profile && job.options.profile !== job.target) {
+            tooltipText += ` (profile ${job.options.profile})`;
+        }
+        tooltipText += `\nStatus: ${job.status}`;
+        if (job.result?.exitCode !== undefined && job.result.exitCode !== null) {
+            tooltipText += `\nExit code: ${job.result.exitCode}`;
+        }
+        if (job.result?.error) {
+            tooltipText += `\nError: ${job.result.error}`;
+        }
+        item.tooltip = tooltipText;
+
+        // Click shows the job output
+        item.command = {
+            command: 'deeproute-compile-commands.showJobOutput',
+            title: 'Show Job Output',
+            arguments: [item]
+        };
+        return item;
     }
 
     /**
@@ -305,20 +724,85 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
         return Promise.resolve(
             [...this.commandHistory].reverse().map(historyItem => {
                 const item = new CommandTreeItem(
-                    historyItem.command,
+                    historyItem.alias || historyItem.command,
                     CommandNodeType.HISTORY_ITEM,
                     vscode.TreeItemCollapsibleState.None,
                     historyItem.command,
                     historyItem.cwd
                 );
+
+                // Rerun with the settings of the recorded run (the command is already resolved);
+                // runs recorded without options are looked up among predefined commands
+                if (historyItem.options) {
+                    item.executeOptions = historyItem.options;
+                    item.command = {
+                        command: 'deeproute-compile-commands.executeFromTree',
+                        title: 'Execute Command',
+                        arguments: [historyItem.command, historyItem.cwd, historyItem.options]
+                    };
+                }
                 
                 // Explicitly set tooltip to ensure command and path are shown
                 // Path info only shown in tooltip
+                let tooltipText = `Execute: ${historyItem.command}`;
                 if (historyItem.cwd) {
-                    item.tooltip = `Execute: ${historyItem.command}\nDirectory: ${historyItem.cwd}`;
-                } else {
-                    item.tooltip = `Execute: ${historyItem.command}`;
+                    tooltipText += `\nDirectory: ${historyItem.cwd}`;
+                }
+
+                // Runs recorded before execution results were tracked only have command and cwd
+                if (historyItem.status) {
+                    item.iconPath = getHistoryStatusIcon(historyItem.status);
+
+                    const duration = historyItem.startTime && historyItem.endTime
+                        ? formatDuration(historyItem.endTime - historyItem.startTime)
+                        : undefined;
+                    const descriptionParts: string[] = [];
+                    if (duration) {
+                        descriptionParts.push(duration);
+                    }
+                    if (historyItem.timedOut) {
+                        descriptionParts.push('timed out');
+                    } else if (historyItem.exitCode !== undefined && historyItem.exitCode !== null && historyItem.exitCode !== 0) {
+                        descriptionParts.push(`exit ${historyItem.exitCode}`);
+                    } else if (historyItem.signal) {
+                        descriptionParts.push(historyItem.signal);
+                    }
+                    if (historyItem.attempts && historyItem.attempts > 1) {
+                        descriptionParts.push(`${historyItem.attempts} attempts`);
+                    }
+                    item.description = descriptionParts.join(' · ');
+
+                    const profile = historyItem.profile && historyItem.profile !== historyItem.target ? `, profile ${historyItem.profile}` : '';
+                    const mode = historyItem.mode === 'local'
+                        ? '🖥️  Local (Host)'
+                        : historyItem.mode === 'ssh'
+                            ? `🌐 Remote Host (${historyItem.target}${profile})`
+                            : `🐳 Docker Container (${historyItem.target}${profile})`;
+                    tooltipText += `\nExecution Mode: ${mode}`;
+                    tooltipText += `\nResult: ${historyItem.status}`;
+                    if (historyItem.exitCode !== undefined && historyItem.exitCode !== null) {
+                        tooltipText += ` (exit code ${historyItem.exitCode})`;
+                    } else if (historyItem.signal) {
+                        tooltipText += ` (signal ${historyItem.signal})`;
+                    }
+                    if (historyItem.error) {
+                        tooltipText += `\nError: ${historyItem.error}`;
+                    }
+                    if (historyItem.attempts && historyItem.attempts > 1) {
+                        tooltipText += `\nAttempts: ${historyItem.attempts}`;
+                    }
+                    if (historyItem.startTime) {
+                        tooltipText += `\nStarted: ${new Date(historyItem.startTime).toLocaleString()}`;
+                    }
+                    if (duration) {
+                        tooltipText += `\nDuration: ${duration}`;
+                    }
+                }
+                if (historyItem.logFile) {
+                    item.logFile = historyItem.logFile;
+                    tooltipText += `\n\nRight-click → Open Run Output to view the saved log`;
                 }
+                item.tooltip = tooltipText;
                 
                 return item;
             })
@@ -326,28 +810,60 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
     }
 
     /**
-     * Add command to history
+     * Record a finished job in history
+     * Jobs stopped before they started are not recorded
+     */
+    private recordJob(job: Job): void {
+        if (!job.startTime) {
+            return;
+        }
+
+        this.addToHistory({
+            command: job.command,
+            cwd: job.cwd,
+            timestamp: job.endTime,
+            alias: job.label !== job.command ? job.label : undefined,
+            mode: job.options.mode,
+            target: job.target,
+            profile: job.options.profile,
+            status: job.status,
+            exitCode: job.result?.exitCode,
+            signal: job.result?.signal,
+            error: job.result?.error,
+            timedOut: job.timedOut || undefined,
+            attempts: job.attempt,
+            startTime: job.startTime,
+            endTime: job.endTime,
+            logFile: job.logFile,
+            options: job.options.executeOptions
+        });
+    }
+
+    /**
+     * Add run to history
      */
-    addToHistory(command: string, cwd?: string): void {
+    addToHistory(historyItem: HistoryItem): void {
         // Remove if same command and path combination already exists
         const index = this.commandHistory.findIndex(
-            item => item.command === command && item.cwd === cwd
+            item => item.command === historyItem.command && item.cwd === historyItem.cwd
         );
         if (index > -1) {
+            this.deleteLog(this.commandHistory[index]);
             this.commandHistory.splice(index, 1);
         }
 
         // Add to end
-        const historyItem: HistoryItem = {
-            command,
-            cwd,
-            timestamp: Date.now()
-        };
-        this.commandHistory.push(historyItem);
+        this.commandHistory.push({
+            ...historyItem,
+            timestamp: historyItem.timestamp ?? Date.now()
+        });
 
         // Limit history size
         if (this.commandHistory.length > this.maxHistorySize) {
-            this.commandHistory.shift();
+            const removed = this.commandHistory.shift();
+            if (removed) {
+                this.deleteLog(removed);
+            }
         }
 
         // Save persistently
@@ -356,10 +872,22 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
         this.refresh();
     }
 
+    /**
+     * Delete the saved log of a history entry that is no longer referenced
+     */
+    private deleteLog(historyItem: HistoryItem): void {
+        if (historyItem.logFile) {
+            fs.unlink(historyItem.logFile, () => {
+                // Ignore errors, the log may already be gone
+            });
+        }
+    }
+
     /**
      * Clear history
      */
     clearHistory(): void {
+        this.commandHistory.forEach(item => this.deleteLog(item));
         this.commandHistory = [];
         
         // Save persistently
@@ -375,3 +903,56 @@ export class CommandTreeProvider implements vscode.TreeDataProvider<CommandTreeI
         return [...this.commandHistory];
     }
 }
+
+/**
+ * Get icon for a pipeline or step status
+ */
+function getStepStatusIcon(status: StepStatus): vscode.ThemeIcon {
+    switch (status) {
+        case StepStatus.RUNNING:
+            return new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.blue'));
+        case StepStatus.SUCCEEDED:
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        case StepStatus.FAILED:
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        case StepStatus.SKIPPED:
+            return new vscode.ThemeIcon('debug-step-over', new vscode.ThemeColor('charts.gray'));
+        case StepStatus.STOPPED:
+            return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('charts.gray'));
+        default:
+            return new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('charts.gray'));
+    }
+}
+
+/**
+ * Get icon for a recorded run status
+ */
+function getHistoryStatusIcon(status: JobStatus): vscode.ThemeIcon {
+    switch (status) {
+        case JobStatus.SUCCEEDED:
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        case JobStatus.FAILED:
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        case JobStatus.STOPPED:
+            return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('charts.gray'));
+        default:
+            return new vscode.ThemeIcon('record', new vscode.ThemeColor('charts.gray'));
+    }
+}
+
+/**
+ * Format milliseconds as a short duration, e.g. "1m 05s"
+ */
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    if (hours > 0) {
+        return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+    }
+    if (minutes > 0) {
+        return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+    }
+    return `${seconds}s`;
+}
@@ -0,0 +1,348 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import { CompileCommand, streamCompileCommands } from './compileCommandsRewriter';
+
+/**
+ * Groups of compiler flags compared between two databases
+ */
+export type FlagCategory = 'defines' | 'includes' | 'standard' | 'other';
+
+export const FLAG_CATEGORY_LABELS: Record<FlagCategory, string> = {
+    defines: 'defines',
+    includes: 'include paths',
+    standard: 'standard',
+    other: 'other flags'
+};
+
+/**
+ * Flags of one translation unit, split by category
+ */
+export interface CompileFlags {
+    compiler: string;
+    defines: string[];  // -D / -U, in command line order
+    includes: string[];  // -I, -isystem, -iquote, -idirafter, -include, --sysroot...
+    standard: string[];  // -std=
+    other: string[];  // Everything else except the source file and -o
+}
+
+/**
+ * Translation unit whose flags differ from the previous database
+ */
+export interface ChangedFile {
+    file: string;
+    categories: FlagCategory[];
+}
+
+/**
+ * Differences between a database and the previous snapshot of the same database
+ */
+export interface CompileCommandsDiff {
+    added: string[];
+    removed: string[];
+    changed: ChangedFile[];
+    unchanged: number;
+    categories: Record<FlagCategory, number>;  // Number of changed files per category
+}
+
+/**
+ * One recorded regeneration of a database
+ */
+export interface CompileCommandsSnapshot {
+    id: string;
+    databasePath: string;
+    timestamp: number;
+    entries: number;
+    previousId?: string;  // Snapshot the diff was computed against
+    diff?: CompileCommandsDiff;  // Not set for the first snapshot of a database
+}
+
+// Flags followed by a path, either joined (-I/path) or as the next argument (-I /path)
+const INCLUDE_FLAGS = ['-isystem', '-iquote', '-idirafter', '-include', '-imacros', '-isysroot', '--sysroot', '-I', '-F'];
+const DEFINE_FLAGS = ['-D', '-U'];
+
+// Per-file signature stored with a snapshot: one hash per category
+type Signature = Record<FlagCategory, string>;
+
+const CATEGORIES: FlagCategory[] = ['defines', 'includes', 'standard', 'other'];
+
+/**
+ * Split a shell command line into arguments (quotes and backslash escapes)
+ */
+export function splitCommandLine(command: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let quote: '"' | '\'' | undefined;
+    let pending = false;
+
+    for (let i = 0; i < command.length; i++) {
+        const c = command[i];
+        if (quote) {
+            if (c === quote) {
+                quote = undefined;
+            } else if (c === '\\' && quote === '"' && i + 1 < command.length) {
+                current += command[++i];
+            } else {
+                current += c;
+            }
+        } else if (c === '"' || c === '\'') {
+            quote = c;
+            pending = true;
+        } else if (c === '\\' && i + 1 < command.length) {
+            current += command[++i];
+            pending = true;
+        } else if (/\s/.test(c)) {
+            if (pending) {
+                args.push(current);
+                current = '';
+                pending = false;
+            }
+        } else {
+            current += c;
+            pending = true;
+        }
+    }
+    if (pending) {
+        args.push(current);
+    }
+    return args;
+}
+
+/**
+ * Split the command of an entry into flag categories
+ */
+export function parseCompileFlags(entry: CompileCommand): CompileFlags {
+    const args = Array.isArray(entry.arguments)
+        ? entry.arguments.filter((arg): arg is string => typeof arg === 'string')
+        : splitCommandLine(entry.command || '');
+    const flags: CompileFlags = { compiler: args[0] || '', defines: [], includes: [], standard: [], other: [] };
+    const sourceFile = entry.file ? path.resolve(entry.directory || '', entry.file) : '';
+
+    for (let i = 1; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '-o') {
+            i++;
+            continue;
+        }
+        if (!arg.startsWith('-') && path.resolve(entry.directory || '', arg) === sourceFile) {
+            continue;
+        }
+
+        const define = DEFINE_FLAGS.find(flag => arg.startsWith(flag));
+        if (define) {
+            flags.defines.push(arg === define && i + 1 < args.length ? `${define}${args[++i]}` : arg);
+            continue;
+        }
+        const include = INCLUDE_FLAGS.find(flag => arg.startsWith(flag));
+        if (include) {
+            flags.includes.push(arg === include && i + 1 < args.length ? `${include} ${args[++i]}` : arg);
+            continue;
+        }
+        if (arg.startsWith('-std=') || arg.startsWith('--std=') || arg.startsWith('/std:')) {
+            flags.standard.push(arg);
+            continue;
+        }
+        flags.other.push(arg);
+    }
+    return flags;
+}
+
+/**
+ * Readable text of an entry for the side-by-side view (one flag per line, grouped by category)
+ */
+export function formatCompileFlags(entry: CompileCommand | undefined): string {
+    if (!entry) {
+        return '# Not in this database\n';
+    }
+    const flags = parseCompileFlags(entry);
+    const lines = [
+        `# File:      ${entry.file}`,
+        `# Directory: ${entry.directory}`,
+        `# Compiler:  ${flags.compiler}`
+    ];
+    CATEGORIES.forEach(category => {
+        lines.push('', `# ${FLAG_CATEGORY_LABELS[category]} (${flags[category].length})`, ...flags[category]);
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Keeps snapshots of compile_commands.json after each regeneration and diffs them
+ *
+ * Each snapshot is a directory <storage>/<database hash>/<id> with the gzipped database,
+ * a small per-file flag signature (used for the next diff) and a summary with the diff
+ */
+export class CompileCommandsHistory {
+    /**
+     * @param storageDir Directory for snapshots
+     * @param limit Snapshots kept per database (older ones are deleted)
+     */
+    constructor(private storageDir: string, private limit: number = 10) {}
+
+    /**
+     * Snapshot a database and diff it against its previous snapshot
+     */
+    async record(databasePath: string): Promise<CompileCommandsSnapshot> {
+        const databaseDir = this.getDatabaseDir(databasePath);
+        const previous = this.list(databasePath)[0];
+        const timestamp = Date.now();
+        const id = String(timestamp);
+        const snapshotDir = path.join(databaseDir, id);
+        fs.mkdirSync(snapshotDir, { recursive: true });
+
+        try {
+            const signatures: Record<string, Signature> = {};
+            const entries = await streamCompileCommands(databasePath, entry => {
+                signatures[CompileCommandsHistory.getKey(entry)] = CompileCommandsHistory.sign(entry);
+            });
+            await pipeline(
+                fs.createReadStream(databasePath),
+                zlib.createGzip(),
+                fs.createWriteStream(path.join(snapshotDir, 'database.json.gz'))
+            );
+            fs.writeFileSync(path.join(snapshotDir, 'signatures.json'), JSON.stringify(signatures));
+
+            const snapshot: CompileCommandsSnapshot = { id, databasePath, timestamp, entries };
+            const previousSignatures = previous && this.readSignatures(previous);
+            if (previous && previousSignatures) {
+                snapshot.previousId = previous.id;
+                snapshot.diff = CompileCommandsHistory.diff(previousSignatures, signatures);
+            }
+            fs.writeFileSync(path.join(snapshotDir, 'summary.json'), JSON.stringify(snapshot, null, 2));
+
+            this.prune(databasePath);
+            return snapshot;
+        } catch (error) {
+            fs.rmSync(snapshotDir, { recursive: true, force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Snapshots, newest first
+     * @param databasePath Only snapshots of this database (all databases if omitted)
+     */
+    list(databasePath?: string): CompileCommandsSnapshot[] {
+        const databaseDirs = databasePath
+            ? [this.getDatabaseDir(databasePath)]
+            : this.readDir(this.storageDir).map(name => path.join(this.storageDir, name));
+
+        const snapshots: CompileCommandsSnapshot[] = [];
+        databaseDirs.forEach(dir => {
+            this.readDir(dir).forEach(id => {
+                try {
+                    snapshots.push(JSON.parse(fs.readFileSync(path.join(dir, id, 'summary.json'), 'utf8')));
+                } catch {
+                    // Incomplete snapshot
+                }
+            });
+        });
+        return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Get a snapshot by id
+     */
+    get(databasePath: string, id: string): CompileCommandsSnapshot | undefined {
+        return this.list(databasePath).find(snapshot => snapshot.id === id);
+    }
+
+    /**
+     * Read the entry of a file from a snapshot
+     * @param file Absolute path of the source file
+     */
+    async readEntry(snapshot: CompileCommandsSnapshot, file: string): Promise<CompileCommand | undefined> {
+        let found: CompileCommand | undefined;
+        const gzipPath = path.join(this.getSnapshotDir(snapshot), 'database.json.gz');
+        await streamCompileCommands(fs.createReadStream(gzipPath).pipe(zlib.createGunzip()), entry => {
+            if (!found && CompileCommandsHistory.getKey(entry) === file) {
+                found = entry;
+            }
+        });
+        return found;
+    }
+
+    /**
+     * Directory of a snapshot (also used for files shown in the diff view)
+     */
+    getSnapshotDir(snapshot: CompileCommandsSnapshot): string {
+        return path.join(this.getDatabaseDir(snapshot.databasePath), snapshot.id);
+    }
+
+    /**
+     * Key of an entry: absolute path of its source file
+     */
+    static getKey(entry: CompileCommand): string {
+        return path.resolve(entry.directory || '', entry.file || '');
+    }
+
+    private static sign(entry: CompileCommand): Signature {
+        const flags = parseCompileFlags(entry);
+        const signature = {} as Signature;
+        CATEGORIES.forEach(category => {
+            const values = category === 'other' ? [flags.compiler, ...flags.other] : flags[category];
+            signature[category] = crypto.createHash('sha1').update(values.join('\0')).digest('hex').substring(0, 16);
+        });
+        return signature;
+    }
+
+    private static diff(previous: Record<string, Signature>, current: Record<string, Signature>): CompileCommandsDiff {
+        const diff: CompileCommandsDiff = {
+            added: [],
+            removed: [],
+            changed: [],
+            unchanged: 0,
+            categories: { defines: 0, includes: 0, standard: 0, other: 0 }
+        };
+
+        Object.keys(current).forEach(file => {
+            const before = previous[file];
+            if (!before) {
+                diff.added.push(file);
+                return;
+            }
+            const categories = CATEGORIES.filter(category => before[category] !== current[file][category]);
+            if (categories.length === 0) {
+                diff.unchanged++;
+                return;
+            }
+            categories.forEach(category => diff.categories[category]++);
+            diff.changed.push({ file, categories });
+        });
+        diff.removed = Object.keys(previous).filter(file => !current[file]);
+
+        diff.added.sort();
+        diff.removed.sort();
+        diff.changed.sort((a, b) => a.file.localeCompare(b.file));
+        return diff;
+    }
+
+    private readSignatures(snapshot: CompileCommandsSnapshot): Record<string, Signature> | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(path.join(this.getSnapshotDir(snapshot), 'signatures.json'), 'utf8'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    private prune(databasePath: string): void {
+        this.list(databasePath).slice(Math.max(this.limit, 1)).forEach(snapshot => {
+            fs.rmSync(this.getSnapshotDir(snapshot), { recursive: true, force: true });
+        });
+    }
+
+    private getDatabaseDir(databasePath: string): string {
+        const hash = crypto.createHash('sha1').update(path.resolve(databasePath)).digest('hex').substring(0, 12);
+        return path.join(this.storageDir, hash);
+    }
+
+    private readDir(dir: string): string[] {
+        try {
+            return fs.readdirSync(dir);
+        } catch {
+            return [];
+        }
+    }
+}
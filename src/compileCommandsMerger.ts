@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompileCommandsRewriter, CompileCommandsWriter, RewriteResult, streamCompileCommands } from './compileCommandsRewriter';
+import { PathMapper } from './pathMapper';
+
+/**
+ * Which database wins when several contain the same file
+ *   order:  the module listed first
+ *   newest: the most recently generated database
+ */
+export type MergePrecedence = 'order' | 'newest';
+
+/**
+ * One input database of a merge
+ */
+export interface MergeSource {
+    module: string;
+    filePath: string;
+    mtime: number;
+    entries: number;  // Entries read
+    used: number;  // Entries written to the merged database
+}
+
+/**
+ * Outcome of a merge
+ */
+export interface MergeResult {
+    outputPath: string;
+    entries: number;
+    duplicates: number;  // Entries dropped because another database already provided the file
+    sources: MergeSource[];
+    missing: string[];  // Configured modules without a compile_commands.json
+    durationMs: number;
+}
+
+/**
+ * Merges the compile_commands.json of several module directories into one database
+ * Databases are streamed one after another in precedence order; only the set of files already
+ * written is kept in memory
+ */
+export class CompileCommandsMerger {
+    constructor(private workspaceRoot: string) {}
+
+    /**
+     * Module directories to merge (relative to the workspace root)
+     * An empty list disables merging
+     */
+    static getModules(): string[] {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        return config.get<string[]>('compileCommandsModules', []).filter(m => m && m.trim());
+    }
+
+    /**
+     * Absolute path of the merged database
+     */
+    getOutputPath(): string {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const output = config.get<string>('compileCommandsMergeOutput', '') || 'compile_commands.json';
+        return path.resolve(this.workspaceRoot, output);
+    }
+
+    /**
+     * Merge the configured module databases
+     * @param pathMapper Container paths still found in a module database are mapped with it (optional)
+     * @throws Error if a database cannot be read or the result fails validation (the previous merge is kept)
+     */
+    async merge(pathMapper?: PathMapper): Promise<MergeResult> {
+        const startTime = Date.now();
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const precedence = config.get<MergePrecedence>('compileCommandsMergePrecedence', 'order');
+        const outputPath = this.getOutputPath();
+
+        const sources: MergeSource[] = [];
+        const missing: string[] = [];
+        for (const module of CompileCommandsMerger.getModules()) {
+            const filePath = path.resolve(this.workspaceRoot, module.trim(), 'compile_commands.json');
+            // The merged database is never an input of itself
+            if (filePath === outputPath) {
+                continue;
+            }
+            if (!fs.existsSync(filePath)) {
+                missing.push(module);
+                continue;
+            }
+            sources.push({ module, filePath, mtime: fs.statSync(filePath).mtimeMs, entries: 0, used: 0 });
+        }
+
+        if (precedence === 'newest') {
+            // Stable sort keeps module order for databases generated at the same time
+            sources.sort((a, b) => b.mtime - a.mtime);
+        }
+
+        const rewriter = pathMapper ? new CompileCommandsRewriter(pathMapper) : undefined;
+        const fields: RewriteResult['fields'] = { directory: 0, file: 0, output: 0, command: 0, arguments: 0 };
+        const seen = new Set<string>();
+        let duplicates = 0;
+
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        const writer = new CompileCommandsWriter(`${outputPath}.tmp-${process.pid}`);
+        try {
+            for (const source of sources) {
+                source.entries = await streamCompileCommands(source.filePath, async entry => {
+                    rewriter?.rewriteEntry(entry, fields);
+                    const key = path.resolve(entry.directory || '', entry.file || '');
+                    if (seen.has(key)) {
+                        duplicates++;
+                        return;
+                    }
+                    seen.add(key);
+                    source.used++;
+                    await writer.write(entry);
+                });
+            }
+            await writer.close();
+        } catch (error) {
+            writer.abort();
+            throw error;
+        }
+
+        await writer.validate(writer.entries);
+        fs.renameSync(writer.filePath, outputPath);
+
+        return {
+            outputPath,
+            entries: writer.entries,
+            duplicates,
+            sources,
+            missing,
+            durationMs: Date.now() - startTime
+        };
+    }
+}
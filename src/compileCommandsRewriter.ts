@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { PathMapper } from './pathMapper';
+
+/**
+ * One entry of a compilation database (compile_commands.json)
+ */
+export interface CompileCommand {
+    directory: string;
+    file: string;
+    command?: string;
+    arguments?: string[];
+    output?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Outcome of rewriting a compilation database
+ */
+export interface RewriteResult {
+    entries: number;
+    replacements: number;  // Total number of rewritten paths
+    fields: Record<'directory' | 'file' | 'output' | 'command' | 'arguments', number>;
+    backupPath?: string;  // Set when the file was changed
+    durationMs: number;
+}
+
+// An absolute path starting at a token boundary: start, whitespace, quote, =, @, comma, colon,
+// or directly after a short/long flag name (-I/path, -isystem/path, --sysroot/path)
+const EMBEDDED_PATH_PATTERN = /(^|[\s"'=@,:]|(?:^|[\s"'])-{1,2}[A-Za-z][\w-]*?)(\/[^\s"',:]*)/g;
+
+/**
+ * Incremental parser for a top-level JSON array of objects
+ * Only the entry currently being read is kept in memory, so databases of any size can be streamed
+ */
+export class CompileCommandsParser {
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private inEntry = false;
+    private finished = false;
+    // Text of the current entry from previous chunks
+    private parts: string[] = [];
+
+    /**
+     * Feed the next chunk of the file
+     * @returns Entries completed by this chunk
+     * @throws Error if the text is not an array of objects
+     */
+    push(chunk: string): CompileCommand[] {
+        const entries: CompileCommand[] = [];
+        let entryStart = this.inEntry ? 0 : -1;
+
+        for (let i = 0; i < chunk.length; i++) {
+            const c = chunk[i];
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (c === '\\') {
+                    this.escaped = true;
+                } else if (c === '"') {
+                    this.inString = false;
+                }
+                continue;
+            }
+
+            if (c === ' ' || c === '\n' || c === '\r' || c === '\t') {
+                continue;
+            }
+
+            if (this.finished) {
+                throw new Error(`Unexpected '${c}' after the end of the database`);
+            }
+
+            if (this.depth === 0) {
+                if (c !== '[') {
+                    throw new Error(`Expected '[' at the start of the database, found '${c}'`);
+                }
+                this.depth = 1;
+                continue;
+            }
+
+            if (this.depth === 1 && !this.inEntry) {
+                if (c === ',') {
+                    continue;
+                }
+                if (c === ']') {
+                    this.depth = 0;
+                    this.finished = true;
+                    continue;
+                }
+                if (c !== '{') {
+                    throw new Error(`Expected an entry object, found '${c}'`);
+                }
+                this.inEntry = true;
+                entryStart = i;
+                this.depth++;
+                continue;
+            }
+
+            if (c === '"') {
+                this.inString = true;
+            } else if (c === '{' || c === '[') {
+                this.depth++;
+            } else if (c === '}' || c === ']') {
+                this.depth--;
+                if (this.depth === 1) {
+                    const text = this.parts.join('') + chunk.substring(entryStart, i + 1);
+                    this.parts = [];
+                    this.inEntry = false;
+                    entryStart = -1;
+                    entries.push(JSON.parse(text) as CompileCommand);
+                }
+            }
+        }
+
+        if (this.inEntry) {
+            this.parts.push(chunk.substring(entryStart));
+        }
+        return entries;
+    }
+
+    /**
+     * Signal the end of the file
+     * @throws Error if the array was not closed
+     */
+    end(): void {
+        if (!this.finished) {
+            throw new Error('Unexpected end of file: the database is truncated');
+        }
+    }
+}
+
+/**
+ * Stream the entries of a compilation database
+ * @param source Path of the database, or a readable stream of its text (e.g. a gunzip stream)
+ * @param onEntry Called for every entry in file order; may return a promise to apply backpressure
+ * @returns Number of entries
+ */
+export async function streamCompileCommands(
+    source: string | Readable,
+    onEntry: (entry: CompileCommand) => void | Promise<void>
+): Promise<number> {
+    const parser = new CompileCommandsParser();
+    let count = 0;
+    const stream = typeof source === 'string'
+        ? fs.createReadStream(source, { encoding: 'utf8', highWaterMark: 1024 * 1024 })
+        : source.setEncoding('utf8');
+    for await (const chunk of stream) {
+        for (const entry of parser.push(chunk as string)) {
+            count++;
+            await onEntry(entry);
+        }
+    }
+    parser.end();
+    return count;
+}
+
+/**
+ * Map absolute paths embedded in a command line or argument (e.g. -I/sandbox/include)
+ * Only whole path components are mapped, so -I/sandbox_old stays untouched
+ * @returns Rewritten text and number of mapped paths
+ */
+export function rewriteEmbeddedPaths(text: string, pathMapper: PathMapper): { text: string; count: number } {
+    let count = 0;
+    const rewritten = text.replace(EMBEDDED_PATH_PATTERN, (match: string, prefix: string, p: string) => {
+        const mapped = pathMapper.toHost(p);
+        if (mapped === p) {
+            return match;
+        }
+        count++;
+        return prefix + mapped;
+    });
+    return { text: rewritten, count };
+}
+
+/**
+ * Streams entries into a new database file
+ * Used with a temporary path that replaces the target only once the result is validated
+ */
+export class CompileCommandsWriter {
+    private out: fs.WriteStream;
+    private writeError: Error | undefined;
+    private count = 0;
+
+    constructor(public readonly filePath: string) {
+        this.out = fs.createWriteStream(filePath, { encoding: 'utf8' });
+        this.out.on('error', error => {
+            this.writeError = error;
+        });
+    }
+
+    /**
+     * Number of entries written so far
+     */
+    get entries(): number {
+        return this.count;
+    }
+
+    /**
+     * Append an entry, waiting only when the stream buffer is full
+     */
+    async write(entry: CompileCommand): Promise<void> {
+        const json = JSON.stringify(entry, null, 2).replace(/\n/g, '\n  ');
+        await this.writeText(`${this.count === 0 ? '[' : ','}\n  ${json}`);
+        this.count++;
+    }
+
+    /**
+     * Close the array and flush the file
+     */
+    async close(): Promise<void> {
+        await this.writeText(this.count === 0 ? '[]\n' : '\n]\n');
+        await new Promise<void>((resolve, reject) => {
+            this.out.once('error', reject);
+            this.out.end(resolve);
+        });
+    }
+
+    /**
+     * Stop writing and delete the file
+     */
+    abort(): void {
+        this.out.destroy();
+        fs.rmSync(this.filePath, { force: true });
+    }
+
+    /**
+     * Re-read the closed file and check it holds the expected number of entries
+     * @throws Error (and deletes the file) if the file is invalid
+     */
+    async validate(expectedEntries: number): Promise<void> {
+        try {
+            const written = await streamCompileCommands(this.filePath, () => undefined);
+            if (written !== expectedEntries) {
+                throw new Error(`validation failed: ${written} of ${expectedEntries} entries written`);
+            }
+        } catch (error) {
+            fs.rmSync(this.filePath, { force: true });
+            throw error;
+        }
+    }
+
+    private async writeText(text: string): Promise<void> {
+        if (this.writeError) {
+            throw this.writeError;
+        }
+        if (!this.out.write(text)) {
+            await new Promise<void>(resolve => this.out.once('drain', resolve));
+        }
+    }
+}
+
+/**
+ * Rewrites container paths in compile_commands.json to host paths
+ *
+ * Only directory, file, output, command and arguments are touched. The database is streamed
+ * into a temporary file which is validated before it atomically replaces the original; the
+ * original is kept as compile_commands.json.bak
+ */
+export class CompileCommandsRewriter {
+    constructor(private pathMapper: PathMapper) {}
+
+    /**
+     * Rewrite an entry in place
+     * @param fields Per-field counters, incremented for every mapped path
+     * @returns Number of mapped paths in this entry
+     */
+    rewriteEntry(entry: CompileCommand, fields: RewriteResult['fields']): number {
+        let total = 0;
+
+        for (const key of ['directory', 'file', 'output'] as const) {
+            const value = entry[key];
+            if (typeof value === 'string') {
+                const mapped = this.pathMapper.toHost(value);
+                if (mapped !== value) {
+                    entry[key] = mapped;
+                    fields[key]++;
+                    total++;
+                }
+            }
+        }
+
+        if (typeof entry.command === 'string') {
+            const result = rewriteEmbeddedPaths(entry.command, this.pathMapper);
+            entry.command = result.text;
+            fields.command += result.count;
+            total += result.count;
+        }
+
+        if (Array.isArray(entry.arguments)) {
+            entry.arguments = entry.arguments.map(argument => {
+                if (typeof argument !== 'string') {
+                    return argument;
+                }
+                const result = rewriteEmbeddedPaths(argument, this.pathMapper);
+                fields.arguments += result.count;
+                total += result.count;
+                return result.text;
+            });
+        }
+
+        return total;
+    }
+
+    /**
+     * Rewrite a database file
+     * @throws Error if the file cannot be parsed or the result fails validation (the original is kept)
+     */
+    async rewrite(filePath: string): Promise<RewriteResult> {
+        const startTime = Date.now();
+        const tempPath = `${filePath}.tmp-${process.pid}`;
+        const backupPath = `${filePath}.bak`;
+        const fields: RewriteResult['fields'] = { directory: 0, file: 0, output: 0, command: 0, arguments: 0 };
+        let replacements = 0;
+
+        const writer = new CompileCommandsWriter(tempPath);
+        let entries: number;
+        try {
+            entries = await streamCompileCommands(filePath, async entry => {
+                replacements += this.rewriteEntry(entry, fields);
+                await writer.write(entry);
+            });
+            await writer.close();
+        } catch (error) {
+            writer.abort();
+            throw error;
+        }
+
+        if (replacements === 0) {
+            fs.rmSync(tempPath, { force: true });
+            return { entries, replacements, fields, durationMs: Date.now() - startTime };
+        }
+
+        // Validate the rewritten database before it replaces the original
+        try {
+            await writer.validate(entries);
+        } catch (error: any) {
+            throw new Error(`Rewritten database is invalid, original kept: ${error.message}`);
+        }
+
+        fs.copyFileSync(filePath, backupPath);
+        fs.renameSync(tempPath, filePath);
+        return { entries, replacements, fields, backupPath, durationMs: Date.now() - startTime };
+    }
+}
@@ -0,0 +1,299 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findSourceRoot } from './clangdConfig';
+import { CommandConfig } from './commandTreeProvider';
+import { CommandStore } from './commandStore';
+import { CompileCommandsHistory } from './compileCommandsHistory';
+import { streamCompileCommands } from './compileCommandsRewriter';
+import { VariableResolver } from './variableResolver';
+
+// Build inputs: a change after the database was generated means it may be missing or wrong flags
+const BUILD_INPUT_GLOB = '**/{CMakeLists.txt,*.cmake,package.sh}';
+// New sources: stale if not in the database
+// Headers are not listed in a database and are found through the include directories of the sources
+const SOURCE_GLOB = '**/*.{c,cc,cpp,cxx}';
+// Generated and third-party trees never make a database stale
+const IGNORED_GLOB = '**/{build,build-*,build_*,CMakeFiles,.git,node_modules,out}/**';
+const IGNORED_PATH = /(^|[\\/])(build|build[-_][^\\/]*|CMakeFiles|\.git|node_modules|out)[\\/]/;
+// Changed files listed in the tooltip
+const MAX_REASONS = 10;
+
+/**
+ * A database whose build inputs changed after it was generated
+ */
+export interface StaleDatabase {
+    databasePath: string;
+    regenerator: CommandConfig;  // Predefined command that regenerates the database
+    reasons: string[];  // Changed inputs, relative to the workspace root (the first MAX_REASONS)
+    count: number;  // Total number of changed inputs
+}
+
+/**
+ * A database tracked for staleness
+ */
+interface TrackedDatabase {
+    databasePath: string;
+    sourceRoot: string;  // Inputs below this directory belong to the database
+    regenerator: CommandConfig;
+}
+
+/**
+ * Detects compile_commands.json files that are out of date and shows them in the status bar
+ *
+ * Tracked databases are those in the cwd of predefined commands marked with regeneratesCompileCommands.
+ * A database is stale when it is missing, when a build input (CMakeLists.txt, *.cmake, package.sh) below
+ * its source root changed after the database, or when a source file was created that the database
+ * does not contain. The source root is the database directory, or its nearest parent with a
+ * CMakeLists.txt or package.sh (out-of-source build directories)
+ */
+export class CompileCommandsStaleDetector implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private databases: TrackedDatabase[] = [];
+    private stale = new Map<string, StaleDatabase>();
+    // Source files of each database, loaded when a new source file needs to be checked
+    private entryCache = new Map<string, { mtime: number; files: Set<string> }>();
+    private watchers: vscode.Disposable[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private workspaceRoot: string) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.item.command = 'deeproute-compile-commands.regenerateCompileCommands';
+        this.disposables.push(
+            this.item,
+            CommandStore.onDidChange(() => this.start()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('deeproute-compile-commands.detectStaleCompileCommands')) {
+                    this.start();
+                }
+            })
+        );
+        this.start();
+    }
+
+    /**
+     * Stale databases, in configuration order
+     */
+    getStaleDatabases(): StaleDatabase[] {
+        return this.databases
+            .map(database => this.stale.get(database.databasePath))
+            .filter((stale): stale is StaleDatabase => !!stale);
+    }
+
+    /**
+     * Track the databases of the current regenerator commands and scan for changes since they were generated
+     */
+    private start(): void {
+        this.watchers.forEach(d => d.dispose());
+        this.watchers = [];
+        this.stale.clear();
+        this.entryCache.clear();
+        this.databases = [];
+
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        if (config.get<boolean>('detectStaleCompileCommands', true)) {
+            this.databases = this.getTrackedDatabases();
+        }
+        if (this.databases.length === 0) {
+            this.update();
+            return;
+        }
+
+        const buildInputs = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.workspaceRoot, BUILD_INPUT_GLOB));
+        buildInputs.onDidChange(uri => this.onInputChanged(uri.fsPath));
+        buildInputs.onDidCreate(uri => this.onInputChanged(uri.fsPath));
+        buildInputs.onDidDelete(uri => this.onInputChanged(uri.fsPath, true));
+
+        // Only creation matters for sources: edits never change the database
+        const sources = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.workspaceRoot, SOURCE_GLOB), false, true, true);
+        sources.onDidCreate(uri => {
+            this.onSourceCreated(uri.fsPath).catch(error => {
+                vscode.window.showWarningMessage(`⚠️ Failed to check ${uri.fsPath} against compile_commands.json: ${error.message || error}`);
+            });
+        });
+
+        this.watchers.push(buildInputs, sources);
+        this.databases.forEach(database => {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(path.dirname(database.databasePath), 'compile_commands.json')
+            );
+            watcher.onDidCreate(() => this.onDatabaseChanged(database));
+            watcher.onDidChange(() => this.onDatabaseChanged(database));
+            watcher.onDidDelete(() => this.onDatabaseChanged(database));
+            this.watchers.push(watcher);
+        });
+
+        this.databases.forEach(database => this.scanInBackground(database));
+        this.update();
+    }
+
+    /**
+     * Databases in the cwd of regenerator commands
+     * A cwd with placeholders other than ${workspaceFolder} cannot be resolved without prompting and is skipped
+     */
+    private getTrackedDatabases(): TrackedDatabase[] {
+        const commands = CommandStore.getCommands().map(stored => stored.config);
+        const databases: TrackedDatabase[] = [];
+
+        commands.forEach(cmd => {
+            if (!cmd.regeneratesCompileCommands) {
+                return;
+            }
+            const cwd = (cmd.cwd || '').trim().replace(/\$\{workspaceFolder\}/g, this.workspaceRoot);
+            if (VariableResolver.hasVariables(cwd)) {
+                return;
+            }
+            const databasePath = path.join(path.resolve(this.workspaceRoot, cwd), 'compile_commands.json');
+            if (databases.some(database => database.databasePath === databasePath)) {
+                return;
+            }
+            databases.push({ databasePath, sourceRoot: findSourceRoot(path.dirname(databasePath), this.workspaceRoot), regenerator: cmd });
+        });
+        return databases;
+    }
+
+    /**
+     * Look for build inputs changed since the database was generated (on start and after a regeneration)
+     */
+    private async scan(database: TrackedDatabase): Promise<void> {
+        const databaseMtime = this.getMtime(database.databasePath);
+        if (databaseMtime === undefined) {
+            this.markStale(database, 'compile_commands.json is missing');
+            this.update();
+            return;
+        }
+
+        const files = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(database.sourceRoot, BUILD_INPUT_GLOB),
+            IGNORED_GLOB,
+            5000
+        );
+        files.forEach(uri => {
+            const mtime = this.getMtime(uri.fsPath);
+            if (mtime !== undefined && mtime > databaseMtime) {
+                this.markStale(database, path.relative(this.workspaceRoot, uri.fsPath));
+            }
+        });
+        this.update();
+    }
+
+    private onInputChanged(filePath: string, deleted = false): void {
+        if (IGNORED_PATH.test(path.relative(this.workspaceRoot, filePath))) {
+            return;
+        }
+        this.databases
+            .filter(database => this.isBelow(filePath, database.sourceRoot))
+            .forEach(database => {
+                const databaseMtime = this.getMtime(database.databasePath);
+                const mtime = deleted ? Date.now() : this.getMtime(filePath);
+                if (databaseMtime === undefined || (mtime !== undefined && mtime > databaseMtime)) {
+                    this.markStale(database, `${path.relative(this.workspaceRoot, filePath)}${deleted ? ' (deleted)' : ''}`);
+                }
+            });
+        this.update();
+    }
+
+    private async onSourceCreated(filePath: string): Promise<void> {
+        if (IGNORED_PATH.test(path.relative(this.workspaceRoot, filePath))) {
+            return;
+        }
+        for (const database of this.databases.filter(d => this.isBelow(filePath, d.sourceRoot))) {
+            if ((await this.getDatabaseFiles(database.databasePath)).has(filePath)) {
+                continue;
+            }
+            this.markStale(database, `${path.relative(this.workspaceRoot, filePath)} (new)`);
+        }
+        this.update();
+    }
+
+    private onDatabaseChanged(database: TrackedDatabase): void {
+        this.stale.delete(database.databasePath);
+        this.entryCache.delete(database.databasePath);
+        this.scanInBackground(database);
+    }
+
+    /**
+     * Scan without waiting, reporting a failed scan as a warning
+     */
+    private scanInBackground(database: TrackedDatabase): void {
+        this.scan(database).catch(error => {
+            vscode.window.showWarningMessage(`⚠️ Failed to scan the build inputs of ${database.databasePath}: ${error.message || error}`);
+        });
+    }
+
+    /**
+     * Source files listed in a database (cached until the database changes)
+     */
+    private async getDatabaseFiles(databasePath: string): Promise<Set<string>> {
+        const mtime = this.getMtime(databasePath);
+        const cached = this.entryCache.get(databasePath);
+        if (cached && cached.mtime === mtime) {
+            return cached.files;
+        }
+
+        const files = new Set<string>();
+        try {
+            await streamCompileCommands(databasePath, entry => {
+                files.add(CompileCommandsHistory.getKey(entry));
+            });
+        } catch {
+            // Missing or invalid database: every source is new
+        }
+        this.entryCache.set(databasePath, { mtime: mtime || 0, files });
+        return files;
+    }
+
+    private markStale(database: TrackedDatabase, reason: string): void {
+        const stale = this.stale.get(database.databasePath)
+            || { databasePath: database.databasePath, regenerator: database.regenerator, reasons: [], count: 0 };
+        if (stale.reasons.includes(reason)) {
+            return;
+        }
+        stale.count++;
+        if (stale.reasons.length < MAX_REASONS) {
+            stale.reasons.push(reason);
+        }
+        this.stale.set(database.databasePath, stale);
+    }
+
+    private update(): void {
+        const staleDatabases = this.getStaleDatabases();
+        if (staleDatabases.length === 0) {
+            this.item.hide();
+            return;
+        }
+
+        const lines = ['compile_commands.json is stale', ''];
+        staleDatabases.forEach(stale => {
+            lines.push(`${path.relative(this.workspaceRoot, stale.databasePath)} — regenerate with "${stale.regenerator.alias || stale.regenerator.command}"`);
+            stale.reasons.forEach(reason => lines.push(`  • ${reason}`));
+            if (stale.count > stale.reasons.length) {
+                lines.push(`  • ... ${stale.count - stale.reasons.length} more`);
+            }
+        });
+        lines.push('', 'Click to regenerate');
+
+        this.item.text = '$(warning) Compile commands stale';
+        this.item.tooltip = lines.join('\n');
+        this.item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        this.item.show();
+    }
+
+    private getMtime(filePath: string): number | undefined {
+        try {
+            return fs.statSync(filePath).mtimeMs;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private isBelow(filePath: string, dir: string): boolean {
+        const relative = path.relative(dir, filePath);
+        return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    dispose(): void {
+        this.watchers.forEach(d => d.dispose());
+        this.disposables.forEach(d => d.dispose());
+    }
+}
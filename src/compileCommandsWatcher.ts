@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CompileCommandsMerger } from './compileCommandsMerger';
+
+/**
+ * Watches compile_commands.json locations and reports changes made outside of the extension
+ * (terminal, CI scripts, other tools)
+ *
+ * Changes are debounced per file, since build tools often write a database several times in a row.
+ * Writes of the extension itself are filtered by the callback (it knows the mtime it left behind)
+ */
+export class CompileCommandsWatcher implements vscode.Disposable {
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private timers = new Map<string, NodeJS.Timeout>();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * @param workspaceRoot Root the watched paths are relative to
+     * @param onChange Called with the absolute path of a changed database once it is quiet
+     */
+    constructor(
+        private workspaceRoot: string,
+        private onChange: (filePath: string) => Promise<void>
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('deeproute-compile-commands.watchCompileCommands') ||
+                    e.affectsConfiguration('deeproute-compile-commands.compileCommandsWatchPaths') ||
+                    e.affectsConfiguration('deeproute-compile-commands.compileCommandsModules')) {
+                    this.start();
+                }
+            })
+        );
+        this.start();
+    }
+
+    /**
+     * Glob patterns of watched databases (relative to the workspace root)
+     * Databases of merged modules are always watched
+     */
+    static getPatterns(): string[] {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const patterns = config.get<string[]>('compileCommandsWatchPaths', ['compile_commands.json'])
+            .filter(p => p && p.trim())
+            .map(p => p.trim());
+        CompileCommandsMerger.getModules().forEach(module => {
+            patterns.push(path.posix.join(module.trim().replace(/\\/g, '/'), 'compile_commands.json'));
+        });
+        return Array.from(new Set(patterns));
+    }
+
+    /**
+     * (Re)create the file system watchers from the current settings
+     */
+    private start(): void {
+        this.stop();
+
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        if (!config.get<boolean>('watchCompileCommands', false)) {
+            return;
+        }
+
+        CompileCommandsWatcher.getPatterns().forEach(pattern => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.workspaceRoot, pattern));
+            watcher.onDidCreate(uri => this.schedule(uri.fsPath));
+            watcher.onDidChange(uri => this.schedule(uri.fsPath));
+            this.watchers.push(watcher);
+        });
+    }
+
+    private stop(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    /**
+     * Report a change once the file has not changed for the configured delay
+     */
+    private schedule(filePath: string): void {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const delay = Math.max(config.get<number>('compileCommandsWatchDelay', 2000), 0);
+
+        const pending = this.timers.get(filePath);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.timers.set(filePath, setTimeout(() => {
+            this.timers.delete(filePath);
+            this.onChange(filePath).catch(error => {
+                vscode.window.showWarningMessage(`⚠️ Failed to update ${filePath}: ${error.message || error}`);
+            });
+        }, delay));
+    }
+
+    dispose(): void {
+        this.stop();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
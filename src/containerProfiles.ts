@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { PathMapping } from './pathMapper';
+import { SshConfig, SshConnection } from './sshConnection';
+
+/**
+ * Named container configuration a command can run in
+ * With ssh set, the command runs on a remote build host (inside container there, if set)
+ */
+export interface ContainerProfile {
+    name: string;
+    container?: string;  // Required unless ssh is set
+    user?: string;  // docker exec -u value (defaults to the host uid:gid)
+    pathMappings?: PathMapping[];  // Replaces the global pathMappings setting for this profile
+    env?: Record<string, string>;  // Passed to docker exec with -e (exported before the command over SSH)
+    ssh?: SshConfig;  // Remote build host
+}
+
+/**
+ * Short description of where a profile runs commands, e.g. "🌐 build-server → 🐳 dev-x86"
+ */
+export function describeProfileTarget(profile: ContainerProfile): string {
+    const parts: string[] = [];
+    if (profile.ssh) {
+        parts.push(`🌐 ${new SshConnection(profile.ssh).destination}`);
+    }
+    if (profile.container) {
+        parts.push(`🐳 ${profile.container}`);
+    }
+    return parts.join(' → ');
+}
+
+/**
+ * Reads container profiles from settings and resolves the profile a command runs in
+ *
+ * Without any configured profile, the legacy dockerContainerName setting acts as a single
+ * implicit profile so existing setups keep working
+ */
+export class ContainerProfiles {
+    /**
+     * Get configured profiles (or the implicit profile built from dockerContainerName)
+     */
+    static getProfiles(): ContainerProfile[] {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const profiles = config.get<ContainerProfile[]>('containerProfiles', [])
+            .filter(profile => profile && profile.name && (profile.container || (profile.ssh && profile.ssh.host)));
+        if (profiles.length > 0) {
+            return profiles;
+        }
+
+        const containerName = config.get<string>('dockerContainerName', 'deeproute-dev-x86-2004').trim();
+        return containerName ? [{ name: containerName, container: containerName }] : [];
+    }
+
+    /**
+     * Get the default profile: the one named by defaultProfile, otherwise the first profile
+     */
+    static getDefault(): ContainerProfile | undefined {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const defaultName = config.get<string>('defaultProfile', '');
+        const profiles = ContainerProfiles.getProfiles();
+        return profiles.find(profile => profile.name === defaultName) || profiles[0];
+    }
+
+    /**
+     * Resolve the profile a command runs in
+     * @param name Profile named by the command (the default profile is used if undefined)
+     * @returns undefined if no profile is configured at all
+     * @throws Error if the named profile does not exist
+     */
+    static resolve(name?: string): ContainerProfile | undefined {
+        if (!name) {
+            return ContainerProfiles.getDefault();
+        }
+
+        const profile = ContainerProfiles.getProfiles().find(p => p.name === name);
+        if (!profile) {
+            throw new Error(`Container profile "${name}" not found in "deeproute-compile-commands.containerProfiles"`);
+        }
+        return profile;
+    }
+
+    /**
+     * Let the user pick the default profile
+     */
+    static async selectDefault(): Promise<void> {
+        const profiles = ContainerProfiles.getProfiles();
+        if (profiles.length === 0) {
+            vscode.window.showInformationMessage('No container profiles configured');
+            return;
+        }
+
+        const current = ContainerProfiles.getDefault();
+        const selected = await vscode.window.showQuickPick(
+            profiles.map(profile => ({
+                label: profile.name,
+                description: profile.name === current?.name ? `${describeProfileTarget(profile)} (default)` : describeProfileTarget(profile),
+                profile
+            })),
+            { placeHolder: 'Select default container profile' }
+        );
+        if (!selected) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        await config.update('defaultProfile', selected.profile.name, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(`🐳 Default container profile: ${selected.profile.name} (${describeProfileTarget(selected.profile)})`);
+    }
+}
+
+/**
+ * Status bar item showing the default profile; click to switch
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.item.command = 'deeproute-compile-commands.selectProfile';
+        this.disposables.push(
+            this.item,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('deeproute-compile-commands')) {
+                    this.update();
+                }
+            })
+        );
+        this.update();
+    }
+
+    private update(): void {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const profile = ContainerProfiles.getDefault();
+        if (!profile || config.get<boolean>('executeLocally', false)) {
+            this.item.hide();
+            return;
+        }
+
+        this.item.text = `$(server-environment) ${profile.name}`;
+        this.item.tooltip = `Default container profile: ${profile.name}\nTarget: ${describeProfileTarget(profile)}\nClick to switch`;
+        this.item.show();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
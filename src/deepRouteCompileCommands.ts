@@ -4,57 +4,126 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { OutputManager } from './outputManager';
+import { ExecutionMode, Job, JobManager, JobResult, JobStatus, Presentation, RunPolicy, describeRunPolicy, toRunPolicy } from './jobManager';
+import { PathMapper } from './pathMapper';
+import { ContainerProfile, ContainerProfiles, describeProfileTarget } from './containerProfiles';
+import { PID_MARKER, SshConnection, parsePidMarker, shellQuote } from './sshConnection';
+import { RUN_ID_VARIABLE, containerProcesses, createRunId, localProcesses } from './processTree';
+import { toCommandLine, wrapInPty } from './jobTerminal';
+import { CompileCommandsRewriter } from './compileCommandsRewriter';
+import { CompileCommandsMerger } from './compileCommandsMerger';
+import { CompileCommandsHistory, FLAG_CATEGORY_LABELS, FlagCategory, formatCompileFlags } from './compileCommandsHistory';
+import { LanguageServerKind, LanguageServers } from './languageServers';
+import { ClangdConfig } from './clangdConfig';
+import { BuildProgressReporter } from './buildProgress';
+import { RunRecordStore } from './runRecordStore';
+import {
+    CommandEnvironment,
+    describeEnvironment,
+    maskEnvironment,
+    resolveCommandEnvironment,
+    writeDockerEnvFile
+} from './commandEnvironment';
+
+/**
+ * Per-run options of execute()
+ */
+export interface ExecuteOptions extends RunPolicy {
+    executeLocally?: boolean;  // Per-command switch to execute locally
+    label?: string;  // Display name of the job (defaults to the command)
+    profile?: string;  // Container profile to run in (defaults to the default profile)
+    presentation?: Presentation;  // Output channel or integrated terminal (defaults to the presentation setting)
+    env?: Record<string, string>;  // Per-command variables (override the env setting, the profile and envFile)
+    envFile?: string;  // Per-command .env file, relative to the workspace root
+    shell?: string;  // Per-command shell (overrides the shell setting)
+}
+
+/**
+ * How execute() would run a command, for previews in the command editor
+ */
+export interface InvocationPreview {
+    mode: ExecutionMode;
+    target: string;  // "Local", container name or remote host
+    profile?: string;
+    workDir?: string;  // Working directory on the host, in the container or on the remote host
+    workDirExists?: boolean;  // undefined if it could not be checked
+    checkError?: string;  // Why the working directory could not be checked
+    commandLine?: string;  // Full invocation
+    error?: string;  // Why the command cannot run at all
+}
+
+/**
+ * Interpret the result of a remote "test -d": exit code 1 without output means the directory is
+ * missing, anything else but 0 means the check itself failed (container stopped, ssh error, ...)
+ */
+function toDirectoryCheck(code: number | null, stderr: string, fallbackError: string): Pick<InvocationPreview, 'workDirExists' | 'checkError'> {
+    if (code === 0) {
+        return { workDirExists: true };
+    }
+    if (code === 1 && !stderr.trim()) {
+        return { workDirExists: false };
+    }
+    return { checkError: stderr.trim() || fallbackError };
+}
 
 export class DeepRouteCompileCommands {
-    private currentProcess: child_process.ChildProcess | undefined;
     private workspaceRoot: string;
     private outputManager: OutputManager;
+    private jobManager: JobManager;
+    private historyDir: string | undefined;
+    private runRecords: RunRecordStore | undefined;
+    // Updates of compile_commands.json run one at a time
+    private updateQueue: Promise<void> = Promise.resolve();
+    // mtime each database was left with by the last update, to ignore our own writes
+    private updatedMtimes = new Map<string, number>();
 
-    constructor(workspaceRoot: string, outputManager: OutputManager) {
+    /**
+     * @param historyDir Directory for compile_commands.json snapshots (optional, no history is kept if omitted)
+     * @param runRecords Durations of previous runs, for the ETA of running commands (optional)
+     */
+    constructor(
+        workspaceRoot: string,
+        outputManager: OutputManager,
+        jobManager: JobManager,
+        historyDir?: string,
+        runRecords?: RunRecordStore
+    ) {
         this.workspaceRoot = workspaceRoot;
         this.outputManager = outputManager;
+        this.jobManager = jobManager;
+        this.historyDir = historyDir;
+        this.runRecords = runRecords;
     }
 
     /**
      * Execute command in Docker container (non-interactive)
-     * @param containerName Docker container name
-     * @param command Command to execute
-     * @param cwd Working directory (relative to /sandbox in container)
-     */
-    private async executeInDocker(containerName: string, command: string, cwd?: string): Promise<void> {
-        // Stop current process if any
-        if (this.currentProcess) {
-            const shouldStop = await vscode.window.showWarningMessage(
-                'A command is currently running. Stop it?',
-                'Stop and Execute New Command',
-                'Cancel'
-            );
-
-            if (shouldStop !== 'Stop and Execute New Command') {
-                return;
-            }
-
-            this.stop();
-        }
+     * @param job Job to run (command and cwd are taken from the job)
+     * @param profile Container profile (container, user and environment)
+     * @param pathMapper Host ↔ container path mappings of the container
+     */
+    private async executeInDocker(job: Job, profile: ContainerProfile, pathMapper: PathMapper): Promise<JobResult> {
+        const output = job.output;
+        const command = job.command;
+        const containerName = profile.container!.trim();
 
-        // Determine working directory in container
-        // Container root is /sandbox, append cwd if specified
-        let containerWorkDir = '/sandbox';
-        if (cwd && cwd.trim()) {
-            // Remove leading ./ or /
-            const cleanCwd = cwd.trim().replace(/^\.?\//, '');
-            containerWorkDir = `/sandbox/${cleanCwd}`;
-        }
+        // Working directory in container, translated from the host directory when the job was queued
+        const containerWorkDir = job.options.workDir!;
+        const hostWorkDir = this.resolveHostWorkDir(job.cwd);
 
         // Show output
-        this.outputManager.show();
-        this.outputManager.appendLine(`\n========================================`);
-        this.outputManager.appendLine(`Executing: ${command}`);
-        this.outputManager.appendLine(`🐳 Docker Mode: Yes`);
-        this.outputManager.appendLine(`Container: ${containerName}`);
-        this.outputManager.appendLine(`📁 Working Dir: ${containerWorkDir}`);
-        this.outputManager.appendLine(`Time: ${new Date().toLocaleString()}`);
-        this.outputManager.appendLine(`========================================\n`);
+        output.show(true);
+        output.appendLine(`========================================`);
+        output.appendLine(`Executing: ${command}`);
+        output.appendLine(`🐳 Docker Mode: Yes`);
+        output.appendLine(`Container: ${containerName}`);
+        if (profile.name !== containerName) {
+            output.appendLine(`Profile: ${profile.name}`);
+        }
+        output.appendLine(`📁 Working Dir: ${containerWorkDir}`);
+        this.appendEnvironmentHeader(job);
+        output.appendLine(`Job: #${job.id}`);
+        output.appendLine(`Time: ${new Date().toLocaleString()}`);
+        output.appendLine(`========================================\n`);
         
         // Pre-check: Verify container status using docker inspect (one call to get all info)
         const inspectResult = child_process.spawnSync('docker', ['inspect', '--format', '{{.State.Running}}', containerName], {
@@ -63,10 +132,10 @@ export class DeepRouteCompileCommands {
 
         // Check if docker command itself failed (Docker not running)
         if (inspectResult.error) {
-            this.outputManager.appendLine(`❌ Docker is not accessible: ${inspectResult.error.message}`);
-            this.outputManager.appendLine(`💡 Please ensure Docker Desktop/Engine is running.`);
+            output.appendLine(`❌ Docker is not accessible: ${inspectResult.error.message}`);
+            output.appendLine(`💡 Please ensure Docker Desktop/Engine is running.`);
             vscode.window.showErrorMessage(`Docker is not running. Please start Docker Desktop/Engine and try again.`);
-            return;
+            return { exitCode: null, signal: null, error: 'Docker is not accessible' };
         }
 
         // Check if container exists
@@ -75,8 +144,8 @@ export class DeepRouteCompileCommands {
             
             // Container does not exist
             if (errorMsg.includes('No such object') || errorMsg.includes('Error: No such container')) {
-                this.outputManager.appendLine(`❌ Container '${containerName}' does not exist`);
-                this.outputManager.appendLine(`\n💡 Available containers:`);
+                output.appendLine(`❌ Container '${containerName}' does not exist`);
+                output.appendLine(`\n💡 Available containers:`);
                 
                 // List available containers
                 const listResult = child_process.spawnSync('docker', ['ps', '-a', '--format', '{{.Names}}'], {
@@ -84,27 +153,27 @@ export class DeepRouteCompileCommands {
                 });
                 const availableContainers = listResult.stdout.toString().trim();
                 if (availableContainers) {
-                    this.outputManager.appendLine(availableContainers);
+                    output.appendLine(availableContainers);
                 } else {
-                    this.outputManager.appendLine(`   (No containers found)`);
+                    output.appendLine(`   (No containers found)`);
                 }
                 
                 vscode.window.showErrorMessage(`Docker container '${containerName}' does not exist. Please check container name in settings.`);
-                return;
+                return { exitCode: null, signal: null, error: `Container '${containerName}' does not exist` };
             }
             
             // Other Docker errors
-            this.outputManager.appendLine(`❌ Docker error: ${errorMsg}`);
+            output.appendLine(`❌ Docker error: ${errorMsg}`);
             vscode.window.showErrorMessage(`Docker error: ${errorMsg}`);
-            return;
+            return { exitCode: null, signal: null, error: errorMsg };
         }
 
         // Parse container running status
         const isRunning = inspectResult.stdout.toString().trim() === 'true';
         
         if (!isRunning) {
-            this.outputManager.appendLine(`⚠️  Container '${containerName}' is stopped`);
-            this.outputManager.appendLine(`🚀 Starting container...`);
+            output.appendLine(`⚠️  Container '${containerName}' is stopped`);
+            output.appendLine(`🚀 Starting container...`);
             
             const startResult = child_process.spawnSync('docker', ['start', containerName], {
                 cwd: this.workspaceRoot
@@ -112,13 +181,13 @@ export class DeepRouteCompileCommands {
 
             if (startResult.error || startResult.status !== 0) {
                 const errorMsg = startResult.stderr?.toString().trim() || startResult.error?.message || 'Unknown error';
-                this.outputManager.appendLine(`❌ Failed to start container: ${errorMsg}`);
-                this.outputManager.appendLine(`\n💡 Possible reasons:`);
-                this.outputManager.appendLine(`   - Container configuration error`);
-                this.outputManager.appendLine(`   - Required resources not available`);
-                this.outputManager.appendLine(`   - Check logs: docker logs ${containerName}`);
+                output.appendLine(`❌ Failed to start container: ${errorMsg}`);
+                output.appendLine(`\n💡 Possible reasons:`);
+                output.appendLine(`   - Container configuration error`);
+                output.appendLine(`   - Required resources not available`);
+                output.appendLine(`   - Check logs: docker logs ${containerName}`);
                 vscode.window.showErrorMessage(`Docker container failed to start: ${errorMsg}`);
-                return;
+                return { exitCode: null, signal: null, error: `Failed to start container: ${errorMsg}` };
             }
 
             // Verify container started successfully
@@ -128,130 +197,155 @@ export class DeepRouteCompileCommands {
             
             const nowRunning = verifyResult.status === 0 && verifyResult.stdout.toString().trim() === 'true';
             if (!nowRunning) {
-                this.outputManager.appendLine(`❌ Container started but not running (may have crashed)`);
-                this.outputManager.appendLine(`💡 Check container logs: docker logs ${containerName}`);
+                output.appendLine(`❌ Container started but not running (may have crashed)`);
+                output.appendLine(`💡 Check container logs: docker logs ${containerName}`);
                 vscode.window.showErrorMessage(`Container started but immediately stopped. Check Docker logs.`);
-                return;
+                return { exitCode: null, signal: null, error: 'Container started but not running' };
             }
             
-            this.outputManager.appendLine(`✅ Container started and verified running\n`);
-        }
-
-        // Determine host working directory (for checking compile_commands.json)
-        let hostWorkDir = this.workspaceRoot;
-        if (cwd && cwd.trim()) {
-            const cleanCwd = cwd.trim().replace(/^\.?\//, '');
-            hostWorkDir = path.resolve(this.workspaceRoot, cleanCwd);
+            output.appendLine(`✅ Container started and verified running\n`);
         }
 
-        // Check compile_commands.json status before command execution
+        // Check compile_commands.json status before command execution (on the host side of the mount)
         const compileCommandsPath = path.join(hostWorkDir, 'compile_commands.json');
         const beforeStats = this.getFileStats(compileCommandsPath);
 
         // Step 2: Build docker exec command
-        // Format: docker exec -i -w <workdir> -u <uid>:<gid> <container> bash -c "cd <dir> && <cmd>"
-        const uid = child_process.execSync('id -u').toString().trim();
-        const gid = child_process.execSync('id -g').toString().trim();
-        
+        // Format: docker exec -i -w <workdir> -u <uid>:<gid> [-e KEY=VALUE...] <container> bash -c "<cmd>"
+        // The profile may override the user (default: current host UID:GID)
+        let user = profile.user && profile.user.trim();
+        if (!user) {
+            const uid = child_process.execSync('id -u').toString().trim();
+            const gid = child_process.execSync('id -g').toString().trim();
+            user = `${uid}:${gid}`;
+        }
+
+        // Stopped while checking the container
+        if (job.isStopRequested) {
+            return { exitCode: null, signal: 'SIGTERM' };
+        }
+
+        // Variables go through a temporary --env-file so their values don't show up in the process list
+        const envFile = writeDockerEnvFile(job.options.env || {});
+        const envArgs = [
+            ...(envFile.file ? ['--env-file', envFile.file] : []),
+            ...Object.entries(envFile.inline).flatMap(([key, value]) => ['-e', `${key}=${value}`])
+        ];
+
+        // Every process of the command inherits the run id, so stop can find them inside the container
+        const runId = createRunId(job.id, job.attempt);
+
+        // The terminal presentation allocates a tty so colors and prompts work
         const dockerArgs = [
             'exec',
-            '-i',
-            '-w', '/sandbox',
-            '-u', `${uid}:${gid}`,
+            job.terminal ? '-it' : '-i',
+            '-w', containerWorkDir,
+            '-u', user,
+            ...envArgs,
+            '-e', `${RUN_ID_VARIABLE}=${runId}`,
             containerName,
-            'bash', '-c',
-            `cd ${containerWorkDir} && ${command}`
+            job.options.shell || 'bash', '-c',
+            command
         ];
 
-        // Show progress
-        vscode.window.withProgress({
+        // Show progress (one notification per job)
+        return vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `🐳 Executing in container: ${command}`,
+            title: `🐳 [#${job.id}] Executing in container: ${job.label}`,
             cancellable: true
         }, async (progress, token) => {
-            return new Promise<void>((resolve) => {
-                // Execute command
-                this.currentProcess = child_process.spawn('docker', dockerArgs, {
+            const reporter = this.reportBuildProgress(job, progress);
+            return new Promise<JobResult>((resolve) => {
+                // Execute command (inside a pseudo terminal for the terminal presentation)
+                const target = job.terminal
+                    ? wrapInPty(toCommandLine('docker', dockerArgs), job.terminal.size)
+                    : { file: 'docker', args: dockerArgs };
+                const proc = child_process.spawn(target.file, target.args, {
                     cwd: this.workspaceRoot
                 });
+                job.process = proc;
+                job.processTree = containerProcesses(containerName, runId);
 
                 // Handle cancellation
                 token.onCancellationRequested(() => {
-                    this.stop();
-                    resolve();
+                    job.stop();
                 });
 
                 // Listen to stdout
-                if (this.currentProcess.stdout) {
-                    this.currentProcess.stdout.on('data', (data: Buffer) => {
-                        const output = data.toString();
-                        this.outputManager.append(output);
+                if (proc.stdout) {
+                    proc.stdout.on('data', (data: Buffer) => {
+                        job.write(data.toString());
                     });
                 }
 
                 // Listen to stderr
                 // Note: Many commands output normal progress info to stderr, not just errors
                 // So we don't add [ERROR] prefix here, just output as-is
-                if (this.currentProcess.stderr) {
-                    this.currentProcess.stderr.on('data', (data: Buffer) => {
-                        const output = data.toString();
-                        this.outputManager.append(output);
+                if (proc.stderr) {
+                    proc.stderr.on('data', (data: Buffer) => {
+                        job.write(data.toString());
                     });
                 }
 
                 // Listen to error events
-                this.currentProcess.on('error', (error: Error) => {
-                    this.outputManager.appendLine(`\n[Error] ${error.message}`);
+                proc.on('error', (error: Error) => {
+                    output.appendLine(`\n[Error] ${error.message}`);
                     vscode.window.showErrorMessage(`Command execution failed: ${error.message}`);
-                    this.currentProcess = undefined;
-                    resolve();
+                    resolve({ exitCode: null, signal: null, error: error.message });
                 });
 
                 // Listen to close events
-                this.currentProcess.on('close', async (code: number | null, signal: string | null) => {
-                    this.outputManager.appendLine(`\n----------------------------------------`);
+                proc.on('close', async (code: number | null, signal: string | null) => {
+                    output.appendLine(`\n----------------------------------------`);
                     
                     if (signal) {
-                        this.outputManager.appendLine(`Command terminated by signal: ${signal}`);
-                        vscode.window.showWarningMessage(`Command terminated`);
+                        output.appendLine(`Command terminated by signal: ${signal}`);
+                        vscode.window.showWarningMessage(`[#${job.id}] Command terminated: ${job.label}`);
                     } else if (code === 0) {
-                        this.outputManager.appendLine(`Command executed successfully (exit code: ${code})`);
+                        output.appendLine(`Command executed successfully (exit code: ${code})`);
                         
                         // Check if compile_commands.json was updated
                         const afterStats = this.getFileStats(compileCommandsPath);
                         if (this.isCompileCommandsUpdated(beforeStats, afterStats)) {
-                            this.outputManager.appendLine(`[Clangd] compile_commands.json has been updated`);
-                            // Docker mode: replace /sandbox paths before restarting clangd
-                            await this.restartClangd(compileCommandsPath, true);
+                            output.appendLine(`[Clangd] compile_commands.json has been updated`);
+                            // Docker mode: replace container paths before restarting clangd
+                            await this.restartClangd(compileCommandsPath, pathMapper, output);
                         } else {
-                            vscode.window.showInformationMessage(`Command executed successfully`);
+                            vscode.window.showInformationMessage(`[#${job.id}] Command executed successfully: ${job.label}`);
                         }
                     } else {
-                        this.outputManager.appendLine(`Command execution failed (exit code: ${code})`);
-                        vscode.window.showErrorMessage(`Command failed with exit code: ${code}`);
+                        output.appendLine(`Command execution failed (exit code: ${code})`);
+                        vscode.window.showErrorMessage(`[#${job.id}] Command failed with exit code ${code}: ${job.label}`);
                     }
                     
-                    this.outputManager.appendLine(`----------------------------------------\n`);
-                    this.currentProcess = undefined;
-                    resolve();
+                    output.appendLine(`----------------------------------------\n`);
+                    resolve({ exitCode: code, signal });
                 });
+            }).finally(() => {
+                reporter.dispose();
+                if (envFile.file) {
+                    fs.rmSync(envFile.file, { force: true });
+                }
             });
         });
     }
 
     /**
-     * Execute shell command
+     * Execute shell command as a job
+     * The job is queued when the concurrency cap is reached
      * @param command Command to execute
-     * @param cwd Working directory (relative path)
-     *            - Host mode: relative to workspace root
-     *            - Docker mode: relative to /sandbox in container
-     * @param executeLocally Per-command switch to execute locally (optional)
+     * @param cwd Working directory (relative to workspace root)
+     *            - Docker mode: translated to the container path through the path mappings
+     * @param options Execution mode, label, container profile and presentation
+     * @returns The created job, or undefined if the command was not started
      */
-    async execute(command: string, cwd?: string, executeLocally?: boolean): Promise<void> {
+    async execute(command: string, cwd?: string, options: ExecuteOptions = {}): Promise<Job | undefined> {
+        const { executeLocally, label, profile: profileName } = options;
+
         // Get configuration
         const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
         const globalExecuteLocally = config.get<boolean>('executeLocally', false);
-        const dockerContainerName = config.get<string>('dockerContainerName', 'deeproute-dev-x86-2004');
+        const presentation = options.presentation || config.get<Presentation>('presentation', 'output');
         
         // Check if should execute locally
         // Priority: per-command switch OR global switch
@@ -259,35 +353,71 @@ export class DeepRouteCompileCommands {
         
         if (shouldExecuteLocally) {
             // Local mode: Cursor is running inside the Docker container
-            // workspace root should be /sandbox
-            if (!this.workspaceRoot.startsWith('/sandbox')) {
+            // workspace root should be inside a mapped container directory (e.g. /sandbox)
+            const localMapper = PathMapper.forContainer(undefined, this.workspaceRoot);
+            if (!localMapper.isContainerPath(this.workspaceRoot)) {
+                const containerRoots = localMapper.getMappings().map(m => m.containerPath).join(', ');
                 this.outputManager.show();
-                this.outputManager.appendLine(`\n[Error] Local mode requires workspace root to be /sandbox`);
+                this.outputManager.appendLine(`\n[Error] Local mode requires workspace root to be inside the container (${containerRoots})`);
                 this.outputManager.appendLine(`  Current workspace root: ${this.workspaceRoot}`);
                 this.outputManager.appendLine(`  Please open the project inside the Docker container (e.g., /sandbox or /sandbox/blc)`);
+                this.outputManager.appendLine(`  Or configure "deeproute-compile-commands.pathMappings" if the container uses a different root`);
                 vscode.window.showErrorMessage(
-                    `Local mode error: workspace root must be /sandbox, current: ${this.workspaceRoot}`
+                    `Local mode error: workspace root must be inside ${containerRoots}, current: ${this.workspaceRoot}`
                 );
-                return;
+                return undefined;
+            }
+
+            // Check working directory before queueing
+            if (cwd && cwd.trim()) {
+                const actualCwd = path.resolve(this.workspaceRoot, cwd.trim());
+                if (!fs.existsSync(actualCwd)) {
+                    vscode.window.showErrorMessage(`Specified directory does not exist: ${actualCwd}`);
+                    return undefined;
+                }
             }
-            await this.executeLocally(command, cwd);
+
+            const environment = this.resolveEnvironment(options);
+            if (!environment) {
+                return undefined;
+            }
+
+            if (!await this.confirmDuplicate(command, cwd)) {
+                return undefined;
+            }
+
+            return this.jobManager.enqueue(
+                {
+                    label: label || command,
+                    command,
+                    cwd,
+                    target: 'Local',
+                    mode: 'local',
+                    presentation,
+                    workDir: cwd && cwd.trim() ? path.resolve(this.workspaceRoot, cwd.trim()) : this.workspaceRoot,
+                    env: environment.env,
+                    shell: environment.shell,
+                    ...toRunPolicy(options),
+                    executeOptions: options
+                },
+                job => this.executeLocally(job)
+            );
         } else {
             // Container mode: Cursor is running on the host machine
-            // workspace root should be $HOME/codetree/repo
-            const expectedRoot = path.join(os.homedir(), 'codetree', 'repo');
-            if (this.workspaceRoot !== expectedRoot) {
+            // Resolve the container profile (named by the command, or the default profile)
+            let profile: ContainerProfile | undefined;
+            try {
+                profile = ContainerProfiles.resolve(profileName);
+            } catch (error: any) {
                 this.outputManager.show();
-                this.outputManager.appendLine(`\n[Error] Container mode requires workspace root to be ${expectedRoot}`);
-                this.outputManager.appendLine(`  Current workspace root: ${this.workspaceRoot}`);
-                this.outputManager.appendLine(`  Please open the project on the host machine at $HOME/codetree/repo`);
-                vscode.window.showErrorMessage(
-                    `Container mode error: workspace root must be ${expectedRoot}, current: ${this.workspaceRoot}`
-                );
-                return;
+                this.outputManager.appendLine(`\n[Error] ${error.message}`);
+                this.outputManager.appendLine(`  Configured profiles: ${ContainerProfiles.getProfiles().map(p => p.name).join(', ') || '(none)'}`);
+                vscode.window.showErrorMessage(error.message);
+                return undefined;
             }
 
-            // Docker container must be configured (use default if not set)
-            if (!dockerContainerName || !dockerContainerName.trim()) {
+            // Docker container must be configured
+            if (!profile) {
                 this.outputManager.show();
                 this.outputManager.appendLine(`\n========================================`);
                 this.outputManager.appendLine(`❌ Docker Container Not Configured`);
@@ -299,6 +429,7 @@ export class DeepRouteCompileCommands {
                 this.outputManager.appendLine(`   3. Enter your container name (e.g., deeproute-dev-x86-2004)`);
                 this.outputManager.appendLine(`\n   Or manually add to settings.json:`);
                 this.outputManager.appendLine(`   "deeproute-compile-commands.dockerContainerName": "your-container-name"`);
+                this.outputManager.appendLine(`\n   Or define several containers in "deeproute-compile-commands.containerProfiles"`);
                 this.outputManager.appendLine(`\n========================================\n`);
                 
                 vscode.window.showErrorMessage(
@@ -309,188 +440,636 @@ export class DeepRouteCompileCommands {
                         vscode.commands.executeCommand('deeproute-compile-commands.configureDocker');
                     }
                 });
-                return;
+                return undefined;
+            }
+
+            // Remote build host: run over SSH (and docker exec there if the profile has a container)
+            if (profile.ssh) {
+                return this.enqueueOverSsh(command, cwd, label, profile, presentation, options);
+            }
+
+            // The working directory must be inside a directory mounted into the container
+            const containerProfile = profile;
+            const containerName = containerProfile.container!.trim();
+            const pathMapper = PathMapper.forContainer(containerName, this.workspaceRoot, containerProfile.pathMappings);
+            const hostWorkDir = this.resolveHostWorkDir(cwd);
+            const containerWorkDir = pathMapper.toContainer(hostWorkDir);
+            if (!containerWorkDir) {
+                this.outputManager.show();
+                this.outputManager.appendLine(`\n[Error] Working directory is not mounted into container '${containerName}'`);
+                this.outputManager.appendLine(`  Working directory: ${hostWorkDir}`);
+                this.outputManager.appendLine(`  Path mappings (host → container):`);
+                pathMapper.getMappings().forEach(m => {
+                    this.outputManager.appendLine(`    ${m.hostPath} → ${m.containerPath}`);
+                });
+                this.outputManager.appendLine(`  Open the project inside a mounted directory, or configure "deeproute-compile-commands.pathMappings"`);
+                vscode.window.showErrorMessage(
+                    `Container mode error: ${hostWorkDir} is not mounted into container '${containerName}'`
+                );
+                return undefined;
+            }
+
+            const environment = this.resolveEnvironment(options, containerProfile);
+            if (!environment) {
+                return undefined;
+            }
+
+            if (!await this.confirmDuplicate(command, cwd)) {
+                return undefined;
             }
 
-            await this.executeInDocker(dockerContainerName.trim(), command, cwd);
+            return this.jobManager.enqueue(
+                {
+                    label: label || command,
+                    command,
+                    cwd,
+                    target: containerName,
+                    mode: 'docker',
+                    profile: containerProfile.name,
+                    presentation,
+                    workDir: containerWorkDir,
+                    env: environment.env,
+                    shell: environment.shell,
+                    ...toRunPolicy(options),
+                    executeOptions: options,
+                    toHostPath: p => pathMapper.toHost(p)
+                },
+                job => this.executeInDocker(job, containerProfile, pathMapper)
+            );
         }
     }
 
     /**
-     * Execute command locally (not in Docker)
-     * @param command Command to execute
-     * @param cwd Working directory (relative path)
-     */
-    private async executeLocally(command: string, cwd?: string): Promise<void> {
-        // Stop current process if any
-        if (this.currentProcess) {
-            const shouldStop = await vscode.window.showWarningMessage(
-                'A command is currently running. Stop it?',
-                'Stop and Execute New Command',
-                'Cancel'
+     * Describe how execute() would run a command without running it, and check that the working
+     * directory exists where the command runs (host, container or remote host)
+     * Secrets are masked in the returned command line
+     * @param command Command with placeholders already resolved
+     * @param cwd Working directory (relative to workspace root)
+     */
+    async describeInvocation(command: string, cwd?: string, options: ExecuteOptions = {}): Promise<InvocationPreview> {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const hostWorkDir = this.resolveHostWorkDir(cwd);
+
+        if (options.executeLocally === true || config.get<boolean>('executeLocally', false)) {
+            const preview: InvocationPreview = { mode: 'local', target: 'Local' };
+            let environment: CommandEnvironment;
+            try {
+                environment = resolveCommandEnvironment(this.workspaceRoot, options);
+            } catch (error: any) {
+                return { ...preview, error: error.message };
+            }
+            const envArgs = Object.entries(maskEnvironment(environment.env)).map(([key, value]) => `${key}=${value}`);
+            const shellArgs = [environment.shell || '/bin/sh', '-c', command];
+            return {
+                ...preview,
+                workDir: hostWorkDir,
+                workDirExists: fs.existsSync(hostWorkDir) && fs.statSync(hostWorkDir).isDirectory(),
+                commandLine: `cd ${shellQuote(hostWorkDir)} && ${envArgs.length > 0 ? toCommandLine('env', [...envArgs, ...shellArgs]) : toCommandLine(shellArgs[0], shellArgs.slice(1))}`
+            };
+        }
+
+        let profile: ContainerProfile | undefined;
+        try {
+            profile = ContainerProfiles.resolve(options.profile);
+        } catch (error: any) {
+            return { mode: 'docker', target: '', profile: options.profile, error: error.message };
+        }
+        if (!profile) {
+            return { mode: 'docker', target: '', error: 'Docker container is not configured' };
+        }
+
+        let environment: CommandEnvironment;
+        try {
+            environment = resolveCommandEnvironment(this.workspaceRoot, options, profile.env);
+        } catch (error: any) {
+            return { mode: profile.ssh ? 'ssh' : 'docker', target: '', profile: profile.name, error: error.message };
+        }
+        const maskedEnvironment = { env: maskEnvironment(environment.env), shell: environment.shell };
+
+        if (profile.ssh) {
+            const connection = new SshConnection(profile.ssh);
+            const remoteWorkDir = this.getSshPathMapper(profile).toContainer(hostWorkDir);
+            const preview: InvocationPreview = { mode: 'ssh', target: connection.destination, profile: profile.name };
+            if (!remoteWorkDir) {
+                return { ...preview, error: `${hostWorkDir} has no path mapping on ${profile.ssh.host}` };
+            }
+            // The variables are sourced from a private temporary file when the command runs; shown inline, masked
+            const exports = Object.entries(maskedEnvironment.env).map(([key, value]) => `export ${key}=${shellQuote(value)}; `).join('');
+            const script = `${exports}exec ${this.wrapRemoteScript(profile, `cd ${shellQuote(remoteWorkDir)} && ${command}`, maskedEnvironment)}`;
+            const check = await connection.capture(this.wrapRemoteScript(profile, `test -d ${shellQuote(remoteWorkDir)}`), 15000);
+            return {
+                ...preview,
+                workDir: remoteWorkDir,
+                ...toDirectoryCheck(check.code, check.stderr, 'ssh failed'),
+                commandLine: toCommandLine('ssh', connection.buildArgs(script))
+            };
+        }
+
+        const containerName = profile.container!.trim();
+        const pathMapper = PathMapper.forContainer(containerName, this.workspaceRoot, profile.pathMappings);
+        const containerWorkDir = pathMapper.toContainer(hostWorkDir);
+        const preview: InvocationPreview = { mode: 'docker', target: containerName, profile: profile.name };
+        if (!containerWorkDir) {
+            return { ...preview, error: `${hostWorkDir} is not mounted into container '${containerName}'` };
+        }
+
+        const user = profile.user && profile.user.trim() ? profile.user.trim() : `${os.userInfo().uid}:${os.userInfo().gid}`;
+        const envArgs = Object.entries(maskedEnvironment.env).flatMap(([key, value]) => ['-e', `${key}=${value}`]);
+        const check = await new Promise<{ code: number | null; stderr: string }>(resolve => {
+            child_process.execFile('docker', ['exec', containerName, 'test', '-d', containerWorkDir], { timeout: 10000 }, (error, _stdout, stderr) => {
+                const code = error ? (typeof error.code === 'number' ? error.code : null) : 0;
+                resolve({ code, stderr: stderr.toString() || (error && code === null ? error.message : '') });
+            });
+        });
+        return {
+            ...preview,
+            workDir: containerWorkDir,
+            ...toDirectoryCheck(check.code, check.stderr, 'docker exec failed'),
+            commandLine: toCommandLine('docker', ['exec', '-i', '-w', containerWorkDir, '-u', user, ...envArgs, containerName, environment.shell || 'bash', '-c', command])
+        };
+    }
+
+    /**
+     * Queue a command that runs on the remote build host of an SSH profile
+     * The workspace root maps to ssh.remoteRoot (profile pathMappings replace this mapping)
+     */
+    private async enqueueOverSsh(
+        command: string,
+        cwd: string | undefined,
+        label: string | undefined,
+        profile: ContainerProfile,
+        presentation: Presentation,
+        options: ExecuteOptions
+    ): Promise<Job | undefined> {
+        const ssh = profile.ssh!;
+        if (!ssh.remoteRoot || !ssh.remoteRoot.trim()) {
+            vscode.window.showErrorMessage(`Container profile "${profile.name}": ssh.remoteRoot is required`);
+            return undefined;
+        }
+
+        const pathMapper = this.getSshPathMapper(profile);
+        const hostWorkDir = this.resolveHostWorkDir(cwd);
+        const remoteWorkDir = pathMapper.toContainer(hostWorkDir);
+        if (!remoteWorkDir) {
+            vscode.window.showErrorMessage(
+                `Remote mode error: ${hostWorkDir} has no path mapping on ${ssh.host} (profile "${profile.name}")`
             );
+            return undefined;
+        }
 
-            if (shouldStop !== 'Stop and Execute New Command') {
-                return;
+        const environment = this.resolveEnvironment(options, profile);
+        if (!environment) {
+            return undefined;
+        }
+
+        if (!await this.confirmDuplicate(command, cwd)) {
+            return undefined;
+        }
+
+        return this.jobManager.enqueue(
+            {
+                label: label || command,
+                command,
+                cwd,
+                target: new SshConnection(ssh).destination,
+                mode: 'ssh',
+                profile: profile.name,
+                presentation,
+                workDir: remoteWorkDir,
+                env: environment.env,
+                shell: environment.shell,
+                ...toRunPolicy(options),
+                executeOptions: options,
+                toHostPath: p => pathMapper.toHost(p)
+            },
+            job => this.executeOverSsh(job, profile, pathMapper)
+        );
+    }
+
+    /**
+     * Wrap a remote shell script so it runs in the profile's container on the remote host (if any)
+     * @param environment Shell of the script (default bash) and variables the remote shell has already
+     *                    exported (see SshConnection.uploadEnvironment); only their names are passed
+     *                    to the container, so values stay out of the process list
+     */
+    private wrapRemoteScript(profile: ContainerProfile, script: string, environment: CommandEnvironment = { env: {} }): string {
+        const shell = environment.shell || 'bash';
+        if (!profile.container) {
+            return `${shell} -c ${shellQuote(script)}`;
+        }
+
+        const userArgs = profile.user ? ` -u ${shellQuote(profile.user)}` : '';
+        const envArgs = Object.keys(environment.env).map(key => ` -e ${shellQuote(key)}`).join('');
+        return `docker exec -i${userArgs}${envArgs} ${shellQuote(profile.container.trim())} ${shell} -c ${shellQuote(script)}`;
+    }
+
+    /**
+     * Execute command on a remote build host over SSH
+     * Output is streamed; stopping kills the remote process group and, with a container, every process
+     * of the command inside it. Afterwards an updated
+     * compile_commands.json is downloaded into the local working directory and its paths rewritten
+     * @param job Job to run (command and cwd are taken from the job)
+     * @param profile Profile with the ssh settings (and optionally a container on the remote host)
+     * @param pathMapper Local ↔ remote path mappings
+     */
+    private async executeOverSsh(job: Job, profile: ContainerProfile, pathMapper: PathMapper): Promise<JobResult> {
+        const output = job.output;
+        const connection = new SshConnection(profile.ssh!);
+        const remoteWorkDir = job.options.workDir!;
+        const hostWorkDir = this.resolveHostWorkDir(job.cwd);
+
+        // Show output
+        output.show(true);
+        output.appendLine(`========================================`);
+        output.appendLine(`Executing: ${job.command}`);
+        output.appendLine(`🌐 Remote Host: ${connection.destination}`);
+        if (profile.container) {
+            output.appendLine(`Container: ${profile.container}`);
+        }
+        output.appendLine(`Profile: ${profile.name}`);
+        output.appendLine(`📁 Working Dir: ${remoteWorkDir}`);
+        this.appendEnvironmentHeader(job);
+        output.appendLine(`Job: #${job.id}`);
+        output.appendLine(`Time: ${new Date().toLocaleString()}`);
+        output.appendLine(`========================================\n`);
+
+        // Record remote compile_commands.json mtime before execution
+        const remoteCompileCommands = path.posix.join(remoteWorkDir, 'compile_commands.json');
+        const statScript = this.wrapRemoteScript(profile, `stat -c %Y ${shellQuote(remoteCompileCommands)} 2>/dev/null || true`);
+        const before = await connection.capture(statScript);
+        if (before.code === 255) {
+            // ssh itself failed (unreachable host, authentication, ...)
+            output.appendLine(`❌ Cannot connect to ${connection.destination}: ${before.stderr.trim()}`);
+            output.appendLine(`💡 Check that "ssh ${connection.destination}" works without a password prompt (key authentication)`);
+            vscode.window.showErrorMessage(`Cannot connect to ${connection.destination}`);
+            return { exitCode: null, signal: null, error: `Cannot connect to ${connection.destination}` };
+        }
+        const beforeMtime = before.stdout.trim();
+
+        // Stopped while connecting
+        if (job.isStopRequested) {
+            return { exitCode: null, signal: 'SIGTERM' };
+        }
+
+        // Variables go through a private temporary file on the remote host, like --env-file in Docker mode
+        const environment = { env: job.options.env || {}, shell: job.options.shell };
+        let sourceEnvironment = '';
+        if (Object.keys(environment.env).length > 0) {
+            try {
+                const envFile = shellQuote(await connection.uploadEnvironment(environment.env));
+                sourceEnvironment = `. ${envFile}; rm -f ${envFile}; `;
+            } catch (error: any) {
+                output.appendLine(`❌ Cannot pass the environment to ${connection.destination}: ${error.message}`);
+                return { exitCode: null, signal: null, error: `Cannot pass the environment to ${connection.destination}` };
+            }
+        }
+
+        // Every process of the command inherits the run id, so stop can find them inside a container
+        // on the remote host, which killing the remote process group doesn't reach
+        const runId = createRunId(job.id, job.attempt);
+        const commandEnvironment = { ...environment, env: { ...environment.env, [RUN_ID_VARIABLE]: runId } };
+
+        // The login shell prints its PID first, then execs the command, so the PID is the
+        // remote process group to kill on stop (closing ssh alone doesn't stop the remote command)
+        const commandScript = this.wrapRemoteScript(profile, `cd ${shellQuote(remoteWorkDir)} && ${job.command}`, commandEnvironment);
+        const script = `echo ${PID_MARKER}$$; ${sourceEnvironment}export ${RUN_ID_VARIABLE}=${shellQuote(runId)}; exec ${commandScript}`;
+        let remotePid: string | undefined;
+        job.onStop = () => {
+            if (remotePid) {
+                connection.stopProcessGroup(remotePid, job.killGraceSeconds);
             }
+        };
+
+        // Show progress (one notification per job)
+        return vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `🌐 [#${job.id}] Executing on ${connection.destination}: ${job.label}`,
+            cancellable: true
+        }, async (progress, token) => {
+            const reporter = this.reportBuildProgress(job, progress);
+            return new Promise<JobResult>((resolve) => {
+                // The terminal presentation allocates a remote tty so colors and prompts work
+                const proc = connection.spawn(script, !!job.terminal);
+                job.process = proc;
+                if (profile.container) {
+                    job.processTree = containerProcesses(profile.container.trim(), runId, async args => {
+                        const result = await connection.capture(toCommandLine('docker', args));
+                        if (result.code !== 0) {
+                            throw new Error(result.stderr.trim() || `docker exec on ${connection.destination} exited with code ${result.code}`);
+                        }
+                        return result.stdout;
+                    });
+                }
+
+                // Handle cancellation
+                token.onCancellationRequested(() => {
+                    job.stop();
+                });
+
+                // Listen to stdout, taking the PID marker off the first line
+                let header = '';
+                proc.stdout?.on('data', (data: Buffer) => {
+                    if (remotePid !== undefined) {
+                        job.write(data.toString());
+                        return;
+                    }
+                    header += data.toString();
+                    const marker = parsePidMarker(header);
+                    if (!marker) {
+                        return;
+                    }
+                    remotePid = marker.pid;
+                    if (marker.rest) {
+                        job.write(marker.rest);
+                    }
+                });
+
+                // Listen to stderr (progress info as well as errors, output as-is)
+                proc.stderr?.on('data', (data: Buffer) => {
+                    job.write(data.toString());
+                });
+
+                // Listen to error events
+                proc.on('error', (error: Error) => {
+                    output.appendLine(`\n[Error] ${error.message}`);
+                    vscode.window.showErrorMessage(`Command execution failed: ${error.message}`);
+                    resolve({ exitCode: null, signal: null, error: error.message });
+                });
+
+                // Listen to close events
+                proc.on('close', async (code: number | null, signal: string | null) => {
+                    output.appendLine(`\n----------------------------------------`);
+
+                    if (signal) {
+                        output.appendLine(`Command terminated by signal: ${signal}`);
+                        vscode.window.showWarningMessage(`[#${job.id}] Command terminated: ${job.label}`);
+                    } else if (code === 0) {
+                        output.appendLine(`Command executed successfully (exit code: ${code})`);
+
+                        // Check if compile_commands.json was updated on the remote host
+                        const after = await connection.capture(statScript);
+                        const afterMtime = after.stdout.trim();
+                        if (afterMtime && afterMtime !== beforeMtime) {
+                            output.appendLine(`[Clangd] compile_commands.json has been updated on ${connection.destination}`);
+                            const localPath = path.join(hostWorkDir, 'compile_commands.json');
+                            try {
+                                output.appendLine(`[Clangd] Downloading ${remoteCompileCommands} → ${localPath}`);
+                                await connection.download(
+                                    this.wrapRemoteScript(profile, `cat ${shellQuote(remoteCompileCommands)}`),
+                                    localPath
+                                );
+                                // Remote paths are replaced with local paths before restarting clangd
+                                await this.restartClangd(localPath, pathMapper, output);
+                            } catch (error: any) {
+                                output.appendLine(`[Clangd] ❌ Download failed: ${error.message}`);
+                            }
+                        } else {
+                            vscode.window.showInformationMessage(`[#${job.id}] Command executed successfully: ${job.label}`);
+                        }
+                    } else if (code === 255) {
+                        output.appendLine(`SSH connection failed (exit code: ${code})`);
+                        vscode.window.showErrorMessage(`[#${job.id}] SSH connection to ${connection.destination} failed: ${job.label}`);
+                    } else {
+                        output.appendLine(`Command execution failed (exit code: ${code})`);
+                        vscode.window.showErrorMessage(`[#${job.id}] Command failed with exit code ${code}: ${job.label}`);
+                    }
+
+                    output.appendLine(`----------------------------------------\n`);
+                    resolve({ exitCode: code, signal });
+                });
+            }).finally(() => reporter.dispose());
+        });
+    }
+
+    /**
+     * Spawn a shell command line inside a pseudo terminal sized like the job's terminal
+     */
+    private spawnInPty(commandLine: string, job: Job, spawnOptions: child_process.SpawnOptions): child_process.ChildProcess {
+        const target = wrapInPty(commandLine, job.terminal?.size);
+        return child_process.spawn(target.file, target.args, { cwd: spawnOptions.cwd, env: spawnOptions.env, detached: spawnOptions.detached });
+    }
+
+    /**
+     * Report build progress, current target and ETA of a job to its progress notification
+     */
+    private reportBuildProgress(job: Job, progress: vscode.Progress<{ message?: string; increment?: number }>): BuildProgressReporter {
+        const expectedDuration = this.runRecords?.getExpectedDuration(job.command, job.cwd);
+        return new BuildProgressReporter(job, progress, expectedDuration);
+    }
+
+    /**
+     * Merge the environment of a command with the settings and the container profile
+     * @returns undefined (after showing the error) if the env file cannot be read
+     */
+    private resolveEnvironment(options: ExecuteOptions, profile?: ContainerProfile): CommandEnvironment | undefined {
+        try {
+            return resolveCommandEnvironment(this.workspaceRoot, options, profile?.env);
+        } catch (error: any) {
+            this.outputManager.show();
+            this.outputManager.appendLine(`\n[Error] ${error.message}`);
+            vscode.window.showErrorMessage(error.message);
+            return undefined;
+        }
+    }
 
-            this.stop();
+    /**
+     * Show environment (secrets masked), shell and timeout/retry policy of a job in its output header
+     */
+    private appendEnvironmentHeader(job: Job): void {
+        const env = describeEnvironment(job.options.env || {});
+        if (env.length > 0) {
+            job.output.appendLine(`🔧 Environment: ${env.join(' ')}`);
+        }
+        if (job.options.shell) {
+            job.output.appendLine(`🐚 Shell: ${job.options.shell}`);
+        }
+        const policy = describeRunPolicy(job.options);
+        if (policy) {
+            job.output.appendLine(`⏱️ ${policy}${job.attempt > 1 ? ` (attempt ${job.attempt})` : ''}`);
+        }
+    }
+
+    /**
+     * Resolve a command cwd (relative to workspace root) to an absolute host path
+     */
+    private resolveHostWorkDir(cwd?: string): string {
+        if (cwd && cwd.trim()) {
+            // Remove leading ./ or /
+            const cleanCwd = cwd.trim().replace(/^\.?\//, '');
+            return path.resolve(this.workspaceRoot, cleanCwd);
         }
+        return this.workspaceRoot;
+    }
+
+    /**
+     * Ask before starting a second instance of a command that is already queued or running
+     * Two builds in the same directory usually collide on the build output
+     */
+    private async confirmDuplicate(command: string, cwd?: string): Promise<boolean> {
+        const activeJob = this.jobManager.findActiveJob(command, cwd);
+        if (!activeJob) {
+            return true;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Command is already ${activeJob.status} as job #${activeJob.id}. Run another instance?`,
+            'Run Another Instance',
+            'Cancel'
+        );
+        return choice === 'Run Another Instance';
+    }
+
+    /**
+     * Execute command locally (not in Docker)
+     * @param job Job to run (command and cwd are taken from the job)
+     */
+    private async executeLocally(job: Job): Promise<JobResult> {
+        const output = job.output;
+        const command = job.command;
+        const cwd = job.cwd;
 
         // Determine actual working directory (host mode)
         let actualCwd = this.workspaceRoot;
         if (cwd && cwd.trim()) {
             actualCwd = path.resolve(this.workspaceRoot, cwd.trim());
-            
-            // Check if directory exists
-            if (!fs.existsSync(actualCwd)) {
-                vscode.window.showErrorMessage(`Specified directory does not exist: ${actualCwd}`);
-                return;
-            }
         }
 
         // Check compile_commands.json status before command execution
         const compileCommandsPath = path.join(actualCwd, 'compile_commands.json');
         const beforeStats = this.getFileStats(compileCommandsPath);
 
-        // Get configuration
-        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-        const customShell = config.get<string>('shell', '');
-        const customEnv = config.get<Record<string, string>>('env', {});
-
-        // Prepare environment variables
+        // Shell and variables of the command, merged with the shell and env settings when queued
+        const customShell = job.options.shell || '';
+        // The run id lets stop find every process of the command, also those the pty wrapper
+        // starts in a new session outside the spawned process group
+        const runId = createRunId(job.id, job.attempt);
         const env = {
             ...process.env,
-            ...customEnv
+            ...(job.options.env || {}),
+            [RUN_ID_VARIABLE]: runId
         };
 
         // Show output panel
-        this.outputManager.show();
-        this.outputManager.appendLine(`\n========================================`);
-        this.outputManager.appendLine(`Executing: ${command}`);
-        this.outputManager.appendLine(`🖥️  Execution Mode: Local`);
-        this.outputManager.appendLine(`📁 Working Dir: ${actualCwd}`);
-        this.outputManager.appendLine(`Time: ${new Date().toLocaleString()}`);
-        this.outputManager.appendLine(`========================================\n`);
+        output.show(true);
+        output.appendLine(`========================================`);
+        output.appendLine(`Executing: ${command}`);
+        output.appendLine(`🖥️  Execution Mode: Local`);
+        output.appendLine(`📁 Working Dir: ${actualCwd}`);
+        this.appendEnvironmentHeader(job);
+        output.appendLine(`Job: #${job.id}`);
+        output.appendLine(`Time: ${new Date().toLocaleString()}`);
+        output.appendLine(`========================================\n`);
 
         // Prepare spawn options
+        // The command leads its own process group, so stop reaches every process it starts
         const spawnOptions: child_process.SpawnOptions = {
             cwd: actualCwd,
             env: env,
-            shell: customShell || true
+            shell: customShell || true,
+            detached: true
         };
 
-        // Show progress
-        await vscode.window.withProgress({
+        // Show progress (one notification per job)
+        return vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `Executing: ${command}`,
+            title: `[#${job.id}] Executing: ${job.label}`,
             cancellable: true
         }, async (progress, token) => {
-            return new Promise<void>((resolve) => {
-                // Execute command
-                this.currentProcess = child_process.spawn(command, [], spawnOptions);
+            const reporter = this.reportBuildProgress(job, progress);
+            return new Promise<JobResult>((resolve) => {
+                // Execute command (inside a pseudo terminal for the terminal presentation)
+                const proc = job.terminal
+                    ? this.spawnInPty(toCommandLine(customShell || '/bin/sh', ['-c', command]), job, spawnOptions)
+                    : child_process.spawn(command, [], spawnOptions);
+                job.process = proc;
+                if (proc.pid) {
+                    job.processTree = localProcesses(proc.pid, runId);
+                }
 
                 // Handle cancellation
                 token.onCancellationRequested(() => {
-                    this.stop();
-                    resolve();
+                    job.stop();
                 });
 
                 // Listen to stdout
-                if (this.currentProcess.stdout) {
-                    this.currentProcess.stdout.on('data', (data: Buffer) => {
-                        const output = data.toString();
-                        this.outputManager.append(output);
+                if (proc.stdout) {
+                    proc.stdout.on('data', (data: Buffer) => {
+                        job.write(data.toString());
                     });
                 }
 
                 // Listen to stderr
-                if (this.currentProcess.stderr) {
-                    this.currentProcess.stderr.on('data', (data: Buffer) => {
-                        const output = data.toString();
-                        this.outputManager.append(output);
+                if (proc.stderr) {
+                    proc.stderr.on('data', (data: Buffer) => {
+                        job.write(data.toString());
                     });
                 }
 
                 // Listen to error events
-                this.currentProcess.on('error', (error: Error) => {
-                    this.outputManager.appendLine(`\n[Error] ${error.message}`);
+                proc.on('error', (error: Error) => {
+                    output.appendLine(`\n[Error] ${error.message}`);
                     vscode.window.showErrorMessage(`Command execution failed: ${error.message}`);
-                    this.currentProcess = undefined;
-                    resolve();
+                    resolve({ exitCode: null, signal: null, error: error.message });
                 });
 
                 // Listen to close events
-                this.currentProcess.on('close', async (code: number | null, signal: string | null) => {
-                    this.outputManager.appendLine(`\n----------------------------------------`);
+                proc.on('close', async (code: number | null, signal: string | null) => {
+                    output.appendLine(`\n----------------------------------------`);
                     
                     if (signal) {
-                        this.outputManager.appendLine(`Command terminated by signal: ${signal}`);
-                        vscode.window.showWarningMessage(`Command terminated`);
+                        output.appendLine(`Command terminated by signal: ${signal}`);
+                        vscode.window.showWarningMessage(`[#${job.id}] Command terminated: ${job.label}`);
                     } else if (code === 0) {
-                        this.outputManager.appendLine(`Command executed successfully (exit code: ${code})`);
+                        output.appendLine(`Command executed successfully (exit code: ${code})`);
                         
                         // Check if compile_commands.json was updated
                         const afterStats = this.getFileStats(compileCommandsPath);
                         if (this.isCompileCommandsUpdated(beforeStats, afterStats)) {
-                            this.outputManager.appendLine(`[Clangd] compile_commands.json has been updated`);
-                            // Local mode: paths are already correct, no /sandbox replacement needed
-                            await this.restartClangd(compileCommandsPath, false);
+                            output.appendLine(`[Clangd] compile_commands.json has been updated`);
+                            // Local mode: paths are already correct, no container path replacement needed
+                            await this.restartClangd(compileCommandsPath, undefined, output);
                         } else {
-                            vscode.window.showInformationMessage(`Command executed successfully`);
+                            vscode.window.showInformationMessage(`[#${job.id}] Command executed successfully: ${job.label}`);
                         }
                     } else {
-                        this.outputManager.appendLine(`Command execution failed (exit code: ${code})`);
-                        vscode.window.showErrorMessage(`Command failed with exit code: ${code}`);
+                        output.appendLine(`Command execution failed (exit code: ${code})`);
+                        vscode.window.showErrorMessage(`[#${job.id}] Command failed with exit code ${code}: ${job.label}`);
                     }
                     
-                    this.outputManager.appendLine(`----------------------------------------\n`);
-                    this.currentProcess = undefined;
-                    resolve();
+                    output.appendLine(`----------------------------------------\n`);
+                    resolve({ exitCode: code, signal });
                 });
-            });
+            }).finally(() => reporter.dispose());
         });
     }
 
     /**
-     * Stop currently executing command
+     * Stop a job
+     * @param jobId Id of the job to stop
      */
-    stop(): void {
-        if (this.currentProcess) {
-            this.outputManager.appendLine(`\n[Stop] Terminating command execution...`);
-            
-            // Try to terminate process gracefully
-            this.currentProcess.kill('SIGTERM');
-            
-            // Force kill if still running after 3 seconds
-            setTimeout(() => {
-                if (this.currentProcess && !this.currentProcess.killed) {
-                    this.currentProcess.kill('SIGKILL');
-                }
-            }, 3000);
-            
-            this.currentProcess = undefined;
-            vscode.window.showInformationMessage('Command execution stopped');
+    stop(jobId: number): void {
+        const job = this.jobManager.getJob(jobId);
+        if (job && this.jobManager.stop(jobId)) {
+            vscode.window.showInformationMessage(`Command execution stopped: #${job.id} ${job.label}`);
         } else {
-            vscode.window.showInformationMessage('No command is currently running');
+            vscode.window.showInformationMessage(`Job #${jobId} is not running`);
         }
     }
 
     /**
-     * Check if command is running
+     * Check if a job is queued or running
+     * @param jobId Id of the job
      */
-    isRunning(): boolean {
-        return this.currentProcess !== undefined;
+    isRunning(jobId: number): boolean {
+        const job = this.jobManager.getJob(jobId);
+        return job !== undefined && job.isActive();
     }
 
     /**
      * Dispose resources
      */
     dispose(): void {
-        if (this.currentProcess) {
-            this.currentProcess.kill('SIGKILL');
-            this.currentProcess = undefined;
-        }
+        this.jobManager.stopAll();
     }
 
     /**
@@ -529,112 +1108,407 @@ export class DeepRouteCompileCommands {
     }
 
     /**
-     * Replace container path with host path in compile_commands.json
-     * Uses sed command for efficient processing of files of any size
+     * Replace container paths with host paths in compile_commands.json
+     * Streams the database through CompileCommandsRewriter, so files of any size are handled
+     * and an interrupted rewrite never leaves a corrupted file behind
      * @param filePath Path to compile_commands.json
+     * @param pathMapper Mappings to apply (most specific container path first)
+     * @param output Output to log to
      */
-    private replaceCompileCommandsPath(filePath: string): boolean {
+    private async replaceCompileCommandsPath(filePath: string, pathMapper: PathMapper, output: OutputManager): Promise<boolean> {
         try {
-            this.outputManager.appendLine(`[Clangd] Updating real paths in compile_commands.json...`);
+            output.appendLine(`[Clangd] Updating real paths in compile_commands.json...`);
             
             // Check if file exists
             if (!fs.existsSync(filePath)) {
-                this.outputManager.appendLine(`[Clangd] File does not exist: ${filePath}`);
+                output.appendLine(`[Clangd] File does not exist: ${filePath}`);
                 return false;
             }
             
             // Get file size
             const stats = fs.statSync(filePath);
             const fileSizeMB = (stats.size / 1024 / 1024).toFixed(2);
-            this.outputManager.appendLine(`[Clangd] File size: ${fileSizeMB} MB`);
-            
-            // Check if file contains /sandbox to avoid unnecessary replacement
-            const grepResult = child_process.spawnSync('grep', ['-q', '/sandbox', filePath]);
+            output.appendLine(`[Clangd] File size: ${fileSizeMB} MB`);
             
-            if (grepResult.status !== 0) {
-                this.outputManager.appendLine(`[Clangd] No /sandbox path found in file, no replacement needed`);
+            const result = await new CompileCommandsRewriter(pathMapper).rewrite(filePath);
+            const duration = (result.durationMs / 1000).toFixed(2);
+            if (result.replacements === 0) {
+                output.appendLine(`[Clangd] No container path found in ${result.entries} entries, no replacement needed`);
                 return false;
             }
             
-            this.outputManager.appendLine(`[Clangd] Using sed command for path replacement...`);
-            
-            // Count /sandbox occurrences before replacement
-            const countBeforeResult = child_process.spawnSync('grep', ['-o', '/sandbox', filePath], {
-                maxBuffer: 1024 * 1024 * 50
-            });
-            const countBefore = countBeforeResult.stdout.toString().split('\n').filter(line => line.trim()).length;
-            
-            // Use sed for in-place replacement
-            // sed -i 's|/sandbox|actual_path|g' file
-            const sedCommand = `sed -i 's|/sandbox|${this.workspaceRoot}|g' "${filePath}"`;
-            
-            try {
-                const startTime = Date.now();
-                child_process.execSync(sedCommand, {
-                    cwd: this.workspaceRoot,
-                    maxBuffer: 1024 * 1024 * 100, // 100MB buffer
-                    timeout: 120000 // 120 seconds timeout
-                });
-                const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-                
-                this.outputManager.appendLine(`[Clangd] ✅ Path replacement completed (${duration}s, ${countBefore} occurrences): /sandbox → ${this.workspaceRoot}`);
-                return true;
-            } catch (sedError: any) {
-                this.outputManager.appendLine(`[Clangd] ❌ sed command failed: ${sedError.message}`);
-                this.outputManager.appendLine(`[Clangd] Hint: Run manually: sed -i 's|/sandbox|${this.workspaceRoot}|g' ${filePath}`);
-                return false;
-            }
+            const fieldCounts = Object.entries(result.fields)
+                .filter(([, count]) => count > 0)
+                .map(([field, count]) => `${field}: ${count}`)
+                .join(', ');
+            output.appendLine(`[Clangd] ✅ Path replacement completed (${duration}s, ${result.entries} entries, ${result.replacements} paths — ${fieldCounts}):`);
+            pathMapper.getMappings()
+                .filter(m => m.containerPath !== m.hostPath)
+                .forEach(m => output.appendLine(`[Clangd]   ${m.containerPath} → ${m.hostPath}`));
+            output.appendLine(`[Clangd] Backup of the original: ${result.backupPath}`);
+            return true;
         } catch (error: any) {
-            this.outputManager.appendLine(`[Clangd] ❌ Path replacement failed: ${error.message}`);
+            output.appendLine(`[Clangd] ❌ Path replacement failed: ${error.message}`);
             return false;
         }
     }
 
     /**
-     * Restart clangd language server
+     * Fix paths in an updated compile_commands.json, merge module databases and reload the language server
+     * Updates are queued, so a command and the file watcher never rewrite the same database at once
      * @param compileCommandsPath Path to compile_commands.json
-     * @param isDockerMode Whether the command was executed in Docker container
-     *                     - true:  Docker mode, /sandbox paths need to be replaced with host paths
-     *                     - false: Local mode, paths are already correct, no replacement needed
+     * @param pathMapper Path mappings of the container the command was executed in
+     *                   - set:       Docker mode, container paths need to be replaced with host paths
+     *                   - undefined: Local mode, paths are already correct, no replacement needed
+     * @param output Output to log to
+     */
+    private async restartClangd(compileCommandsPath: string, pathMapper: PathMapper | undefined, output: OutputManager): Promise<void> {
+        const update = this.updateQueue.then(() => this.updateCompileCommands(compileCommandsPath, pathMapper, output));
+        this.updateQueue = update.catch(() => undefined);
+        return update;
+    }
+
+    /**
+     * Update a database that changed outside of a command of this extension (file watcher)
+     * Paths are mapped with the default profile, as the database is assumed to come from its container.
+     * Databases in the working directory of a running command are left to that command
+     * @param compileCommandsPath Path to the changed compile_commands.json
+     */
+    async updateChangedCompileCommands(compileCommandsPath: string): Promise<void> {
+        if (this.isUpToDate(compileCommandsPath)) {
+            return;
+        }
+
+        // A running command writes this database: it updates it with the path mappings of its own
+        // profile once it succeeds, which may differ from those of the default profile
+        const relativePath = path.relative(this.workspaceRoot, compileCommandsPath) || compileCommandsPath;
+        const writer = this.jobManager.getActiveJobs().find(job =>
+            job.status === JobStatus.RUNNING && path.join(this.resolveHostWorkDir(job.cwd), 'compile_commands.json') === compileCommandsPath);
+        if (writer) {
+            this.outputManager.appendLine(`\n[Watch] ${relativePath} changed while job #${writer.id} runs in its directory, leaving the update to the job`);
+            return;
+        }
+
+        this.outputManager.appendLine(`\n[Watch] ${relativePath} changed outside of a command`);
+        await this.restartClangd(compileCommandsPath, this.getDefaultPathMapper(), this.outputManager);
+    }
+
+    /**
+     * Whether a database still has the mtime the last update left it with
+     */
+    private isUpToDate(filePath: string): boolean {
+        const stats = this.getFileStats(filePath);
+        return stats.exists && stats.mtime!.getTime() === this.updatedMtimes.get(filePath);
+    }
+
+    /**
+     * Remember the mtime of a database written (or checked) by an update
+     */
+    private markUpdated(filePath: string): void {
+        const stats = this.getFileStats(filePath);
+        if (stats.exists) {
+            this.updatedMtimes.set(filePath, stats.mtime!.getTime());
+        }
+    }
+
+    /**
+     * Workspace root as seen by commands of the default profile (a container or remote path)
+     * @returns undefined when executing locally or when the workspace root is not mapped
+     */
+    getDefaultTargetRoot(): { root: string; target: string } | undefined {
+        const profile = ContainerProfiles.getDefault();
+        const root = this.getDefaultPathMapper()?.toContainer(this.workspaceRoot);
+        return profile && root ? { root, target: describeProfileTarget(profile) } : undefined;
+    }
+
+    /**
+     * Path mappings used for databases not produced by a command of this extension:
+     * those of the default profile, or none when executing locally
      */
-    private async restartClangd(compileCommandsPath: string, isDockerMode: boolean): Promise<void> {
+    private getDefaultPathMapper(): PathMapper | undefined {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        if (config.get<boolean>('executeLocally', false)) {
+            return undefined;
+        }
+
+        const profile = ContainerProfiles.getDefault();
+        if (profile?.ssh) {
+            return this.getSshPathMapper(profile);
+        }
+        return PathMapper.forContainer(profile?.container?.trim(), this.workspaceRoot, profile?.pathMappings);
+    }
+
+    /**
+     * Path mappings of a remote build host: the profile mappings, or workspace root ↔ ssh.remoteRoot
+     */
+    private getSshPathMapper(profile: ContainerProfile): PathMapper {
+        return new PathMapper(profile.pathMappings || [{ hostPath: this.workspaceRoot, containerPath: profile.ssh!.remoteRoot.trim() }]);
+    }
+
+    private async updateCompileCommands(compileCommandsPath: string, pathMapper: PathMapper | undefined, output: OutputManager): Promise<void> {
+        // Already handled, e.g. by the file watcher while the command was still running
+        if (this.isUpToDate(compileCommandsPath)) {
+            output.appendLine(`[Clangd] compile_commands.json is already up to date, skipping`);
+            return;
+        }
+
         try {
-            this.outputManager.appendLine(`[Clangd] Preparing to reload compile_commands.json and index C++ symbols...`);
+            output.appendLine(`[Clangd] Preparing to reload compile_commands.json and index C++ symbols...`);
             
-            // Only replace /sandbox paths in Docker mode
+            // Only replace container paths in Docker mode
             // In local mode, paths in compile_commands.json are already correct host paths
-            if (isDockerMode) {
-                this.outputManager.appendLine(`[Clangd] Docker mode: replacing /sandbox paths with host paths...`);
-                this.replaceCompileCommandsPath(compileCommandsPath);
+            if (pathMapper) {
+                output.appendLine(`[Clangd] Docker mode: replacing container paths with host paths...`);
+                await this.replaceCompileCommandsPath(compileCommandsPath, pathMapper, output);
+                this.markUpdated(compileCommandsPath);
             } else {
-                this.outputManager.appendLine(`[Clangd] Local mode: paths are already correct, skipping /sandbox replacement`);
+                output.appendLine(`[Clangd] Local mode: paths are already correct, skipping container path replacement`);
+                this.markUpdated(compileCommandsPath);
             }
-            
-            // Check available clangd commands
-            const allCommands = await vscode.commands.getCommands();
-            const clangdCommands = allCommands.filter(cmd => cmd.startsWith('clangd'));
-            
-            if (clangdCommands.length === 0) {
-                this.outputManager.appendLine(`[Clangd] ⚠️  clangd extension not detected, cannot auto-restart language server`);
-                this.outputManager.appendLine(`[Clangd] Hint: Please manually execute "clangd: Restart language server" command`);
-                vscode.window.showWarningMessage('clangd extension not detected. Please restart clangd manually or install the clangd extension');
+
+            // Merge module databases into the workspace database; the language server then uses the merged one
+            let languageServerDatabase = compileCommandsPath;
+            if (CompileCommandsMerger.getModules().length > 0) {
+                languageServerDatabase = await this.mergeCompileCommands(pathMapper, output) || compileCommandsPath;
+            }
+
+            await this.recordCompileCommandsChanges(compileCommandsPath, output);
+            await this.configureClangd(languageServerDatabase, output);
+            await this.restartLanguageServer(languageServerDatabase, output);
+        } catch (error: any) {
+            output.appendLine(`[Clangd] ❌ Failed to update compile_commands.json: ${error.message}`);
+        }
+    }
+
+    /**
+     * Merge and reload the language server on demand (command palette)
+     * Container paths are mapped with the path mappings of the default profile unless executing locally
+     */
+    async mergeCompileCommandsNow(): Promise<void> {
+        if (CompileCommandsMerger.getModules().length === 0) {
+            vscode.window.showWarningMessage('No module directories configured in "deeproute-compile-commands.compileCommandsModules"');
+            return;
+        }
+
+        const pathMapper = this.getDefaultPathMapper();
+
+        this.outputManager.show(true);
+        const mergedPath = await this.mergeCompileCommands(pathMapper, this.outputManager);
+        if (mergedPath) {
+            await this.configureClangd(mergedPath, this.outputManager);
+            await this.restartLanguageServer(mergedPath, this.outputManager);
+        }
+    }
+
+    /**
+     * Merge the databases of the configured module directories
+     * @returns Path of the merged database, undefined if the merge failed
+     */
+    private async mergeCompileCommands(pathMapper: PathMapper | undefined, output: OutputManager): Promise<string | undefined> {
+        const merger = new CompileCommandsMerger(this.workspaceRoot);
+        output.appendLine(`[Merge] Merging module databases into ${merger.getOutputPath()}...`);
+        try {
+            const result = await merger.merge(pathMapper);
+            this.markUpdated(result.outputPath);
+            result.sources.forEach(source => {
+                output.appendLine(`[Merge]   ${source.module}: ${source.used}/${source.entries} entries`);
+            });
+            result.missing.forEach(module => {
+                output.appendLine(`[Merge]   ${module}: ⚠️  no compile_commands.json`);
+            });
+            const duration = (result.durationMs / 1000).toFixed(2);
+            output.appendLine(`[Merge] ✅ ${result.entries} entries written, ${result.duplicates} duplicates dropped (${duration}s)`);
+            return result.outputPath;
+        } catch (error: any) {
+            output.appendLine(`[Merge] ❌ Merge failed, previous merged database kept: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the snapshot history, or undefined if disabled (compileCommandsHistorySize is 0)
+     */
+    private getHistory(): CompileCommandsHistory | undefined {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const limit = config.get<number>('compileCommandsHistorySize', 10);
+        return this.historyDir && limit > 0 ? new CompileCommandsHistory(this.historyDir, limit) : undefined;
+    }
+
+    /**
+     * Snapshot the regenerated database and log what changed since the previous regeneration
+     * @param compileCommandsPath Path to compile_commands.json (after path replacement)
+     * @param output Output to log to
+     */
+    private async recordCompileCommandsChanges(compileCommandsPath: string, output: OutputManager): Promise<void> {
+        const history = this.getHistory();
+        if (!history || !fs.existsSync(compileCommandsPath)) {
+            return;
+        }
+
+        try {
+            const snapshot = await history.record(compileCommandsPath);
+            const diff = snapshot.diff;
+            if (!diff) {
+                output.appendLine(`[Diff] First snapshot of ${compileCommandsPath} saved (${snapshot.entries} entries), changes are shown from the next regeneration`);
                 return;
             }
-            
-            // Execute clangd restart command
-            this.outputManager.appendLine(`[Clangd] Executing VS Code/Cursor command: clangd: Restart language server, please wait...`);
-            await vscode.commands.executeCommand('clangd.restart');
-            
-            this.outputManager.appendLine(`[Clangd] ✅ clangd.restart command sent successfully`);
-            this.outputManager.appendLine(`[Clangd] clangd is reloading compile_commands.json and indexing C++ symbols in background...`);
-            this.outputManager.appendLine(`[Clangd] Hint: Indexing may take seconds to minutes, check VS Code/Cursor status bar (bottom right)`);
-            
-            vscode.window.showInformationMessage('✅ compile_commands.json updated, clangd is re-indexing (check status bar)');
+
+            const previous = snapshot.previousId ? history.get(compileCommandsPath, snapshot.previousId) : undefined;
+            const since = previous ? new Date(previous.timestamp).toLocaleString() : 'previous snapshot';
+            if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+                output.appendLine(`[Diff] No changes since ${since} (${snapshot.entries} entries)`);
+                return;
+            }
+
+            const categories = (Object.keys(diff.categories) as FlagCategory[])
+                .filter(category => diff.categories[category] > 0)
+                .map(category => `${FLAG_CATEGORY_LABELS[category]}: ${diff.categories[category]}`)
+                .join(', ');
+            output.appendLine(`[Diff] Changes since ${since}: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} with changed flags${categories ? ` (${categories})` : ''}`);
+
+            const maxLines = 10;
+            const logFiles = (prefix: string, files: string[]) => {
+                files.slice(0, maxLines).forEach(file => output.appendLine(`[Diff]   ${prefix} ${path.relative(this.workspaceRoot, file)}`));
+                if (files.length > maxLines) {
+                    output.appendLine(`[Diff]   ... ${files.length - maxLines} more`);
+                }
+            };
+            logFiles('+', diff.added);
+            logFiles('-', diff.removed);
+            logFiles('~', diff.changed.map(c => `${c.file} (${c.categories.map(category => FLAG_CATEGORY_LABELS[category]).join(', ')})`));
+            output.appendLine(`[Diff] Run "Show compile_commands.json Changes" to compare the flags of a file side by side`);
+        } catch (error: any) {
+            output.appendLine(`[Diff] ⚠️  Failed to snapshot compile_commands.json: ${error.message}`);
+        }
+    }
+
+    /**
+     * Let the user pick a regeneration and a file, then open its flags before/after side by side
+     */
+    async showCompileCommandsChanges(): Promise<void> {
+        const history = this.getHistory();
+        if (!history) {
+            vscode.window.showWarningMessage('compile_commands.json history is disabled ("deeproute-compile-commands.compileCommandsHistorySize" is 0)');
+            return;
+        }
+
+        const snapshots = history.list().filter(snapshot => snapshot.diff);
+        if (snapshots.length === 0) {
+            vscode.window.showInformationMessage('No compile_commands.json changes recorded yet. Changes are recorded from the second regeneration on');
+            return;
+        }
+
+        const selectedSnapshot = await vscode.window.showQuickPick(
+            snapshots.map(snapshot => ({
+                label: new Date(snapshot.timestamp).toLocaleString(),
+                description: path.relative(this.workspaceRoot, snapshot.databasePath) || snapshot.databasePath,
+                detail: `$(add) ${snapshot.diff!.added.length}  $(remove) ${snapshot.diff!.removed.length}  $(diff) ${snapshot.diff!.changed.length}  ·  ${snapshot.entries} entries`,
+                snapshot
+            })),
+            { placeHolder: 'Select a regeneration of compile_commands.json' }
+        );
+        if (!selectedSnapshot) {
+            return;
+        }
+
+        const snapshot = selectedSnapshot.snapshot;
+        const diff = snapshot.diff!;
+        const toItem = (file: string, icon: string, description: string) => ({
+            label: `${icon} ${path.relative(this.workspaceRoot, file)}`,
+            description,
+            file
+        });
+        const items = [
+            ...diff.changed.map(c => toItem(c.file, '$(diff)', c.categories.map(category => FLAG_CATEGORY_LABELS[category]).join(', '))),
+            ...diff.added.map(file => toItem(file, '$(add)', 'added')),
+            ...diff.removed.map(file => toItem(file, '$(remove)', 'removed'))
+        ];
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No translation unit changed in this regeneration');
+            return;
+        }
+
+        const selectedFile = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a file to compare its flags',
+            matchOnDescription: true
+        });
+        if (!selectedFile) {
+            return;
+        }
+
+        const previous = snapshot.previousId ? history.get(snapshot.databasePath, snapshot.previousId) : undefined;
+        try {
+            const before = previous ? await history.readEntry(previous, selectedFile.file) : undefined;
+            const after = await history.readEntry(snapshot, selectedFile.file);
+
+            // The views are written next to the snapshot so they are pruned with it
+            const viewDir = path.join(history.getSnapshotDir(snapshot), 'view');
+            fs.mkdirSync(viewDir, { recursive: true });
+            const baseName = path.basename(selectedFile.file);
+            const beforePath = path.join(viewDir, `${baseName}.before.txt`);
+            const afterPath = path.join(viewDir, `${baseName}.after.txt`);
+            fs.writeFileSync(beforePath, formatCompileFlags(before));
+            fs.writeFileSync(afterPath, formatCompileFlags(after));
+
+            const beforeTime = previous ? new Date(previous.timestamp).toLocaleString() : 'previous';
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                vscode.Uri.file(beforePath),
+                vscode.Uri.file(afterPath),
+                `${baseName}: ${beforeTime} ↔ ${new Date(snapshot.timestamp).toLocaleString()}`
+            );
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to read compile_commands.json snapshot: ${error.message}`);
+        }
+    }
+
+    /**
+     * Point clangd at the database that was just written (.clangd or clangd.arguments, see clangdConfig setting)
+     * @param compileCommandsPath Database clangd should use
+     * @param output Output to log to
+     */
+    private async configureClangd(compileCommandsPath: string, output: OutputManager): Promise<void> {
+        try {
+            const change = await new ClangdConfig(this.workspaceRoot).apply(compileCommandsPath);
+            if (change) {
+                output.appendLine(`[Clangd] Database configured: ${change}`);
+            }
+        } catch (error: any) {
+            output.appendLine(`[Clangd] ⚠️  Failed to configure the clangd database: ${error.message}`);
+        }
+    }
+
+    /**
+     * Reload the language server (clangd, cpptools, ccls or a configured command) so it picks up the database
+     * @param compileCommandsPath Database the language server should use
+     * @param output Output to log to
+     */
+    private async restartLanguageServer(compileCommandsPath: string, output: OutputManager): Promise<void> {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const kind = config.get<LanguageServerKind>('languageServer', 'auto');
+        if (kind === 'none') {
+            output.appendLine(`[LanguageServer] Language server reload disabled ("deeproute-compile-commands.languageServer" is none)`);
+            return;
+        }
+
+        const server = await LanguageServers.resolve();
+        if (!server || !await server.isAvailable()) {
+            const name = server ? server.name : 'clangd, C/C++ (cpptools) or ccls';
+            output.appendLine(`[LanguageServer] ⚠️  ${name} not detected, cannot reload the language server automatically`);
+            output.appendLine(`[LanguageServer] Hint: Please reload the language server manually, or set "deeproute-compile-commands.languageServer"`);
+            vscode.window.showWarningMessage(`${name} not detected. Please reload the language server manually or install its extension`);
+            return;
+        }
+
+        try {
+            await server.reload(compileCommandsPath, output);
+            output.appendLine(`[LanguageServer] Hint: Indexing may take seconds to minutes, check VS Code/Cursor status bar (bottom right)`);
+            vscode.window.showInformationMessage(`✅ compile_commands.json updated, ${server.name} is re-indexing (check status bar)`);
         } catch (error: any) {
-            // If clangd command doesn't exist or execution failed
-            this.outputManager.appendLine(`[Clangd] ❌ Failed to restart language server: ${error.message || 'Command execution failed'}`);
-            this.outputManager.appendLine(`[Clangd] Hint: Please manually execute "clangd: Restart language server" command`);
-            vscode.window.showErrorMessage(`clangd restart failed: ${error.message || 'Unknown error'}`);
+            // If the command doesn't exist or execution failed
+            output.appendLine(`[LanguageServer] ❌ Failed to reload ${server.name}: ${error.message || 'Command execution failed'}`);
+            output.appendLine(`[LanguageServer] Hint: Please reload the language server manually`);
+            vscode.window.showErrorMessage(`${server.name} reload failed: ${error.message || 'Unknown error'}`);
         }
     }
 
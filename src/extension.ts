@@ -1,28 +1,93 @@
 import * as vscode from 'vscode';
-import { DeepRouteCompileCommands } from './deepRouteCompileCommands';
+import { DeepRouteCompileCommands, ExecuteOptions } from './deepRouteCompileCommands';
 import { OutputManager } from './outputManager';
-import { CommandTreeProvider, CommandConfig } from './commandTreeProvider';
+import { CommandTreeProvider, CommandConfig, CommandInput } from './commandTreeProvider';
+import { COMMAND_FILE, CommandSource, CommandStore } from './commandStore';
+import { CommandEditor } from './commandEditor';
+import { JobManager, Presentation, RunPolicy, toRunPolicy } from './jobManager';
+import { PipelineRunner } from './pipelineRunner';
+import { BuildDiagnostics } from './buildDiagnostics';
+import { VariableResolver } from './variableResolver';
+import { CompileCommandsWatcher } from './compileCommandsWatcher';
+import { CompileCommandsStaleDetector } from './compileCommandsStaleDetector';
+import { RunRecordStore } from './runRecordStore';
+import { JobStatusBar } from './jobStatusBar';
+import { BuildAnalyticsPanel, exportRunRecordsCsv } from './buildAnalytics';
+import { ContainerProfiles, ProfileStatusBar, describeProfileTarget } from './containerProfiles';
 
 let deepRouteCompileCommands: DeepRouteCompileCommands | undefined;
 let outputManager: OutputManager | undefined;
+let jobManager: JobManager | undefined;
+let pipelineRunner: PipelineRunner | undefined;
+let variableResolver: VariableResolver | undefined;
 let treeProvider: CommandTreeProvider | undefined;
+let staleDetector: CompileCommandsStaleDetector | undefined;
+let runRecordStore: RunRecordStore | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Cursor DeepRoute Compile Commands activated');
 
     // Initialize output manager
     outputManager = new OutputManager();
+
+    // Initialize job manager (runs commands concurrently, queues the rest)
+    // Output of each run is saved under global storage so history can reopen it
+    jobManager = new JobManager(vscode.Uri.joinPath(context.globalStorageUri, 'logs').fsPath);
     
+    // Predefined commands come from .vscode/deeproute-commands.json and the user setting
+    context.subscriptions.push(CommandStore.watch());
+
+    // Keep every finished run (durations for the ETA of running builds)
+    runRecordStore = new RunRecordStore(context.globalState, jobManager);
+    context.subscriptions.push(runRecordStore);
+
     // Initialize DeepRoute Compile Commands
     const workspaceRoot = getWorkspaceRoot();
     if (workspaceRoot) {
-        deepRouteCompileCommands = new DeepRouteCompileCommands(workspaceRoot, outputManager);
+        // Snapshots of compile_commands.json are kept under global storage to show what changed
+        deepRouteCompileCommands = new DeepRouteCompileCommands(
+            workspaceRoot,
+            outputManager,
+            jobManager,
+            vscode.Uri.joinPath(context.globalStorageUri, 'compile-commands').fsPath,
+            runRecordStore
+        );
+    }
+
+    // Update compile_commands.json regenerated outside of the extension (when enabled)
+    if (workspaceRoot && deepRouteCompileCommands) {
+        const executor = deepRouteCompileCommands;
+        context.subscriptions.push(new CompileCommandsWatcher(workspaceRoot, filePath => executor.updateChangedCompileCommands(filePath)));
+    }
+
+    // Show when compile_commands.json is older than the build inputs it was generated from
+    if (workspaceRoot) {
+        staleDetector = new CompileCommandsStaleDetector(workspaceRoot);
+        context.subscriptions.push(staleDetector);
     }
 
+    // Parse compiler/CMake diagnostics from job output into the Problems panel
+    const buildDiagnostics = new BuildDiagnostics(jobManager);
+    context.subscriptions.push(buildDiagnostics);
+
+    // Show the running command in the status bar (click for stop, show output, rerun)
+    const jobStatusBar = new JobStatusBar(jobManager);
+    context.subscriptions.push(jobStatusBar);
+
+    // Show the default container profile in the status bar (click to switch)
+    context.subscriptions.push(new ProfileStatusBar());
+
+    // Initialize variable resolver (${input:...}, ${env:...}, ${workspaceFolder}, ${cpuCount})
+    variableResolver = new VariableResolver(context, workspaceRoot);
+
+    // Initialize pipeline runner (ordered multi-step sequences)
+    pipelineRunner = new PipelineRunner(jobManager, deepRouteCompileCommands, variableResolver);
+
     // Initialize and register TreeView
-    treeProvider = new CommandTreeProvider(context);
+    treeProvider = new CommandTreeProvider(context, jobManager, pipelineRunner);
     const treeView = vscode.window.createTreeView('deeprouteCommandsList', {
         treeDataProvider: treeProvider,
+        dragAndDropController: treeProvider,
         showCollapseAll: true
     });
 
@@ -54,38 +119,34 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-            const predefinedCommands = config.get<(string | CommandConfig)[]>('predefinedCommands', []);
+            const predefinedCommands = CommandStore.getCommands();
 
             if (predefinedCommands.length === 0) {
-                vscode.window.showInformationMessage('No predefined commands configured. Please add them in settings');
+                vscode.window.showInformationMessage(`No predefined commands configured. Please add them in settings or ${COMMAND_FILE}`);
                 return;
             }
 
             // Convert to QuickPickItem
-            const items = predefinedCommands.map(cmd => {
-                if (typeof cmd === 'string') {
-                    return {
-                        label: cmd,
-                        description: '',
-                        command: cmd,
-                        cwd: undefined
-                    };
-                } else {
-                    // Use alias if available
-                    const displayName = cmd.alias || cmd.command;
-                    return {
-                        label: displayName,
-                        description: cmd.cwd || '',
-                        detail: cmd.alias ? `Actual command: ${cmd.command}` : undefined,  // Show actual command if alias exists
-                        command: cmd.command,
-                        cwd: cmd.cwd
-                    };
-                }
+            const items = predefinedCommands.map(({ config: cmd, source }) => {
+                // Use alias if available
+                const displayName = cmd.alias || cmd.command;
+                return {
+                    label: displayName,
+                    description: [
+                        cmd.group,
+                        cmd.cwd,
+                        ...(cmd.tags || []).map(tag => `#${tag}`),
+                        source === 'workspace' ? 'workspace' : ''
+                    ].filter(Boolean).join(' · '),
+                    detail: cmd.alias ? `Actual command: ${cmd.command}` : undefined,  // Show actual command if alias exists
+                    command: cmd.command,
+                    cwd: cmd.cwd
+                };
             });
 
             const selected = await vscode.window.showQuickPick(items, {
-                placeHolder: 'Select command to execute'
+                placeHolder: 'Select command to execute',
+                matchOnDescription: true  // Search groups and tags too
             });
 
             if (selected) {
@@ -116,22 +177,8 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             // Ask for execution path
-            const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-            const dockerContainer = config.get<string>('dockerContainerName', '');
-            
-            let cwdPrompt: string;
-            if (dockerContainer) {
-                cwdPrompt = 'Enter execution directory (relative to /sandbox in container, leave empty for /sandbox)';
-            } else {
-                const workspaceRoot = getWorkspaceRoot();
-                cwdPrompt = workspaceRoot 
-                    ? `Enter execution directory (relative path, will be joined to ${workspaceRoot}, leave empty for workspace root)`
-                    : 'Enter execution directory (relative to workspace root, leave empty for workspace root)';
-            }
-            
             const cwd = await vscode.window.showInputBox({
-                prompt: cwdPrompt,
-                placeHolder: dockerContainer ? 'e.g.: blc or ./blc or leave empty' : 'e.g.: build or ./build or leave empty',
+                ...getCwdPrompt(),
                 value: ''
             });
 
@@ -147,9 +194,11 @@ export function activate(context: vscode.ExtensionContext) {
     // Register command: Execute command from TreeView
     const executeFromTree = vscode.commands.registerCommand(
         'deeproute-compile-commands.executeFromTree',
-        async (commandOrTreeItem: string | any, cwd?: string) => {
+        async (commandOrTreeItem: string | any, cwd?: string, options?: ExecuteOptions) => {
             // When called from context menu, first param is TreeItem object
             // When called from node click, params are from command.arguments definition
+            // Reruns pass the options of the original run: the command is already resolved and runs
+            // with exactly those settings instead of being looked up among predefined commands
             let actualCommand: string | undefined;
             let actualCwd: string | undefined;
             
@@ -161,20 +210,156 @@ export function activate(context: vscode.ExtensionContext) {
                 // When called from context menu
                 actualCommand = commandOrTreeItem.commandText;
                 actualCwd = commandOrTreeItem.cwd;
+                options = commandOrTreeItem.executeOptions;
             }
             
-            if (actualCommand) {
+            if (actualCommand && options && deepRouteCompileCommands) {
+                await deepRouteCompileCommands.execute(actualCommand, actualCwd, options);
+            } else if (actualCommand) {
                 await executeCommandInternal(actualCommand, actualCwd);
             }
         }
     );
 
-    // Register command: Stop current command
+    // Register command: Stop command
+    // From a job node: stop that job; otherwise pick among queued/running jobs
     const stopCommand = vscode.commands.registerCommand(
         'deeproute-compile-commands.stopCommand',
+        async (treeItem?: any) => {
+            if (!deepRouteCompileCommands || !jobManager) {
+                return;
+            }
+
+            if (treeItem && typeof treeItem.jobId === 'number') {
+                deepRouteCompileCommands.stop(treeItem.jobId);
+                return;
+            }
+
+            const activeJobs = jobManager.getActiveJobs();
+            if (activeJobs.length === 0) {
+                vscode.window.showInformationMessage('No command is currently running');
+                return;
+            }
+
+            if (activeJobs.length === 1) {
+                deepRouteCompileCommands.stop(activeJobs[0].id);
+                return;
+            }
+
+            const items = [
+                {
+                    label: '$(circle-slash) Stop All',
+                    description: `${activeJobs.length} jobs`,
+                    jobId: undefined as number | undefined
+                },
+                ...activeJobs.map(job => ({
+                    label: `#${job.id} ${job.label}`,
+                    description: `${job.status} · ${job.target}`,
+                    jobId: job.id as number | undefined
+                }))
+            ];
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Select job to stop'
+            });
+            if (!selected) {
+                return;
+            }
+
+            if (selected.jobId === undefined) {
+                jobManager.stopAll();
+                vscode.window.showInformationMessage('All jobs stopped');
+            } else {
+                deepRouteCompileCommands.stop(selected.jobId);
+            }
+        }
+    );
+
+    // Register command: Run pipeline
+    // From a pipeline node: run that pipeline; otherwise pick from configured pipelines
+    const runPipeline = vscode.commands.registerCommand(
+        'deeproute-compile-commands.runPipeline',
+        async (treeItem?: any) => {
+            if (!pipelineRunner) {
+                return;
+            }
+
+            const pipelines = PipelineRunner.getPipelines();
+            let pipeline = treeItem && treeItem.pipelineName
+                ? pipelines.find(p => p.name === treeItem.pipelineName)
+                : undefined;
+
+            if (!pipeline) {
+                if (pipelines.length === 0) {
+                    vscode.window.showInformationMessage('No pipelines configured. Please add them in settings');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(
+                    pipelines.map(p => ({
+                        label: p.name,
+                        description: `${(p.steps || []).length} steps`,
+                        pipeline: p
+                    })),
+                    { placeHolder: 'Select pipeline to run' }
+                );
+                if (!selected) {
+                    return;
+                }
+                pipeline = selected.pipeline;
+            }
+
+            await pipelineRunner.run(pipeline);
+        }
+    );
+
+    // Register command: Stop pipeline
+    const stopPipeline = vscode.commands.registerCommand(
+        'deeproute-compile-commands.stopPipeline',
+        (treeItem: any) => {
+            if (pipelineRunner && treeItem && treeItem.pipelineName) {
+                pipelineRunner.stop(treeItem.pipelineName);
+            }
+        }
+    );
+
+    // Register command: Show output of a job
+    const showJobOutput = vscode.commands.registerCommand(
+        'deeproute-compile-commands.showJobOutput',
+        (treeItem: any) => {
+            if (!jobManager || !treeItem || typeof treeItem.jobId !== 'number') {
+                return;
+            }
+            const job = jobManager.getJob(treeItem.jobId);
+            if (job) {
+                job.output.show();
+            }
+        }
+    );
+
+    // Register command: Open saved output of a history run
+    const openHistoryLog = vscode.commands.registerCommand(
+        'deeproute-compile-commands.openHistoryLog',
+        async (treeItem: any) => {
+            if (!treeItem || !treeItem.logFile) {
+                vscode.window.showInformationMessage('No saved output for this run');
+                return;
+            }
+
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.file(treeItem.logFile));
+                await vscode.window.showTextDocument(document, { preview: true });
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Saved output is no longer available: ${error.message}`);
+            }
+        }
+    );
+
+    // Register command: Clear finished jobs
+    const clearFinishedJobs = vscode.commands.registerCommand(
+        'deeproute-compile-commands.clearFinishedJobs',
         () => {
-            if (deepRouteCompileCommands) {
-                deepRouteCompileCommands.stop();
+            if (jobManager) {
+                jobManager.clearFinished();
             }
         }
     );
@@ -183,6 +368,9 @@ export function activate(context: vscode.ExtensionContext) {
     const clearOutput = vscode.commands.registerCommand(
         'deeproute-compile-commands.clearOutput',
         () => {
+            if (jobManager) {
+                jobManager.clearOutputs();
+            }
             if (outputManager) {
                 outputManager.clear();
             }
@@ -228,21 +416,8 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-            const dockerContainer = config.get<string>('dockerContainerName', '');
-            
-            let cwdPrompt: string;
-            if (dockerContainer) {
-                cwdPrompt = 'Enter execution directory (relative to /sandbox in container, leave empty for /sandbox)';
-            } else {
-                const workspaceRoot = getWorkspaceRoot();
-                cwdPrompt = workspaceRoot 
-                    ? `Enter execution directory (relative path, will be joined to ${workspaceRoot}, leave empty for workspace root)`
-                    : 'Enter execution directory (relative to workspace root, leave empty for workspace root)';
-            }
-            
             const cwd = await vscode.window.showInputBox({
-                prompt: cwdPrompt,
-                placeHolder: dockerContainer ? 'e.g.: blc or ./blc or leave empty' : 'e.g.: build or ./build or leave empty',
+                ...getCwdPrompt(),
                 value: ''
             });
 
@@ -283,19 +458,38 @@ export function activate(context: vscode.ExtensionContext) {
             }
             // If global switch is ON, don't set per-command flag (let global control it)
 
-            const commands = config.get<(string | CommandConfig)[]>('predefinedCommands', []);
-            
-            // Check if command already exists
-            const exists = commands.some(cmd => {
-                const cmdText = typeof cmd === 'string' ? cmd : cmd.command;
-                return cmdText === command;
-            });
-            
-            if (exists) {
+            // Check if command already exists (in the workspace command file or user settings)
+            if (CommandStore.find(command)) {
                 vscode.window.showWarningMessage('Command already exists');
                 return;
             }
 
+            // Shared with the team through the repository, or only for this user
+            let source: CommandSource = 'user';
+            if (CommandStore.getFilePath()) {
+                const scope = await vscode.window.showQuickPick(
+                    [
+                        {
+                            label: '$(repo) Workspace',
+                            description: `${COMMAND_FILE}, shared through the repository`,
+                            source: 'workspace' as CommandSource
+                        },
+                        {
+                            label: '$(account) User',
+                            description: 'User settings, available in every workspace',
+                            source: 'user' as CommandSource
+                        }
+                    ],
+                    {
+                        placeHolder: 'Where should the command be saved?'
+                    }
+                );
+                if (!scope) {
+                    return;
+                }
+                source = scope.source;
+            }
+
             // Add new command
             const newCommand: CommandConfig = {
                 command: command,
@@ -303,8 +497,12 @@ export function activate(context: vscode.ExtensionContext) {
                 alias: alias?.trim() || undefined,
                 executeLocally: executeLocally || undefined
             };
-            commands.push(newCommand);
-            await config.update('predefinedCommands', commands, vscode.ConfigurationTarget.Global);
+            try {
+                await CommandStore.add(newCommand, source);
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Cannot add command: ${error.message}`);
+                return;
+            }
             
             const displayName = newCommand.alias || command;
             
@@ -317,6 +515,7 @@ export function activate(context: vscode.ExtensionContext) {
             if (newCommand.cwd) {
                 msg += ` (directory: ${newCommand.cwd})`;
             }
+            msg += `\nSaved in: ${source === 'workspace' ? COMMAND_FILE : 'User settings'}`;
             
             // Show execution mode info
             if (globalExecuteLocally) {
@@ -349,25 +548,56 @@ export function activate(context: vscode.ExtensionContext) {
             );
 
             if (confirm === 'Remove') {
-                const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-                const commands = config.get<(string | CommandConfig)[]>('predefinedCommands', []);
-                
-                // Find and remove command
-                const newCommands = commands.filter(cmd => {
-                    const cmdText = typeof cmd === 'string' ? cmd : cmd.command;
-                    return cmdText !== command;
-                });
-                
-                if (newCommands.length < commands.length) {
-                    await config.update('predefinedCommands', newCommands, vscode.ConfigurationTarget.Global);
-                    vscode.window.showInformationMessage(`Command removed: ${command}`);
-                    
-                    // TreeView will auto-refresh via configuration change listener
+                // Remove from where the command is stored
+                const source: CommandSource | undefined = CommandStore.find(command, treeItem.source)?.source;
+                if (!source) {
+                    vscode.window.showErrorMessage('Command not found');
+                    return;
+                }
+                try {
+                    if (await CommandStore.remove(command, source)) {
+                        vscode.window.showInformationMessage(`Command removed: ${command}`);
+
+                        // TreeView will auto-refresh via command store change listener
+                    }
+                } catch (error: any) {
+                    vscode.window.showErrorMessage(`Cannot remove command: ${error.message}`);
                 }
             }
         }
     );
 
+    // Register command: Edit every field of a command (from the tree, or pick one in the Command Palette)
+    const editCommand = vscode.commands.registerCommand(
+        'deeproute-compile-commands.editCommand',
+        async (treeItem?: any) => {
+            let stored = treeItem && treeItem.commandText ? CommandStore.find(treeItem.commandText, treeItem.source) : undefined;
+            if (!stored) {
+                const commands = CommandStore.getCommands();
+                if (commands.length === 0) {
+                    vscode.window.showInformationMessage('No predefined commands configured');
+                    return;
+                }
+                const selected = await vscode.window.showQuickPick(
+                    commands.map(cmd => ({
+                        label: cmd.config.alias || cmd.config.command,
+                        description: cmd.source,
+                        detail: cmd.config.alias ? cmd.config.command : undefined,
+                        stored: cmd
+                    })),
+                    { placeHolder: 'Select command to edit' }
+                );
+                if (!selected) {
+                    return;
+                }
+                stored = selected.stored;
+            }
+
+            await new CommandEditor(deepRouteCompileCommands, variableResolver).edit(stored);
+            // TreeView will auto-refresh via command store change listener
+        }
+    );
+
     // Register command: Edit command alias
     const editCommandAlias = vscode.commands.registerCommand(
         'deeproute-compile-commands.editCommandAlias',
@@ -377,22 +607,15 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
             const command = treeItem.commandText;
-            const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-            const commands = config.get<(string | CommandConfig)[]>('predefinedCommands', []);
-            
-            // Find current command
-            const currentCommandIndex = commands.findIndex(cmd => {
-                const cmdText = typeof cmd === 'string' ? cmd : cmd.command;
-                return cmdText === command;
-            });
 
-            if (currentCommandIndex === -1) {
+            // Find current command where the clicked item is stored
+            const current = CommandStore.find(command, treeItem.source);
+            if (!current) {
                 vscode.window.showErrorMessage('Command not found');
                 return;
             }
 
-            const currentCommand = commands[currentCommandIndex];
-            const currentAlias = typeof currentCommand === 'string' ? '' : (currentCommand.alias || '');
+            const currentAlias = current.config.alias || '';
 
             // Input new alias
             const newAlias = await vscode.window.showInputBox({
@@ -406,27 +629,21 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            // Update command configuration
-            if (typeof currentCommand === 'string') {
-                // If string format, convert to object format
-                commands[currentCommandIndex] = {
-                    command: currentCommand,
+            // Update command configuration where it is stored (string commands are converted to object format)
+            try {
+                await CommandStore.update(command, current.source, cmd => ({
+                    ...cmd,
                     alias: newAlias.trim() || undefined
-                };
-            } else {
-                // If object format, update alias
-                commands[currentCommandIndex] = {
-                    ...currentCommand,
-                    alias: newAlias.trim() || undefined
-                };
+                }));
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Cannot update alias: ${error.message}`);
+                return;
             }
-
-            await config.update('predefinedCommands', commands, vscode.ConfigurationTarget.Global);
             
             const displayName = newAlias.trim() || command;
             vscode.window.showInformationMessage(`✅ Alias updated: ${displayName}`);
             
-            // TreeView will auto-refresh via configuration change listener
+            // TreeView will auto-refresh via command store change listener
         }
     );
 
@@ -460,8 +677,11 @@ export function activate(context: vscode.ExtensionContext) {
             await config.update('dockerContainerName', trimmedName, vscode.ConfigurationTarget.Global);
 
             if (trimmedName) {
+                const targetRoot = deepRouteCompileCommands?.getDefaultTargetRoot();
                 vscode.window.showInformationMessage(
-                    `✅ Docker mode configured\n🐳 Container name: ${trimmedName}\n\nAll commands will execute in container's /sandbox directory`
+                    `✅ Docker mode configured\n🐳 Container name: ${trimmedName}\n\n` + (targetRoot
+                        ? `Commands of the default profile execute in ${targetRoot.root} (${targetRoot.target})`
+                        : 'The workspace is not mounted into the container: configure deeproute-compile-commands.pathMappings')
                 );
             } else {
                 vscode.window.showInformationMessage(
@@ -509,50 +729,167 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
             
-            const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-            const predefinedCommands = config.get<any[]>('predefinedCommands', []);
-            
-            // Find the command
-            let updated = false;
-            const newCommands = predefinedCommands.map(cmd => {
-                if (typeof cmd === 'string') {
-                    // Convert string to object if matches
-                    if (cmd === treeItem.commandText) {
-                        updated = true;
-                        return {
-                            command: cmd,
-                            executeLocally: true
-                        };
-                    }
-                    return cmd;
-                } else if (cmd.command === treeItem.commandText) {
-                    updated = true;
-                    return {
-                        ...cmd,
-                        executeLocally: !cmd.executeLocally
-                    };
-                }
-                return cmd;
-            });
-            
-            if (updated) {
-                await config.update('predefinedCommands', newCommands, vscode.ConfigurationTarget.Global);
-                
-                // Find the updated command to show status
-                const updatedCmd = newCommands.find(c => 
-                    typeof c === 'object' && c.command === treeItem.commandText
-                );
-                const isLocal = updatedCmd && updatedCmd.executeLocally === true;
-                const mode = isLocal ? 'Local (Host)' : 'Docker Container';
-                const icon = isLocal ? '🖥️' : '🐳';
-                
-                vscode.window.showInformationMessage(
-                    `${icon} Command execution mode: ${mode}\n\nCommand: ${treeItem.commandText}`
+            const current = CommandStore.find(treeItem.commandText, treeItem.source);
+            if (!current) {
+                return;
+            }
+
+            // Update the command where it is stored (string commands are converted to object format)
+            const isLocal = current.config.executeLocally !== true;
+            try {
+                await CommandStore.update(treeItem.commandText, current.source, cmd => ({
+                    ...cmd,
+                    executeLocally: isLocal
+                }));
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Cannot update execution mode: ${error.message}`);
+                return;
+            }
+
+            const mode = isLocal ? 'Local (Host)' : 'Docker Container';
+            const icon = isLocal ? '🖥️' : '🐳';
+
+            vscode.window.showInformationMessage(
+                `${icon} Command execution mode: ${mode}\n\nCommand: ${treeItem.commandText}`
+            );
+
+            // TreeView will auto-refresh via command store change listener
+            // No manual refresh needed to avoid race condition
+        }
+    );
+
+    // Register command: Merge module compile_commands.json databases
+    const mergeCompileCommands = vscode.commands.registerCommand(
+        'deeproute-compile-commands.mergeCompileCommands',
+        async () => {
+            if (!deepRouteCompileCommands) {
+                vscode.window.showErrorMessage('Workspace root not found');
+                return;
+            }
+            await deepRouteCompileCommands.mergeCompileCommandsNow();
+        }
+    );
+
+    // Register command: Compare compile_commands.json with its previous regeneration
+    const showCompileCommandsChanges = vscode.commands.registerCommand(
+        'deeproute-compile-commands.showCompileCommandsChanges',
+        async () => {
+            if (!deepRouteCompileCommands) {
+                vscode.window.showErrorMessage('Workspace root not found');
+                return;
+            }
+            await deepRouteCompileCommands.showCompileCommandsChanges();
+        }
+    );
+
+    // Register command: Regenerate a stale compile_commands.json with its regenerator command
+    const regenerateCompileCommands = vscode.commands.registerCommand(
+        'deeproute-compile-commands.regenerateCompileCommands',
+        async () => {
+            const staleDatabases = staleDetector ? staleDetector.getStaleDatabases() : [];
+            if (staleDatabases.length === 0) {
+                vscode.window.showInformationMessage('compile_commands.json is up to date');
+                return;
+            }
+
+            let stale = staleDatabases[0];
+            if (staleDatabases.length > 1) {
+                const selected = await vscode.window.showQuickPick(
+                    staleDatabases.map(item => ({
+                        label: item.regenerator.alias || item.regenerator.command,
+                        description: vscode.workspace.asRelativePath(item.databasePath),
+                        detail: item.reasons.join(', '),
+                        stale: item
+                    })),
+                    { placeHolder: 'Select compile_commands.json to regenerate' }
                 );
-                
-                // TreeView will auto-refresh via configuration change listener
-                // No manual refresh needed to avoid race condition
+                if (!selected) {
+                    return;
+                }
+                stale = selected.stale;
             }
+
+            await executeCommandInternal(stale.regenerator.command, stale.regenerator.cwd);
+        }
+    );
+
+    // Register command: Quick actions of the job shown in the status bar
+    const showJobActions = vscode.commands.registerCommand(
+        'deeproute-compile-commands.showJobActions',
+        () => jobStatusBar.showActions()
+    );
+
+    // Register command: Build duration analytics dashboard
+    const showBuildAnalytics = vscode.commands.registerCommand(
+        'deeproute-compile-commands.showBuildAnalytics',
+        () => {
+            if (runRecordStore) {
+                BuildAnalyticsPanel.show(runRecordStore);
+            }
+        }
+    );
+
+    // Register command: Export recorded runs as CSV
+    const exportBuildRuns = vscode.commands.registerCommand(
+        'deeproute-compile-commands.exportBuildRuns',
+        async () => {
+            if (runRecordStore) {
+                await exportRunRecordsCsv(runRecordStore);
+            }
+        }
+    );
+
+    // Register command: Select default container profile
+    const selectProfile = vscode.commands.registerCommand(
+        'deeproute-compile-commands.selectProfile',
+        () => ContainerProfiles.selectDefault()
+    );
+
+    // Register command: Set container profile of a predefined command
+    const setCommandProfile = vscode.commands.registerCommand(
+        'deeproute-compile-commands.setCommandProfile',
+        async (treeItem: any) => {
+            if (!treeItem || !treeItem.commandText) {
+                return;
+            }
+
+            const profiles = ContainerProfiles.getProfiles();
+            if (profiles.length === 0) {
+                vscode.window.showInformationMessage('No container profiles configured');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                [
+                    { label: '$(circle-slash) Default profile', description: 'Use the default container profile', name: undefined as string | undefined },
+                    ...profiles.map(profile => ({
+                        label: profile.name,
+                        description: `${describeProfileTarget(profile)}${profile.name === treeItem.profile ? ' (current)' : ''}`,
+                        name: profile.name as string | undefined
+                    }))
+                ],
+                { placeHolder: 'Select container profile for this command' }
+            );
+            if (!selected) {
+                return;
+            }
+
+            const source: CommandSource | undefined = CommandStore.find(treeItem.commandText, treeItem.source)?.source;
+            if (!source) {
+                vscode.window.showErrorMessage('Command not found');
+                return;
+            }
+            try {
+                await CommandStore.update(treeItem.commandText, source, cmd => ({ ...cmd, profile: selected.name }));
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Cannot update container profile: ${error.message}`);
+                return;
+            }
+
+            vscode.window.showInformationMessage(
+                `🐳 Command container profile: ${selected.name || 'default'}\n\nCommand: ${treeItem.commandText}`
+            );
+            // TreeView will auto-refresh via configuration change listener
         }
     );
 
@@ -562,16 +899,30 @@ export function activate(context: vscode.ExtensionContext) {
         executeCustomCommand,
         executeFromTree,
         stopCommand,
+        showJobOutput,
+        openHistoryLog,
+        clearFinishedJobs,
+        runPipeline,
+        stopPipeline,
         clearOutput,
         refreshCommands,
         clearHistory,
         addCommand,
         removeCommand,
+        editCommand,
         editCommandAlias,
         configureDocker,
         toggleExecuteLocally,
         toggleExecuteInContainer,
-        toggleCommandExecuteLocally
+        toggleCommandExecuteLocally,
+        selectProfile,
+        setCommandProfile,
+        mergeCompileCommands,
+        showCompileCommandsChanges,
+        regenerateCompileCommands,
+        showJobActions,
+        showBuildAnalytics,
+        exportBuildRuns
     );
 }
 
@@ -584,38 +935,92 @@ async function executeCommandInternal(command: string, cwd?: string): Promise<vo
         return;
     }
 
-    // Add to history
-    if (treeProvider) {
-        treeProvider.addToHistory(command, cwd);
-    }
-
-    // Check if command has executeLocally flag in predefined commands
-    const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
-    const predefinedCommands = config.get<any[]>('predefinedCommands', []);
-    
+    // Check if command has executeLocally flag in predefined commands (workspace command file or user settings)
     let executeLocally: boolean | undefined = undefined;
+    let alias: string | undefined = undefined;
+    let inputs: CommandInput[] | undefined = undefined;
+    let profile: string | undefined = undefined;
+    let presentation: Presentation | undefined = undefined;
+    let environment: Pick<CommandConfig, 'env' | 'envFile' | 'shell'> = {};
+    let runPolicy: RunPolicy = {};
     
     // Find matching command in predefined commands
-    for (const cmd of predefinedCommands) {
-        if (typeof cmd === 'object' && cmd.command === command) {
-            executeLocally = cmd.executeLocally === true;
-            break;
-        }
+    const predefined = CommandStore.find(command);
+    if (predefined) {
+        const cmd = predefined.config;
+        executeLocally = cmd.executeLocally === true;
+        alias = cmd.alias;
+        inputs = cmd.inputs;
+        profile = cmd.profile;
+        presentation = cmd.presentation;
+        environment = { env: cmd.env, envFile: cmd.envFile, shell: cmd.shell };
+        runPolicy = toRunPolicy(cmd);
     }
 
-    // Execute command
-    await deepRouteCompileCommands.execute(command, cwd, executeLocally);
+    // Resolve ${...} placeholders, prompting for inputs
+    let resolved: { command: string; cwd?: string } | undefined;
+    try {
+        resolved = variableResolver
+            ? await variableResolver.resolve({ command, cwd, inputs })
+            : { command, cwd };
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Cannot resolve command variables: ${error.message}`);
+        return;
+    }
+
+    // User cancelled an input prompt
+    if (!resolved) {
+        return;
+    }
+
+    // Execute command (queued as a job when the concurrency cap is reached)
+    await deepRouteCompileCommands.execute(resolved.command, resolved.cwd, {
+        executeLocally,
+        label: alias,
+        profile,
+        presentation,
+        ...environment,
+        ...runPolicy
+    });
 }
 
 export function deactivate() {
     if (deepRouteCompileCommands) {
         deepRouteCompileCommands.dispose();
     }
+    if (pipelineRunner) {
+        pipelineRunner.dispose();
+    }
+    if (jobManager) {
+        jobManager.dispose();
+    }
     if (outputManager) {
         outputManager.dispose();
     }
 }
 
+/**
+ * Prompt for the execution directory of a command, naming the directory it is relative to
+ * (the workspace root as mapped into the container or onto the remote host of the default profile)
+ */
+function getCwdPrompt(): { prompt: string; placeHolder: string } {
+    const targetRoot = deepRouteCompileCommands?.getDefaultTargetRoot();
+    if (targetRoot) {
+        return {
+            prompt: `Enter execution directory (relative to ${targetRoot.root} in ${targetRoot.target}, leave empty for ${targetRoot.root})`,
+            placeHolder: 'e.g.: blc or ./blc or leave empty'
+        };
+    }
+
+    const workspaceRoot = getWorkspaceRoot();
+    return {
+        prompt: workspaceRoot
+            ? `Enter execution directory (relative path, will be joined to ${workspaceRoot}, leave empty for workspace root)`
+            : 'Enter execution directory (relative to workspace root, leave empty for workspace root)',
+        placeHolder: 'e.g.: build or ./build or leave empty'
+    };
+}
+
 /**
  * Get workspace root directory
  * Supports local workspace and SSH remote workspace
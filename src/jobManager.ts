@@ -0,0 +1,612 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OutputManager, stripAnsiCodes } from './outputManager';
+import { JobTerminal } from './jobTerminal';
+import { ProcessTreeSignaller } from './processTree';
+import { ExecuteOptions } from './deepRouteCompileCommands';
+
+/**
+ * Job lifecycle status
+ */
+export enum JobStatus {
+    QUEUED = 'queued',
+    RUNNING = 'running',
+    SUCCEEDED = 'succeeded',
+    FAILED = 'failed',
+    STOPPED = 'stopped'
+}
+
+/**
+ * Where a job's process runs
+ */
+export type ExecutionMode = 'docker' | 'local' | 'ssh';
+
+/**
+ * How a job's output is presented: output channel (plain text) or integrated terminal (colors, stdin)
+ */
+export type Presentation = 'output' | 'terminal';
+
+/**
+ * Result reported by a job runner once the job has finished
+ */
+export interface JobResult {
+    exitCode: number | null;
+    signal: string | null;
+    error?: string;  // Set when the job failed before or while spawning its process
+}
+
+/**
+ * Timeout, retry and stop policy of a job
+ */
+export interface RunPolicy {
+    timeout?: number;  // Seconds an attempt may run before it is terminated and counted as failed
+    retries?: number;  // Additional attempts after a failed attempt (default 0)
+    retryOn?: number[];  // Exit codes that are retried (any failure, including a timeout, if undefined)
+    killGraceSeconds?: number;  // Seconds between SIGTERM and SIGKILL when stopping (default 3)
+}
+
+/**
+ * Copy only the run policy fields of an object (e.g. execute options or a command definition)
+ */
+export function toRunPolicy(source: RunPolicy): RunPolicy {
+    return {
+        timeout: source.timeout,
+        retries: source.retries,
+        retryOn: source.retryOn,
+        killGraceSeconds: source.killGraceSeconds
+    };
+}
+
+/**
+ * Describe a run policy for output headers and previews
+ * @returns undefined if the policy has no timeout, retries or grace period
+ */
+export function describeRunPolicy(policy: RunPolicy): string | undefined {
+    const parts: string[] = [];
+    if (policy.timeout && policy.timeout > 0) {
+        parts.push(`Timeout: ${policy.timeout}s`);
+    }
+    if (policy.retries && policy.retries > 0) {
+        parts.push(`Retries: ${policy.retries}` + (policy.retryOn ? ` (exit codes ${policy.retryOn.join(', ')})` : ''));
+    }
+    if (policy.killGraceSeconds !== undefined) {
+        parts.push(`Kill grace: ${policy.killGraceSeconds}s`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
+/**
+ * Options describing a job to enqueue
+ */
+export interface JobOptions extends RunPolicy {
+    label: string;
+    command: string;
+    cwd?: string;
+    target: string;  // Human readable execution target, e.g. container name or "Local"
+    mode: ExecutionMode;
+    profile?: string;  // Container profile the job runs in (Docker mode)
+    presentation?: Presentation;  // Defaults to the output channel
+    workDir?: string;  // Working directory as seen by the process (container path in Docker mode)
+    env?: Record<string, string>;  // Variables set for the process (settings, profile and command merged)
+    shell?: string;  // Shell the command runs with (default of the target if undefined)
+    toHostPath?: (p: string) => string;  // Translate a path printed by the process to a host path
+    executeOptions?: ExecuteOptions;  // Options the job was queued with, to rerun it with the same settings
+}
+
+/**
+ * Runs a job and resolves when its process has exited
+ */
+export type JobRunner = (job: Job) => Promise<JobResult>;
+
+/**
+ * A single command execution managed by JobManager
+ */
+export class Job {
+    public status: JobStatus = JobStatus.QUEUED;
+    public process: child_process.ChildProcess | undefined;
+    public startTime?: number;
+    public endTime?: number;
+    public result?: JobResult;
+    public logFile?: string;  // Captured output of the run, kept after the output channel is disposed
+    public onStop?: () => void;  // Set by runners whose process outlives its local client (e.g. over SSH)
+    public processTree?: ProcessTreeSignaller;  // Set by runners whose command starts processes the local process doesn't cover
+    public terminal?: JobTerminal;  // Set when the job runs with the terminal presentation
+    public attempt = 0;  // Current attempt, starting at 1 once running
+    public timedOut = false;  // Whether the current attempt exceeded the timeout
+    public readonly output: OutputManager;
+    public readonly queuedTime = Date.now();
+    private stopRequested = false;
+    // Resolves once the process tree of a terminated attempt has exited
+    private treeTermination?: Promise<void>;
+    // Incomplete last line of output, emitted once its newline arrives
+    private partialLine = '';
+
+    private _onDidWriteLine: vscode.EventEmitter<string> = new vscode.EventEmitter<string>();
+    // Fires for every complete output line, with ANSI codes stripped
+    readonly onDidWriteLine: vscode.Event<string> = this._onDidWriteLine.event;
+
+    constructor(
+        public readonly id: number,
+        public readonly options: JobOptions,
+        public readonly runner: JobRunner
+    ) {
+        this.output = new OutputManager(`DeepRoute #${id}: ${options.label}`);
+    }
+
+    get label(): string {
+        return this.options.label;
+    }
+
+    get command(): string {
+        return this.options.command;
+    }
+
+    get cwd(): string | undefined {
+        return this.options.cwd;
+    }
+
+    get target(): string {
+        return this.options.target;
+    }
+
+    /**
+     * Write process output to the job output and emit complete lines
+     */
+    write(text: string): void {
+        this.output.append(text);
+
+        const lines = (this.partialLine + stripAnsiCodes(text)).split(/\r?\n/);
+        this.partialLine = lines.pop() || '';
+        lines.forEach(line => this._onDidWriteLine.fire(line));
+    }
+
+    /**
+     * Emit the remaining partial line, called once the process has exited
+     */
+    flush(): void {
+        if (this.partialLine) {
+            this._onDidWriteLine.fire(this.partialLine);
+            this.partialLine = '';
+        }
+    }
+
+    /**
+     * Open the integrated terminal for this job and mirror its output there
+     * Keyboard input is forwarded to the process; closing the terminal stops the job
+     */
+    openTerminal(): void {
+        this.terminal = new JobTerminal(
+            `DeepRoute #${this.id}: ${this.label}`,
+            data => this.process?.stdin?.write(data),
+            () => this.stop()
+        );
+        this.output.attachTerminal(this.terminal);
+    }
+
+    /**
+     * Dispose output channel and event emitters
+     */
+    dispose(): void {
+        this.output.dispose();
+        this._onDidWriteLine.dispose();
+    }
+
+    /**
+     * Whether stop() has been called for this job or the current attempt timed out
+     * Runners check this before spawning so a job stopped during pre-checks never starts
+     */
+    get isStopRequested(): boolean {
+        return this.stopRequested || this.timedOut;
+    }
+
+    /**
+     * Whether stop() has been called for this job (a timeout does not count)
+     */
+    get isStoppedByUser(): boolean {
+        return this.stopRequested;
+    }
+
+    /**
+     * Seconds between SIGTERM and SIGKILL when the job is stopped
+     */
+    get killGraceSeconds(): number {
+        const grace = this.options.killGraceSeconds;
+        return grace !== undefined && grace >= 0 ? grace : 3;
+    }
+
+    /**
+     * Whether the job is queued or running
+     */
+    isActive(): boolean {
+        return this.status === JobStatus.QUEUED || this.status === JobStatus.RUNNING;
+    }
+
+    /**
+     * Elapsed run time in milliseconds (0 while queued)
+     */
+    getElapsed(): number {
+        if (!this.startTime) {
+            return 0;
+        }
+        return (this.endTime ?? Date.now()) - this.startTime;
+    }
+
+    /**
+     * Stop this job
+     * Queued jobs are dropped, running jobs get SIGTERM followed by SIGKILL after killGraceSeconds
+     * (every process of the command where the runner tracks them, see processTree)
+     */
+    stop(): void {
+        this.stopRequested = true;
+        if (this.process) {
+            this.output.appendLine(`\n[Stop] Terminating command execution...`);
+            this.terminate();
+        }
+    }
+
+    /**
+     * Terminate the current attempt because it exceeded the timeout
+     * The job fails (or is retried) instead of being marked as stopped
+     */
+    timeOut(): void {
+        this.timedOut = true;
+        this.output.appendLine(`\n[Timeout] Attempt ${this.attempt} exceeded ${this.options.timeout}s, terminating...`);
+        if (this.process) {
+            this.terminate();
+        }
+    }
+
+    /**
+     * Send SIGTERM to the process, followed by SIGKILL if it is still running after the grace period
+     */
+    private terminate(): void {
+        const proc = this.process;
+        if (!proc) {
+            return;
+        }
+
+        if (this.onStop) {
+            this.onStop();
+        }
+        if (this.processTree && !this.treeTermination) {
+            this.treeTermination = this.terminateTree(this.processTree);
+        }
+        proc.kill('SIGTERM');
+
+        setTimeout(() => {
+            if (proc.exitCode === null && proc.signalCode === null) {
+                proc.kill('SIGKILL');
+            }
+        }, this.killGraceSeconds * 1000);
+    }
+
+    /**
+     * Send SIGTERM to every process of the command, SIGKILL to those still running after the
+     * grace period, and report in the output whether all of them exited
+     */
+    private async terminateTree(tree: ProcessTreeSignaller): Promise<void> {
+        const grace = this.killGraceSeconds;
+        const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+        try {
+            let running = await tree('SIGTERM');
+            const deadline = Date.now() + grace * 1000;
+            while (running > 0 && Date.now() < deadline) {
+                await sleep(500);
+                running = await tree();
+            }
+            if (running > 0) {
+                this.output.appendLine(`[Stop] ${running} process(es) still running after ${grace}s, sending SIGKILL...`);
+                await tree('SIGKILL');
+                await sleep(500);
+                running = await tree();
+            }
+            this.output.appendLine(running === 0
+                ? '[Stop] ✅ All processes of the command have exited'
+                : `[Stop] ⚠️ ${running} process(es) of the command are still running`);
+        } catch (error: any) {
+            this.output.appendLine(`[Stop] ⚠️ Cannot check the processes of the command: ${error.message}`);
+        }
+    }
+
+    /**
+     * Wait until the process tree of a terminated attempt has exited, so the next attempt or
+     * job doesn't collide with leftover processes
+     */
+    async waitForTermination(): Promise<void> {
+        if (this.treeTermination) {
+            await this.treeTermination;
+            this.treeTermination = undefined;
+        }
+        this.processTree = undefined;
+        this.onStop = undefined;
+    }
+}
+
+/**
+ * Runs commands concurrently up to a configurable cap and queues the rest
+ */
+export class JobManager implements vscode.Disposable {
+    private _onDidChangeJobs: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeJobs: vscode.Event<void> = this._onDidChangeJobs.event;
+
+    private _onDidStartJob: vscode.EventEmitter<Job> = new vscode.EventEmitter<Job>();
+    readonly onDidStartJob: vscode.Event<Job> = this._onDidStartJob.event;
+
+    private _onDidFinishJob: vscode.EventEmitter<Job> = new vscode.EventEmitter<Job>();
+    readonly onDidFinishJob: vscode.Event<Job> = this._onDidFinishJob.event;
+
+    private jobs: Job[] = [];
+    private nextId = 1;
+    private logDir: string | undefined;
+    // Finished jobs kept in the list (and their output channels) before being disposed
+    private maxFinishedJobs = 10;
+
+    /**
+     * @param logDir Directory for captured job output (optional, no logs are kept if omitted)
+     */
+    constructor(logDir?: string) {
+        if (logDir) {
+            try {
+                fs.mkdirSync(logDir, { recursive: true });
+                this.logDir = logDir;
+            } catch (error) {
+                // Run without log capture
+            }
+        }
+    }
+
+    /**
+     * Add a job to the queue and start it as soon as a slot is free
+     */
+    enqueue(options: JobOptions, runner: JobRunner): Job {
+        const job = new Job(this.nextId++, options, runner);
+        this.jobs.push(job);
+        this._onDidChangeJobs.fire();
+        this.pump();
+        return job;
+    }
+
+    /**
+     * Wait for a job to finish
+     */
+    waitForJob(job: Job): Promise<Job> {
+        if (!job.isActive()) {
+            return Promise.resolve(job);
+        }
+        return new Promise<Job>(resolve => {
+            const listener = this.onDidFinishJob(finished => {
+                if (finished === job) {
+                    listener.dispose();
+                    resolve(job);
+                }
+            });
+        });
+    }
+
+    /**
+     * Get all known jobs, oldest first
+     */
+    getJobs(): Job[] {
+        return [...this.jobs];
+    }
+
+    /**
+     * Get queued and running jobs
+     */
+    getActiveJobs(): Job[] {
+        return this.jobs.filter(job => job.isActive());
+    }
+
+    /**
+     * Get job by id
+     */
+    getJob(id: number): Job | undefined {
+        return this.jobs.find(job => job.id === id);
+    }
+
+    /**
+     * Find an active job running the same command in the same directory
+     */
+    findActiveJob(command: string, cwd?: string): Job | undefined {
+        return this.jobs.find(job => job.isActive() && job.command === command && job.cwd === cwd);
+    }
+
+    /**
+     * Stop a job by id
+     * @returns false if the job does not exist or is not active
+     */
+    stop(id: number): boolean {
+        const job = this.getJob(id);
+        if (!job || !job.isActive()) {
+            return false;
+        }
+
+        if (job.status === JobStatus.QUEUED) {
+            job.stop();
+            this.finish(job, JobStatus.STOPPED, { exitCode: null, signal: null });
+            return true;
+        }
+
+        job.stop();
+        return true;
+    }
+
+    /**
+     * Stop all queued and running jobs
+     */
+    stopAll(): void {
+        for (const job of this.getActiveJobs()) {
+            this.stop(job.id);
+        }
+    }
+
+    /**
+     * Remove finished jobs from the list and dispose their output channels
+     */
+    clearFinished(): void {
+        const finished = this.jobs.filter(job => !job.isActive());
+        finished.forEach(job => job.dispose());
+        this.jobs = this.jobs.filter(job => job.isActive());
+        this._onDidChangeJobs.fire();
+    }
+
+    /**
+     * Clear output of every job
+     */
+    clearOutputs(): void {
+        this.jobs.forEach(job => job.output.clear(false));
+    }
+
+    /**
+     * Start queued jobs while below the concurrency cap
+     */
+    private pump(): void {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const maxConcurrent = Math.max(1, config.get<number>('maxConcurrentJobs', 2));
+
+        let running = this.jobs.filter(job => job.status === JobStatus.RUNNING).length;
+        for (const job of this.jobs) {
+            if (running >= maxConcurrent) {
+                break;
+            }
+            if (job.status === JobStatus.QUEUED) {
+                running++;
+                this.start(job);
+            }
+        }
+    }
+
+    /**
+     * Run a job and record its outcome
+     */
+    private async start(job: Job): Promise<void> {
+        job.status = JobStatus.RUNNING;
+        job.startTime = Date.now();
+        if (this.logDir) {
+            job.logFile = path.join(this.logDir, `job-${job.startTime}-${job.id}.log`);
+            job.output.startLog(job.logFile);
+        }
+        if (job.options.presentation === 'terminal') {
+            job.openTerminal();
+        }
+        this._onDidStartJob.fire(job);
+        this._onDidChangeJobs.fire();
+
+        const attempts = 1 + Math.max(0, Math.floor(job.options.retries || 0));
+        let result: JobResult;
+        for (;;) {
+            job.attempt++;
+            job.timedOut = false;
+            result = await this.runAttempt(job);
+
+            if (job.isStoppedByUser || (!result.error && result.exitCode === 0)) {
+                break;
+            }
+            if (job.attempt >= attempts || !this.shouldRetry(job, result)) {
+                break;
+            }
+            const reason = job.timedOut ? 'timed out' : `exited with code ${result.exitCode}`;
+            job.output.appendLine(`\n[Retry] Attempt ${job.attempt}/${attempts} ${reason}, retrying...\n`);
+            job.process = undefined;
+        }
+
+        if (job.timedOut) {
+            result = { ...result, error: `Timed out after ${job.options.timeout}s` };
+        }
+
+        let status: JobStatus;
+        if (job.isStoppedByUser) {
+            status = JobStatus.STOPPED;
+        } else if (!result.error && result.exitCode === 0) {
+            status = JobStatus.SUCCEEDED;
+        } else {
+            status = JobStatus.FAILED;
+        }
+        if (attempts > 1 && status !== JobStatus.STOPPED) {
+            job.output.appendLine(`[Retry] Finished after ${job.attempt}/${attempts} attempt(s): ${status}`);
+        }
+        this.finish(job, status, result);
+    }
+
+    /**
+     * Run one attempt of a job, terminating it once the timeout expires
+     */
+    private async runAttempt(job: Job): Promise<JobResult> {
+        const timeout = job.options.timeout;
+        const timer = timeout && timeout > 0 ? setTimeout(() => job.timeOut(), timeout * 1000) : undefined;
+        let result: JobResult;
+        try {
+            result = await job.runner(job);
+        } catch (error: any) {
+            job.output.appendLine(`\n[Error] ${error.message}`);
+            result = { exitCode: null, signal: null, error: error.message };
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+        }
+        await job.waitForTermination();
+        return result;
+    }
+
+    /**
+     * Whether a failed attempt is retried
+     * Jobs that failed before their process ran (e.g. missing container) are not retried;
+     * with retryOn only the listed exit codes are
+     */
+    private shouldRetry(job: Job, result: JobResult): boolean {
+        if (job.timedOut) {
+            return !job.options.retryOn;
+        }
+        if (result.error || result.exitCode === null) {
+            return false;
+        }
+        return !job.options.retryOn || job.options.retryOn.includes(result.exitCode);
+    }
+
+    /**
+     * Mark job as finished, trim old jobs and start the next queued one
+     */
+    private finish(job: Job, status: JobStatus, result: JobResult): void {
+        job.flush();
+        job.output.stopLog();
+        job.terminal?.finish();
+        job.status = status;
+        job.result = result;
+        job.endTime = Date.now();
+        job.process = undefined;
+
+        this._onDidFinishJob.fire(job);
+
+        // Drop the oldest finished jobs beyond the retention limit
+        const finished = this.jobs.filter(j => !j.isActive());
+        const excess = finished.length - this.maxFinishedJobs;
+        if (excess > 0) {
+            const removed = finished.slice(0, excess);
+            removed.forEach(j => j.dispose());
+            this.jobs = this.jobs.filter(j => !removed.includes(j));
+        }
+
+        this._onDidChangeJobs.fire();
+        this.pump();
+    }
+
+    /**
+     * Kill all running jobs and dispose resources
+     */
+    dispose(): void {
+        for (const job of this.jobs) {
+            if (job.process) {
+                job.processTree?.('SIGKILL').catch(() => undefined);
+                job.process.kill('SIGKILL');
+            }
+            job.dispose();
+        }
+        this.jobs = [];
+        this._onDidChangeJobs.dispose();
+        this._onDidStartJob.dispose();
+        this._onDidFinishJob.dispose();
+    }
+}
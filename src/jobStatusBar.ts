@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { Job, JobManager, JobStatus } from './jobManager';
+import { formatDuration } from './buildProgress';
+
+// How long the result of the last job stays in the status bar
+const RESULT_DISPLAY_MS = 60000;
+
+/**
+ * Status bar item for the running command: alias, target and elapsed time
+ * Shows the result of the last job (green/red) once nothing is running; click for quick actions
+ */
+export class JobStatusBar implements vscode.Disposable {
+    private item: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    private timer: NodeJS.Timeout | undefined;
+    private hideTimer: NodeJS.Timeout | undefined;
+    // Job shown in the status bar (running, or the last finished one)
+    private job: Job | undefined;
+
+    constructor(private jobManager: JobManager) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+        this.item.command = 'deeproute-compile-commands.showJobActions';
+        this.disposables.push(
+            this.item,
+            jobManager.onDidChangeJobs(() => this.update()),
+            jobManager.onDidFinishJob(job => this.showResult(job))
+        );
+    }
+
+    /**
+     * Quick actions for the job shown in the status bar: stop, show output, rerun
+     */
+    async showActions(): Promise<void> {
+        const job = this.job;
+        if (!job) {
+            return;
+        }
+
+        const items: (vscode.QuickPickItem & { action: 'stop' | 'output' | 'rerun' })[] = [];
+        if (job.isActive()) {
+            items.push({ label: '$(debug-stop) Stop', description: `#${job.id} ${job.label}`, action: 'stop' });
+        }
+        items.push(
+            { label: '$(output) Show Output', description: `#${job.id} ${job.label}`, action: 'output' },
+            { label: '$(debug-restart) Rerun', description: job.command, action: 'rerun' }
+        );
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `#${job.id} ${job.label} — ${job.status}`
+        });
+        if (!selected) {
+            return;
+        }
+
+        switch (selected.action) {
+            case 'stop':
+                await vscode.commands.executeCommand('deeproute-compile-commands.stopCommand', { jobId: job.id });
+                break;
+            case 'output':
+                job.output.show();
+                break;
+            case 'rerun':
+                // Same settings as the original run (placeholders are already resolved in job.command)
+                await vscode.commands.executeCommand(
+                    'deeproute-compile-commands.executeFromTree',
+                    job.command,
+                    job.cwd,
+                    job.options.executeOptions
+                );
+                break;
+        }
+    }
+
+    /**
+     * Show the most recently started running job, ticking the elapsed time every second
+     */
+    private update(): void {
+        const running = this.jobManager.getActiveJobs().filter(job => job.status === JobStatus.RUNNING);
+        if (running.length === 0) {
+            this.stopTimer();
+            // Keep showing the result of a finished job, hide a job that was dropped from the list
+            if (this.job && this.job.isActive()) {
+                this.item.hide();
+                this.job = undefined;
+            }
+            return;
+        }
+
+        const job = running.reduce((latest, j) => ((j.startTime ?? 0) > (latest.startTime ?? 0) ? j : latest));
+        this.job = job;
+        this.clearHideTimer();
+
+        const others = running.length > 1 ? ` (+${running.length - 1})` : '';
+        this.item.text = `$(sync~spin) ${job.label}${others} · ${job.target} · ${formatDuration(job.getElapsed())}`;
+        const tooltip = [
+            `#${job.id} ${job.label}`,
+            `Command: ${job.command}`,
+            `Target: ${job.target}`,
+            `Elapsed: ${formatDuration(job.getElapsed())}`
+        ];
+        if (running.length > 1) {
+            tooltip.push(`${running.length} commands running`);
+        }
+        tooltip.push('', 'Click for actions (stop, show output, rerun)');
+        this.item.tooltip = tooltip.join('\n');
+        this.item.color = undefined;
+        this.item.backgroundColor = undefined;
+        this.item.show();
+
+        if (!this.timer) {
+            this.timer = setInterval(() => this.update(), 1000);
+        }
+    }
+
+    /**
+     * Show the result of a finished job once nothing else is running
+     */
+    private showResult(job: Job): void {
+        const stillRunning = this.jobManager.getActiveJobs().some(j => j.status === JobStatus.RUNNING);
+        if (stillRunning) {
+            return;
+        }
+
+        this.stopTimer();
+        this.job = job;
+        const duration = formatDuration(job.getElapsed());
+        if (job.status === JobStatus.SUCCEEDED) {
+            this.item.text = `$(check) ${job.label} · ${duration}`;
+            this.item.color = new vscode.ThemeColor('testing.iconPassed');
+            this.item.backgroundColor = undefined;
+        } else {
+            const icon = job.status === JobStatus.STOPPED ? '$(debug-stop)' : '$(error)';
+            this.item.text = `${icon} ${job.label} · ${duration}`;
+            this.item.color = undefined;
+            this.item.backgroundColor = new vscode.ThemeColor(
+                job.status === JobStatus.STOPPED ? 'statusBarItem.warningBackground' : 'statusBarItem.errorBackground'
+            );
+        }
+        this.item.tooltip = `#${job.id} ${job.label}: ${job.status} after ${duration}\nTarget: ${job.target}\n\nClick for actions (show output, rerun)`;
+        this.item.show();
+
+        this.clearHideTimer();
+        this.hideTimer = setTimeout(() => {
+            this.item.hide();
+            this.job = undefined;
+        }, RESULT_DISPLAY_MS);
+    }
+
+    private stopTimer(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private clearHideTimer(): void {
+        if (this.hideTimer) {
+            clearTimeout(this.hideTimer);
+            this.hideTimer = undefined;
+        }
+    }
+
+    dispose(): void {
+        this.stopTimer();
+        this.clearHideTimer();
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { shellQuote } from './sshConnection';
+
+/**
+ * Integrated terminal showing a job's output with ANSI colors and forwarding keyboard input
+ * Used for the "terminal" presentation instead of the output channel
+ */
+export class JobTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+    private closeEmitter = new vscode.EventEmitter<number | void>();
+    readonly onDidClose: vscode.Event<number | void> = this.closeEmitter.event;
+
+    private terminal: vscode.Terminal;
+    private opened = false;
+    private finished = false;
+    // Output written before VS Code opened the terminal
+    private pending: string[] = [];
+    private dimensions: vscode.TerminalDimensions | undefined;
+
+    /**
+     * @param name Terminal name
+     * @param onInput Receives keyboard input while the process is running
+     * @param onUserClose Called when the user closes the terminal while the process is running
+     */
+    constructor(
+        name: string,
+        private onInput: (data: string) => void,
+        private onUserClose: () => void
+    ) {
+        this.terminal = vscode.window.createTerminal({ name, pty: this });
+    }
+
+    /**
+     * Terminal size, once known
+     */
+    get size(): vscode.TerminalDimensions | undefined {
+        return this.dimensions;
+    }
+
+    open(initialDimensions: vscode.TerminalDimensions | undefined): void {
+        this.opened = true;
+        this.dimensions = initialDimensions;
+        this.pending.forEach(text => this.writeEmitter.fire(text));
+        this.pending = [];
+    }
+
+    close(): void {
+        if (!this.finished) {
+            this.onUserClose();
+        }
+    }
+
+    handleInput(data: string): void {
+        // After the process has exited any key closes the terminal
+        if (this.finished) {
+            this.closeEmitter.fire();
+            return;
+        }
+        this.onInput(data);
+    }
+
+    setDimensions(dimensions: vscode.TerminalDimensions): void {
+        this.dimensions = dimensions;
+    }
+
+    /**
+     * Write raw process output (colors preserved)
+     */
+    write(text: string): void {
+        // The terminal needs CRLF; output from a pty already has it
+        const normalized = text.replace(/\r?\n/g, '\r\n');
+        if (this.opened) {
+            this.writeEmitter.fire(normalized);
+        } else {
+            this.pending.push(normalized);
+        }
+    }
+
+    /**
+     * Show the terminal
+     */
+    show(preserveFocus: boolean = false): void {
+        this.terminal.show(preserveFocus);
+    }
+
+    /**
+     * Mark the process as exited; the terminal stays open until a key is pressed
+     */
+    finish(): void {
+        if (this.finished) {
+            return;
+        }
+        this.finished = true;
+        this.write('\n\x1b[2mPress any key to close the terminal\x1b[0m\n');
+    }
+}
+
+/**
+ * Wrap a shell command line so it runs in a pseudo terminal (util-linux script)
+ * Programs then see a tty: they keep colors, and prompts can be answered through stdin
+ * @param commandLine Shell command line to run
+ * @param size Terminal size applied to the pseudo terminal before the command starts
+ * @returns Executable and arguments for child_process.spawn
+ */
+export function wrapInPty(commandLine: string, size?: vscode.TerminalDimensions): { file: string; args: string[] } {
+    const resize = size ? `stty cols ${size.columns} rows ${size.rows} 2>/dev/null; ` : '';
+    return { file: 'script', args: ['-q', '-e', '-f', '-c', `${resize}exec ${commandLine}`, '/dev/null'] };
+}
+
+/**
+ * Join executable and arguments into a shell command line
+ */
+export function toCommandLine(file: string, args: string[]): string {
+    return [file, ...args].map(shellQuote).join(' ');
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { OutputManager } from './outputManager';
+
+/**
+ * Language server setting value
+ *   auto:     detected from installed extensions (clangd, then cpptools, then ccls)
+ *   command:  run the VS Code command configured in languageServerCommand
+ *   none:     do nothing after an update
+ */
+export type LanguageServerKind = 'auto' | 'clangd' | 'cpptools' | 'ccls' | 'command' | 'none';
+
+/**
+ * Reloads a language server after compile_commands.json was updated
+ */
+export interface LanguageServer {
+    name: string;
+    isAvailable(): Promise<boolean>;
+    reload(compileCommandsPath: string, output: OutputManager): Promise<void>;
+}
+
+/**
+ * Whether an extension is installed or one of its commands is registered
+ * (forks of VS Code sometimes ship the same extension under another id)
+ */
+async function hasExtensionOrCommand(extensionIds: string[], command: string): Promise<boolean> {
+    if (extensionIds.some(id => vscode.extensions.getExtension(id))) {
+        return true;
+    }
+    return (await vscode.commands.getCommands(true)).includes(command);
+}
+
+/**
+ * clangd (llvm-vs-code-extensions.vscode-clangd): restart the server
+ */
+const clangd: LanguageServer = {
+    name: 'clangd',
+    isAvailable: () => hasExtensionOrCommand(['llvm-vs-code-extensions.vscode-clangd'], 'clangd.restart'),
+    async reload(_compileCommandsPath: string, output: OutputManager): Promise<void> {
+        output.appendLine(`[Clangd] Executing VS Code/Cursor command: clangd: Restart language server, please wait...`);
+        await vscode.commands.executeCommand('clangd.restart');
+        output.appendLine(`[Clangd] ✅ clangd.restart command sent successfully`);
+        output.appendLine(`[Clangd] clangd is reloading compile_commands.json and indexing C++ symbols in background...`);
+    }
+};
+
+/**
+ * Microsoft C/C++ (ms-vscode.cpptools): point C_Cpp.default.compileCommands at the database
+ * and reset the IntelliSense database
+ */
+const cpptools: LanguageServer = {
+    name: 'cpptools',
+    isAvailable: () => hasExtensionOrCommand(['ms-vscode.cpptools'], 'C_Cpp.ResetDatabase'),
+    async reload(compileCommandsPath: string, output: OutputManager): Promise<void> {
+        const config = vscode.workspace.getConfiguration('C_Cpp');
+        const current = config.get<string>('default.compileCommands', '');
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(compileCommandsPath));
+        const resolvedCurrent = current && folder ? current.replace(/\$\{workspaceFolder\}/g, folder.uri.fsPath) : current;
+        if (!resolvedCurrent || path.resolve(resolvedCurrent) !== path.resolve(compileCommandsPath)) {
+            await config.update('default.compileCommands', compileCommandsPath, vscode.ConfigurationTarget.Workspace);
+            output.appendLine(`[cpptools] C_Cpp.default.compileCommands set to ${compileCommandsPath}`);
+        }
+        output.appendLine(`[cpptools] Executing VS Code/Cursor command: C/C++: Reset IntelliSense Database, please wait...`);
+        await vscode.commands.executeCommand('C_Cpp.ResetDatabase');
+        output.appendLine(`[cpptools] ✅ IntelliSense database reset, cpptools is re-parsing in background...`);
+    }
+};
+
+/**
+ * ccls (ccls-project.ccls): reload the project
+ */
+const ccls: LanguageServer = {
+    name: 'ccls',
+    isAvailable: () => hasExtensionOrCommand(['ccls-project.ccls'], 'ccls.reload'),
+    async reload(_compileCommandsPath: string, output: OutputManager): Promise<void> {
+        output.appendLine(`[ccls] Executing VS Code/Cursor command: ccls: Reload, please wait...`);
+        await vscode.commands.executeCommand('ccls.reload');
+        output.appendLine(`[ccls] ✅ ccls.reload command sent successfully, ccls is re-indexing in background...`);
+    }
+};
+
+/**
+ * Any VS Code command configured in languageServerCommand
+ */
+function customCommand(command: string): LanguageServer {
+    return {
+        name: command || 'languageServerCommand',
+        isAvailable: async () => !!command && (await vscode.commands.getCommands(true)).includes(command),
+        async reload(_compileCommandsPath: string, output: OutputManager): Promise<void> {
+            output.appendLine(`[LanguageServer] Executing VS Code/Cursor command: ${command}...`);
+            await vscode.commands.executeCommand(command);
+            output.appendLine(`[LanguageServer] ✅ ${command} executed successfully`);
+        }
+    };
+}
+
+/**
+ * Resolves the language server to reload from the languageServer setting
+ */
+export class LanguageServers {
+    /**
+     * Get the configured language server
+     * @returns undefined if set to none, or if auto detection found no supported extension
+     */
+    static async resolve(): Promise<LanguageServer | undefined> {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const kind = config.get<LanguageServerKind>('languageServer', 'auto');
+
+        switch (kind) {
+            case 'none':
+                return undefined;
+            case 'clangd':
+                return clangd;
+            case 'cpptools':
+                return cpptools;
+            case 'ccls':
+                return ccls;
+            case 'command':
+                return customCommand(config.get<string>('languageServerCommand', '').trim());
+            default:
+                for (const server of [clangd, cpptools, ccls]) {
+                    if (await server.isAvailable()) {
+                        return server;
+                    }
+                }
+                return undefined;
+        }
+    }
+}
@@ -1,22 +1,28 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { JobTerminal } from './jobTerminal';
+
+/**
+ * Strip ANSI escape codes from text
+ * This removes color codes and other terminal formatting that VS Code Output Channel doesn't support
+ * @param text Text with potential ANSI codes
+ * @returns Clean text without ANSI codes
+ */
+export function stripAnsiCodes(text: string): string {
+    // ANSI escape code regex: matches ESC[ followed by any control sequence
+    // eslint-disable-next-line no-control-regex
+    return text.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '');
+}
 
 export class OutputManager {
     private outputChannel: vscode.OutputChannel;
+    // Optional log file receiving a copy of everything written to the channel
+    private logStream: fs.WriteStream | undefined;
+    // Optional terminal receiving a copy of everything written, with ANSI codes kept
+    private terminal: JobTerminal | undefined;
 
-    constructor() {
-        this.outputChannel = vscode.window.createOutputChannel('DeepRoute Compile Commands');
-    }
-
-    /**
-     * Strip ANSI escape codes from text
-     * This removes color codes and other terminal formatting that VS Code Output Channel doesn't support
-     * @param text Text with potential ANSI codes
-     * @returns Clean text without ANSI codes
-     */
-    private stripAnsiCodes(text: string): string {
-        // ANSI escape code regex: matches ESC[ followed by any control sequence
-        // eslint-disable-next-line no-control-regex
-        return text.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '');
+    constructor(name: string = 'DeepRoute Compile Commands') {
+        this.outputChannel = vscode.window.createOutputChannel(name);
     }
 
     /**
@@ -24,9 +30,20 @@ export class OutputManager {
      * @param preserveFocus Whether to preserve focus on current editor
      */
     show(preserveFocus: boolean = false): void {
+        if (this.terminal) {
+            this.terminal.show(preserveFocus);
+            return;
+        }
         this.outputChannel.show(preserveFocus);
     }
 
+    /**
+     * Mirror all output to a terminal, which is then shown instead of the output panel
+     */
+    attachTerminal(terminal: JobTerminal): void {
+        this.terminal = terminal;
+    }
+
     /**
      * Hide output panel
      */
@@ -40,8 +57,10 @@ export class OutputManager {
      * @param text Text to append
      */
     append(text: string): void {
-        const cleanText = this.stripAnsiCodes(text);
+        const cleanText = stripAnsiCodes(text);
         this.outputChannel.append(cleanText);
+        this.logStream?.write(cleanText);
+        this.terminal?.write(text);
     }
 
     /**
@@ -50,8 +69,10 @@ export class OutputManager {
      * @param text Text to append
      */
     appendLine(text: string): void {
-        const cleanText = this.stripAnsiCodes(text);
+        const cleanText = stripAnsiCodes(text);
         this.outputChannel.appendLine(cleanText);
+        this.logStream?.write(cleanText + '\n');
+        this.terminal?.write(text + '\n');
     }
 
     /**
@@ -60,11 +81,13 @@ export class OutputManager {
      * @param text Error text
      */
     appendError(text: string): void {
-        const cleanText = this.stripAnsiCodes(text);
+        const cleanText = stripAnsiCodes(text);
         const lines = cleanText.split('\n');
         lines.forEach(line => {
             if (line.trim()) {
                 this.outputChannel.appendLine(`[ERROR] ${line}`);
+                this.logStream?.write(`[ERROR] ${line}\n`);
+                this.terminal?.write(`[ERROR] ${line}\n`);
             }
         });
     }
@@ -75,11 +98,13 @@ export class OutputManager {
      * @param text Warning text
      */
     appendWarning(text: string): void {
-        const cleanText = this.stripAnsiCodes(text);
+        const cleanText = stripAnsiCodes(text);
         const lines = cleanText.split('\n');
         lines.forEach(line => {
             if (line.trim()) {
                 this.outputChannel.appendLine(`[WARNING] ${line}`);
+                this.logStream?.write(`[WARNING] ${line}\n`);
+                this.terminal?.write(`[WARNING] ${line}\n`);
             }
         });
     }
@@ -90,27 +115,56 @@ export class OutputManager {
      * @param text Success text
      */
     appendSuccess(text: string): void {
-        const cleanText = this.stripAnsiCodes(text);
+        const cleanText = stripAnsiCodes(text);
         const lines = cleanText.split('\n');
         lines.forEach(line => {
             if (line.trim()) {
                 this.outputChannel.appendLine(`[SUCCESS] ${line}`);
+                this.logStream?.write(`[SUCCESS] ${line}\n`);
+                this.terminal?.write(`[SUCCESS] ${line}\n`);
             }
         });
     }
 
     /**
      * Clear output panel
+     * @param notify Whether to show a notification after clearing
      */
-    clear(): void {
+    clear(notify: boolean = true): void {
         this.outputChannel.clear();
-        vscode.window.showInformationMessage('Output cleared');
+        if (notify) {
+            vscode.window.showInformationMessage('Output cleared');
+        }
+    }
+
+    /**
+     * Start copying output to a log file
+     * @param filePath Log file path (created or truncated)
+     */
+    startLog(filePath: string): void {
+        this.stopLog();
+        this.logStream = fs.createWriteStream(filePath, { flags: 'w' });
+        this.logStream.on('error', () => {
+            // Logging is best effort, never break command output
+            this.logStream = undefined;
+        });
+    }
+
+    /**
+     * Stop copying output to the log file
+     */
+    stopLog(): void {
+        if (this.logStream) {
+            this.logStream.end();
+            this.logStream = undefined;
+        }
     }
 
     /**
      * Dispose output channel resources
      */
     dispose(): void {
+        this.stopLog();
         this.outputChannel.dispose();
     }
 }
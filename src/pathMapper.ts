@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * One host ↔ container directory pair
+ */
+export interface PathMapping {
+    hostPath: string;
+    containerPath: string;
+}
+
+/**
+ * Mount as reported by docker inspect (only the fields used here)
+ */
+/* eslint-disable @typescript-eslint/naming-convention */
+interface DockerMount {
+    Type?: string;
+    Source?: string;
+    Destination?: string;
+}
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Mapping used when nothing is configured or detected: $HOME/codetree/repo ↔ /sandbox
+ */
+export function getDefaultPathMappings(): PathMapping[] {
+    return [{ hostPath: path.join(os.homedir(), 'codetree', 'repo'), containerPath: '/sandbox' }];
+}
+
+/**
+ * Translates paths between host and container using a mapping table
+ * The most specific (longest) matching prefix wins
+ */
+export class PathMapper {
+    private mappings: PathMapping[];
+
+    constructor(mappings: PathMapping[]) {
+        this.mappings = mappings
+            .filter(m => m.hostPath && m.containerPath)
+            .map(m => ({
+                hostPath: stripTrailingSlash(m.hostPath),
+                containerPath: stripTrailingSlash(m.containerPath)
+            }))
+            .sort((a, b) => b.containerPath.length - a.containerPath.length);
+    }
+
+    /**
+     * Build the mapper for a container
+     * Configured mappings come first, then mappings detected from the container's bind mounts;
+     * the default mapping is used only when both are empty
+     * @param containerName Container to inspect (auto-detection is skipped if undefined)
+     * @param workspaceRoot Used to expand ${workspaceFolder} in configured host paths
+     * @param profileMappings Mappings of a container profile, used instead of the pathMappings setting
+     */
+    static forContainer(containerName: string | undefined, workspaceRoot: string, profileMappings?: PathMapping[]): PathMapper {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        const configured = PathMapper.expand(profileMappings || config.get<PathMapping[]>('pathMappings', []), workspaceRoot);
+
+        let detected: PathMapping[] = [];
+        if (containerName && config.get<boolean>('autoDetectPathMappings', true)) {
+            detected = PathMapper.detectFromDocker(containerName);
+        }
+
+        const mappings = [...configured, ...detected];
+        return new PathMapper(mappings.length > 0 ? mappings : getDefaultPathMappings());
+    }
+
+    /**
+     * Read bind mounts of a container via docker inspect
+     * @returns Empty list if the container cannot be inspected
+     */
+    static detectFromDocker(containerName: string): PathMapping[] {
+        const result = child_process.spawnSync('docker', ['inspect', '--format', '{{json .Mounts}}', containerName]);
+        if (result.error || result.status !== 0) {
+            return [];
+        }
+
+        try {
+            const mounts: unknown = JSON.parse(result.stdout.toString().trim());
+            if (!Array.isArray(mounts)) {
+                return [];
+            }
+            return (mounts as DockerMount[])
+                .filter(mount => mount && mount.Type === 'bind'
+                    && typeof mount.Source === 'string' && mount.Source
+                    && typeof mount.Destination === 'string' && mount.Destination && mount.Destination !== '/')
+                .map(mount => ({ hostPath: mount.Source!, containerPath: mount.Destination! }));
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * Expand ~ and ${workspaceFolder} in configured host paths
+     */
+    private static expand(mappings: PathMapping[], workspaceRoot: string): PathMapping[] {
+        return mappings.map(m => ({
+            hostPath: (m.hostPath || '')
+                .replace(/^~(?=\/|$)/, os.homedir())
+                .replace(/\$\{workspaceFolder\}/g, workspaceRoot),
+            containerPath: m.containerPath
+        }));
+    }
+
+    /**
+     * Get the effective mappings, most specific container path first
+     */
+    getMappings(): PathMapping[] {
+        return [...this.mappings];
+    }
+
+    /**
+     * Translate a container path to a host path
+     * Paths outside all mapped directories are returned unchanged
+     */
+    toHost(containerPath: string): string {
+        const mapping = this.findMapping(containerPath, 'containerPath');
+        return mapping
+            ? mapping.hostPath + containerPath.substring(mapping.containerPath.length)
+            : containerPath;
+    }
+
+    /**
+     * Translate a host path to a container path
+     * @returns undefined if the path is not inside a mapped directory
+     */
+    toContainer(hostPath: string): string | undefined {
+        const mapping = this.findMapping(hostPath, 'hostPath');
+        return mapping
+            ? mapping.containerPath + hostPath.substring(mapping.hostPath.length)
+            : undefined;
+    }
+
+    /**
+     * Whether a path lies inside one of the mapped container directories
+     */
+    isContainerPath(p: string): boolean {
+        return this.findMapping(p, 'containerPath') !== undefined;
+    }
+
+    /**
+     * Find the longest mapping whose side is a path prefix of p (at a path component boundary)
+     */
+    private findMapping(p: string, side: 'hostPath' | 'containerPath'): PathMapping | undefined {
+        let best: PathMapping | undefined;
+        for (const mapping of this.mappings) {
+            const prefix = mapping[side];
+            if ((p === prefix || p.startsWith(prefix + '/')) && (!best || prefix.length > best[side].length)) {
+                best = mapping;
+            }
+        }
+        return best;
+    }
+}
+
+function stripTrailingSlash(p: string): string {
+    return p.length > 1 ? p.replace(/\/+$/, '') : p;
+}
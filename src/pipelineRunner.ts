@@ -0,0 +1,303 @@
+import * as vscode from 'vscode';
+import { CommandStore } from './commandStore';
+import { CommandConfig, CommandInput, PipelineConfig, PipelineStep } from './commandTreeProvider';
+import { DeepRouteCompileCommands } from './deepRouteCompileCommands';
+import { JobManager, JobStatus, Presentation, RunPolicy, toRunPolicy } from './jobManager';
+import { VariableResolver } from './variableResolver';
+
+/**
+ * Pipeline step status
+ */
+export enum StepStatus {
+    PENDING = 'pending',
+    RUNNING = 'running',
+    SUCCEEDED = 'succeeded',
+    FAILED = 'failed',
+    SKIPPED = 'skipped',
+    STOPPED = 'stopped'
+}
+
+/**
+ * Step with its reference resolved against predefined commands
+ * (timeout and retries come from the referenced command)
+ */
+export interface ResolvedStep extends RunPolicy {
+    label: string;
+    command: string;
+    cwd?: string;
+    executeLocally?: boolean;
+    profile?: string;
+    presentation?: Presentation;
+    continueOnFailure: boolean;
+    inputs?: CommandInput[];  // Inputs declared by the referenced command
+    env?: Record<string, string>;  // Environment of the referenced command
+    envFile?: string;
+    shell?: string;
+}
+
+/**
+ * Runtime state of one step
+ */
+export interface StepRun {
+    step: ResolvedStep;
+    status: StepStatus;
+    jobId?: number;
+    error?: string;
+}
+
+/**
+ * Runtime state of a pipeline execution
+ */
+export interface PipelineRun {
+    name: string;
+    steps: StepRun[];
+    status: StepStatus;
+    startTime: number;
+    endTime?: number;
+    stopRequested: boolean;
+}
+
+/**
+ * Runs pipelines step by step, stopping or continuing on failure per step
+ */
+export class PipelineRunner implements vscode.Disposable {
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    // Last run of each pipeline, keyed by pipeline name
+    private runs = new Map<string, PipelineRun>();
+
+    constructor(
+        private jobManager: JobManager,
+        private executor: DeepRouteCompileCommands | undefined,
+        private variableResolver: VariableResolver
+    ) {}
+
+    /**
+     * Get configured pipelines
+     */
+    static getPipelines(): PipelineConfig[] {
+        const config = vscode.workspace.getConfiguration('deeproute-compile-commands');
+        return config.get<PipelineConfig[]>('pipelines', []);
+    }
+
+    /**
+     * Resolve a step: look up referenced predefined command (by alias, then by command text)
+     * and apply step-level overrides
+     * @throws Error if the step is invalid or the reference cannot be found
+     */
+    static resolveStep(step: PipelineStep, index: number): ResolvedStep {
+        let base: CommandConfig | undefined;
+
+        if (step.ref) {
+            const commands = CommandStore.getCommands().map(cmd => cmd.config);
+            base = commands.find(cmd => cmd.alias === step.ref) || commands.find(cmd => cmd.command === step.ref);
+            if (!base) {
+                throw new Error(`Step ${index + 1}: predefined command "${step.ref}" not found`);
+            }
+        } else if (step.command && step.command.trim()) {
+            base = { command: step.command };
+        } else {
+            throw new Error(`Step ${index + 1}: either "ref" or "command" is required`);
+        }
+
+        return {
+            label: step.name || base.alias || base.command,
+            command: base.command,
+            cwd: step.cwd !== undefined ? step.cwd : base.cwd,
+            executeLocally: step.executeLocally !== undefined ? step.executeLocally : base.executeLocally,
+            profile: step.profile !== undefined ? step.profile : base.profile,
+            presentation: base.presentation,
+            continueOnFailure: step.continueOnFailure === true,
+            inputs: base.inputs,
+            env: base.env,
+            envFile: base.envFile,
+            shell: base.shell,
+            ...toRunPolicy(base)
+        };
+    }
+
+    /**
+     * Get the last run of a pipeline
+     */
+    getRun(name: string): PipelineRun | undefined {
+        return this.runs.get(name);
+    }
+
+    /**
+     * Whether a pipeline is currently running
+     */
+    isRunning(name: string): boolean {
+        return this.runs.get(name)?.status === StepStatus.RUNNING;
+    }
+
+    /**
+     * Run a pipeline to completion
+     */
+    async run(pipeline: PipelineConfig): Promise<void> {
+        if (!this.executor) {
+            vscode.window.showErrorMessage('Workspace root not found');
+            return;
+        }
+
+        if (this.isRunning(pipeline.name)) {
+            vscode.window.showWarningMessage(`Pipeline "${pipeline.name}" is already running`);
+            return;
+        }
+
+        // Resolve all steps up front so a typo in step 3 doesn't surface after a 40 minute build
+        let resolved: ResolvedStep[];
+        try {
+            resolved = (pipeline.steps || []).map((step, index) => PipelineRunner.resolveStep(step, index));
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Pipeline "${pipeline.name}": ${error.message}`);
+            return;
+        }
+
+        if (resolved.length === 0) {
+            vscode.window.showWarningMessage(`Pipeline "${pipeline.name}" has no steps`);
+            return;
+        }
+
+        // Register the run before prompting, so it cannot be started twice while prompts are open
+        const previous = this.runs.get(pipeline.name);
+        const run: PipelineRun = {
+            name: pipeline.name,
+            steps: resolved.map(step => ({ step, status: StepStatus.PENDING })),
+            status: StepStatus.RUNNING,
+            startTime: Date.now(),
+            stopRequested: false
+        };
+        this.runs.set(pipeline.name, run);
+        this._onDidChange.fire();
+
+        // Prompt for all step variables before the first step starts
+        for (const step of resolved) {
+            let variables: { command: string; cwd?: string } | undefined;
+            try {
+                variables = await this.variableResolver.resolve({ command: step.command, cwd: step.cwd, inputs: step.inputs });
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Pipeline "${pipeline.name}", step "${step.label}": ${error.message}`);
+            }
+            if (!variables || run.stopRequested) {
+                this.discardRun(run, previous);
+                return;
+            }
+            step.command = variables.command;
+            step.cwd = variables.cwd;
+        }
+
+        let failed = false;
+        try {
+            for (const stepRun of run.steps) {
+                if (run.stopRequested || failed) {
+                    stepRun.status = StepStatus.SKIPPED;
+                    continue;
+                }
+
+                stepRun.status = StepStatus.RUNNING;
+                this._onDidChange.fire();
+
+                const { command, cwd, executeLocally, label, profile } = stepRun.step;
+                const job = await this.executor.execute(command, cwd, {
+                    executeLocally,
+                    label: `${pipeline.name} › ${label}`,
+                    profile,
+                    presentation: stepRun.step.presentation,
+                    env: stepRun.step.env,
+                    envFile: stepRun.step.envFile,
+                    shell: stepRun.step.shell,
+                    ...toRunPolicy(stepRun.step)
+                });
+                if (!job) {
+                    stepRun.status = StepStatus.FAILED;
+                    stepRun.error = 'Step was not started';
+                } else {
+                    stepRun.jobId = job.id;
+                    this._onDidChange.fire();
+
+                    await this.jobManager.waitForJob(job);
+                    if (job.status === JobStatus.SUCCEEDED) {
+                        stepRun.status = StepStatus.SUCCEEDED;
+                    } else if (job.status === JobStatus.STOPPED) {
+                        stepRun.status = StepStatus.STOPPED;
+                        run.stopRequested = true;
+                    } else {
+                        stepRun.status = StepStatus.FAILED;
+                        stepRun.error = job.result?.error;
+                    }
+                }
+
+                if (stepRun.status === StepStatus.FAILED && !stepRun.step.continueOnFailure) {
+                    failed = true;
+                }
+                this._onDidChange.fire();
+            }
+        } catch (error: any) {
+            // The step could not be started; it fails the pipeline whatever continueOnFailure says
+            const current = run.steps.find(stepRun => stepRun.status === StepStatus.RUNNING);
+            if (current) {
+                current.status = StepStatus.FAILED;
+                current.error = error.message;
+            }
+            run.steps
+                .filter(stepRun => stepRun.status === StepStatus.PENDING)
+                .forEach(stepRun => stepRun.status = StepStatus.SKIPPED);
+            failed = true;
+        } finally {
+            const anyFailed = failed || run.steps.some(stepRun => stepRun.status === StepStatus.FAILED);
+            if (run.stopRequested) {
+                run.status = StepStatus.STOPPED;
+                vscode.window.showWarningMessage(`Pipeline "${pipeline.name}" stopped`);
+            } else if (anyFailed) {
+                run.status = StepStatus.FAILED;
+                const error = run.steps.find(stepRun => stepRun.status === StepStatus.FAILED)?.error;
+                vscode.window.showErrorMessage(`Pipeline "${pipeline.name}" failed` + (error ? `: ${error}` : ''));
+            } else {
+                run.status = StepStatus.SUCCEEDED;
+                vscode.window.showInformationMessage(`✅ Pipeline "${pipeline.name}" completed`);
+            }
+            run.endTime = Date.now();
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Drop a run that was cancelled before its first step, showing the previous run again
+     */
+    private discardRun(run: PipelineRun, previous: PipelineRun | undefined): void {
+        if (this.runs.get(run.name) === run) {
+            if (previous) {
+                this.runs.set(run.name, previous);
+            } else {
+                this.runs.delete(run.name);
+            }
+        }
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Stop a running pipeline: the current step is stopped and the remaining steps are skipped
+     */
+    stop(name: string): void {
+        const run = this.runs.get(name);
+        if (!run || run.status !== StepStatus.RUNNING) {
+            vscode.window.showInformationMessage(`Pipeline "${name}" is not running`);
+            return;
+        }
+
+        run.stopRequested = true;
+        const current = run.steps.find(stepRun => stepRun.status === StepStatus.RUNNING);
+        if (current && current.jobId !== undefined) {
+            this.jobManager.stop(current.jobId);
+        }
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,139 @@
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+
+/**
+ * Signals the processes of a command and counts those still running
+ * @param signal Signal to send (without it, the processes are only counted)
+ * @returns Number of matching processes (zombies excluded)
+ */
+export type ProcessTreeSignaller = (signal?: NodeJS.Signals) => Promise<number>;
+
+// Variable set on every command run; every process the command starts inherits it, including
+// processes in a new session (the pty wrapper) or a new process group
+export const RUN_ID_VARIABLE = 'DEEPROUTE_RUN_ID';
+
+/**
+ * Unique id of one attempt of a job, for RUN_ID_VARIABLE
+ */
+export function createRunId(jobId: number, attempt: number): string {
+    return `${process.pid}-${jobId}-${attempt}-${Date.now()}`;
+}
+
+/**
+ * Processes of a local command: its process group (spawned with detached: true, the group id is
+ * its PID) and, where /proc exists, every process carrying the run id in its environment
+ */
+export function localProcesses(pgid: number, runId: string): ProcessTreeSignaller {
+    return async signal => {
+        const pids = new Set([...await findProcessGroup(pgid), ...await findByRunId(runId)]);
+        if (signal) {
+            try {
+                process.kill(-pgid, signal);
+            } catch {
+                // The group has already exited
+            }
+            pids.forEach(pid => {
+                try {
+                    process.kill(pid, signal);
+                } catch {
+                    // Already exited
+                }
+            });
+        }
+        return pids.size;
+    };
+}
+
+/**
+ * PIDs of the running (non-zombie) processes of a process group
+ */
+function findProcessGroup(pgid: number): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+        child_process.execFile('ps', ['-A', '-o', 'pid=,pgid=,stat='], { timeout: 10000 }, (error, stdout) => {
+            if (error) {
+                reject(new Error(`ps failed: ${error.message}`));
+                return;
+            }
+            resolve(stdout.split('\n')
+                .map(line => line.trim().split(/\s+/))
+                .filter(([, group, stat]) => Number(group) === pgid && stat && !stat.startsWith('Z'))
+                .map(([pid]) => Number(pid)));
+        });
+    });
+}
+
+/**
+ * PIDs of the processes whose environment contains the run id (Linux /proc; empty elsewhere)
+ * Zombies have an empty environment and are not found
+ */
+async function findByRunId(runId: string): Promise<number[]> {
+    let entries: string[];
+    try {
+        entries = await fs.promises.readdir('/proc');
+    } catch {
+        return [];
+    }
+
+    const marker = `${RUN_ID_VARIABLE}=${runId}`;
+    const pids: number[] = [];
+    for (const entry of entries.filter(name => /^\d+$/.test(name))) {
+        try {
+            const environ = await fs.promises.readFile(`/proc/${entry}/environ`, 'utf8');
+            if (environ.split('\0').includes(marker)) {
+                pids.push(Number(entry));
+            }
+        } catch {
+            // Exited meanwhile or owned by another user
+        }
+    }
+    return pids;
+}
+
+/**
+ * Runs docker with the given arguments where the container lives (locally or on a remote host)
+ * @returns stdout
+ * @throws Error if docker fails
+ */
+export type DockerRunner = (args: string[]) => Promise<string>;
+
+/**
+ * Run docker on this machine
+ */
+const runLocalDocker: DockerRunner = args => new Promise((resolve, reject) => {
+    child_process.execFile('docker', args, { timeout: 10000 }, (error, stdout, stderr) => {
+        if (error) {
+            reject(new Error(stderr.toString().trim() || error.message));
+            return;
+        }
+        resolve(stdout.toString());
+    });
+});
+
+/**
+ * Processes inside a container carrying a run id in their environment
+ * Killing the docker exec client leaves them running, so they are found through
+ * /proc/<pid>/environ and signalled by a separate docker exec as root
+ * @param docker Runs the docker exec (default: the local docker, see DockerRunner for remote hosts)
+ */
+export function containerProcesses(containerName: string, runId: string, docker: DockerRunner = runLocalDocker): ProcessTreeSignaller {
+    const script = [
+        'n=0',
+        'for e in /proc/[0-9]*/environ; do',
+        `  if tr '\\000' '\\n' < "$e" 2>/dev/null | grep -qxF "${RUN_ID_VARIABLE}=$2"; then`,
+        '    p=${e#/proc/}; p=${p%/environ}',
+        '    [ -n "$1" ] && kill -"$1" "$p" 2>/dev/null',
+        '    n=$((n+1))',
+        '  fi',
+        'done',
+        'echo $n'
+    ].join('\n');
+
+    return async signal => {
+        const stdout = await docker(['exec', '-u', '0', containerName, 'sh', '-c', script, 'sh', signal ? signal.replace(/^SIG/, '') : '', runId]);
+        const count = parseInt(stdout.trim(), 10);
+        if (isNaN(count)) {
+            throw new Error(`Unexpected output of the process scan in '${containerName}': ${stdout.trim()}`);
+        }
+        return count;
+    };
+}
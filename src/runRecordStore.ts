@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { ExecutionMode, Job, JobManager, JobStatus } from './jobManager';
+
+/**
+ * One finished run, kept for duration estimates
+ */
+export interface RunRecord {
+    command: string;
+    cwd?: string;
+    label: string;
+    mode: ExecutionMode;
+    target: string;
+    profile?: string;
+    status: JobStatus;
+    exitCode?: number | null;
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * Persists every finished run (unlike the history, which keeps only the latest run per command)
+ */
+export class RunRecordStore implements vscode.Disposable {
+    private readonly STORAGE_KEY = 'deeproute-compile-commands.runRecords';
+    private readonly MAX_RECORDS = 5000;
+    private disposables: vscode.Disposable[] = [];
+
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    // Fires when a run was recorded or the records were cleared
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(private state: vscode.Memento, jobManager: JobManager) {
+        this.disposables.push(this._onDidChange, jobManager.onDidFinishJob(job => this.record(job)));
+    }
+
+    /**
+     * All records, oldest first
+     */
+    getRecords(): RunRecord[] {
+        return this.state.get<RunRecord[]>(this.STORAGE_KEY, []);
+    }
+
+    /**
+     * Durations of the latest successful runs of a command in a working directory, newest first
+     */
+    getDurations(command: string, cwd: string | undefined, limit = 5): number[] {
+        return this.getRecords()
+            .filter(record => record.command === command && record.cwd === cwd && record.status === JobStatus.SUCCEEDED)
+            .slice(-limit)
+            .reverse()
+            .map(record => record.endTime - record.startTime);
+    }
+
+    /**
+     * Expected duration of a command: median of its latest successful runs
+     * @returns undefined if the command never succeeded
+     */
+    getExpectedDuration(command: string, cwd: string | undefined): number | undefined {
+        const durations = this.getDurations(command, cwd).sort((a, b) => a - b);
+        if (durations.length === 0) {
+            return undefined;
+        }
+        return durations[Math.floor(durations.length / 2)];
+    }
+
+    /**
+     * Delete all records
+     */
+    async clear(): Promise<void> {
+        await this.state.update(this.STORAGE_KEY, []);
+        this._onDidChange.fire();
+    }
+
+    private record(job: Job): void {
+        if (!job.startTime || !job.endTime) {
+            return;
+        }
+
+        const records = this.getRecords();
+        records.push({
+            command: job.command,
+            cwd: job.cwd,
+            label: job.label,
+            mode: job.options.mode,
+            target: job.target,
+            profile: job.options.profile,
+            status: job.status,
+            exitCode: job.result?.exitCode,
+            startTime: job.startTime,
+            endTime: job.endTime
+        });
+        this.state.update(this.STORAGE_KEY, records.slice(-this.MAX_RECORDS)).then(() => this._onDidChange.fire());
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
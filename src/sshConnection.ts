@@ -0,0 +1,186 @@
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+
+/**
+ * Remote build host reached over SSH
+ */
+export interface SshConfig {
+    host: string;
+    user?: string;
+    port?: number;
+    identityFile?: string;
+    remoteRoot: string;  // Workspace root as seen by the command (inside the container if the profile has one)
+    options?: string[];  // Extra ssh -o options, e.g. "StrictHostKeyChecking=accept-new"
+}
+
+/**
+ * Output of a short remote command
+ */
+export interface SshCaptureResult {
+    code: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+// Printed by a remote script before it execs the command, followed by the PID of its shell
+export const PID_MARKER = '__DEEPROUTE_REMOTE_PID__';
+
+// Time a stop gets on top of its grace period to connect and send the signals
+const STOP_OVERHEAD_SECONDS = 10;
+
+/**
+ * Take the PID marker line off the start of a remote script's output
+ * @param header Output received so far
+ * @returns undefined until the first line is complete; pid is empty if the first line is no marker
+ */
+export function parsePidMarker(header: string): { pid: string; rest: string } | undefined {
+    const newline = header.indexOf('\n');
+    if (newline < 0) {
+        return undefined;
+    }
+    const firstLine = header.substring(0, newline);
+    return firstLine.startsWith(PID_MARKER)
+        ? { pid: firstLine.substring(PID_MARKER.length).trim(), rest: header.substring(newline + 1) }
+        : { pid: '', rest: header };
+}
+
+/**
+ * Quote text for a POSIX shell
+ */
+export function shellQuote(text: string): string {
+    return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Runs commands on a remote host with the system ssh client
+ * Non-interactive: BatchMode is on, so password prompts fail instead of hanging
+ */
+export class SshConnection {
+    constructor(private config: SshConfig) {}
+
+    /**
+     * user@host[:port], for display
+     */
+    get destination(): string {
+        const target = this.config.user ? `${this.config.user}@${this.config.host}` : this.config.host;
+        return this.config.port ? `${target}:${this.config.port}` : target;
+    }
+
+    /**
+     * Build ssh arguments for running a remote shell script
+     * @param tty Force a remote pseudo terminal (-tt), for colors and interactive prompts
+     */
+    buildArgs(script: string, tty = false): string[] {
+        const args = ['-o', 'BatchMode=yes', '-o', 'ServerAliveInterval=30'];
+        if (tty) {
+            args.push('-tt');
+        }
+        if (this.config.port) {
+            args.push('-p', String(this.config.port));
+        }
+        if (this.config.identityFile) {
+            args.push('-i', this.config.identityFile.replace(/^~(?=\/|$)/, os.homedir()));
+        }
+        (this.config.options || []).forEach(option => args.push('-o', option));
+        args.push(this.config.user ? `${this.config.user}@${this.config.host}` : this.config.host);
+        args.push(script);
+        return args;
+    }
+
+    /**
+     * Start a long running remote script, streaming its output
+     */
+    spawn(script: string, tty = false): child_process.ChildProcess {
+        return child_process.spawn('ssh', this.buildArgs(script, tty));
+    }
+
+    /**
+     * Run a short remote script and collect its output
+     * @param timeoutMs The ssh client is killed after this time
+     * @param input Written to the stdin of the remote script
+     */
+    capture(script: string, timeoutMs = 30000, input?: string): Promise<SshCaptureResult> {
+        return new Promise(resolve => {
+            const proc = child_process.execFile('ssh', this.buildArgs(script), { timeout: timeoutMs, maxBuffer: 1024 * 1024 }, (error, stdout, stderr) => {
+                const code = error ? (typeof error.code === 'number' ? error.code : null) : 0;
+                resolve({ code, stdout: stdout.toString(), stderr: stderr.toString() || (error && code === null ? error.message : '') });
+            });
+            if (input !== undefined) {
+                proc.stdin?.end(input);
+            }
+        });
+    }
+
+    /**
+     * Send SIGTERM to a remote process group, and SIGKILL once the grace period is over
+     * The ssh client is killed only after the grace period, so SIGKILL is always sent.
+     * kill -s is used because the kill of dash (/bin/sh on Debian and Ubuntu) rejects "-TERM --"
+     * @param pgid Process group of the remote command (the PID printed after PID_MARKER)
+     */
+    stopProcessGroup(pgid: string, graceSeconds: number): Promise<SshCaptureResult> {
+        return this.capture(
+            `kill -s TERM -- -${pgid} 2>/dev/null; sleep ${graceSeconds}; kill -s KILL -- -${pgid} 2>/dev/null; true`,
+            (graceSeconds + STOP_OVERHEAD_SECONDS) * 1000
+        );
+    }
+
+    /**
+     * Write variables as export lines to a temporary file (mode 0600) on the remote host
+     * They are sent over stdin, so their values don't show up in the local or remote process list.
+     * The remote script sources the file and deletes it right away
+     * @returns Path of the file on the remote host
+     * @throws Error if the file cannot be written
+     */
+    async uploadEnvironment(env: Record<string, string>): Promise<string> {
+        const content = Object.entries(env).map(([key, value]) => `export ${key}=${shellQuote(value)}\n`).join('');
+        const result = await this.capture(
+            'umask 077 && f=$(mktemp "${TMPDIR:-/tmp}/deeproute-env.XXXXXX") && cat > "$f" && echo "$f"',
+            30000,
+            content
+        );
+        const file = result.stdout.trim();
+        if (result.code !== 0 || !file) {
+            throw new Error(result.stderr.trim() || `ssh exited with code ${result.code}`);
+        }
+        return file;
+    }
+
+    /**
+     * Stream the stdout of a remote script into a local file
+     * The file is written to a temporary path first and renamed once complete
+     * @throws Error if the remote script fails
+     */
+    download(script: string, localPath: string, timeoutMs = 300000): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const tempPath = `${localPath}.download`;
+            const file = fs.createWriteStream(tempPath);
+            const proc = child_process.spawn('ssh', this.buildArgs(script));
+            let stderr = '';
+            const timer = setTimeout(() => proc.kill('SIGKILL'), timeoutMs);
+
+            proc.stdout.pipe(file);
+            proc.stderr.on('data', (data: Buffer) => {
+                stderr += data.toString();
+            });
+            proc.on('error', error => {
+                clearTimeout(timer);
+                file.destroy();
+                fs.rmSync(tempPath, { force: true });
+                reject(error);
+            });
+            proc.on('close', (code: number | null) => {
+                clearTimeout(timer);
+                file.end(() => {
+                    if (code !== 0) {
+                        fs.rmSync(tempPath, { force: true });
+                        reject(new Error(stderr.trim() || `ssh exited with code ${code}`));
+                        return;
+                    }
+                    fs.renameSync(tempPath, localPath);
+                    resolve();
+                });
+            });
+        });
+    }
+}
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Extension context with an in-memory workspace state
+ */
+export function createContext(): vscode.ExtensionContext {
+    const state = new Map<string, unknown>();
+    return {
+        workspaceState: {
+            get: (key: string, defaultValue?: unknown) => state.has(key) ? state.get(key) : defaultValue,
+            update: async (key: string, value: unknown) => {
+                state.set(key, value);
+            }
+        }
+    } as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * Put executables replacing real tools first on PATH, e.g. an ssh that runs the remote script locally
+ * @param scripts Shell script per executable name
+ * @returns Function restoring PATH and removing the executables
+ */
+export function installFakeCommands(scripts: Record<string, string>): () => void {
+    const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deeproute-bin-'));
+    Object.entries(scripts).forEach(([name, script]) => {
+        fs.writeFileSync(path.join(binDir, name), `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+    });
+    const originalPath = process.env.PATH;
+    process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+    return () => {
+        process.env.PATH = originalPath;
+        fs.rmSync(binDir, { recursive: true, force: true });
+    };
+}
+
+// ssh replacement running the remote script (its last argument) with the local shell
+export const LOCAL_SSH = 'for script; do :; done; exec sh -c "$script"';
@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Mocha from 'mocha';
+import { installVscodeStub } from './vscodeStub';
+
+/**
+ * Run the unit tests in out/test/suite with mocha
+ * The tests cover logic that does not need a running VS Code, which is replaced by a stub
+ */
+function main(): void {
+    installVscodeStub();
+
+    const mocha = new Mocha({ ui: 'tdd', timeout: 20000 });
+    const suiteDir = path.resolve(__dirname, 'suite');
+    fs.readdirSync(suiteDir)
+        .filter(file => file.endsWith('.test.js'))
+        .sort()
+        .forEach(file => mocha.addFile(path.join(suiteDir, file)));
+
+    mocha.run(failures => {
+        process.exitCode = failures > 0 ? 1 : 0;
+    });
+}
+
+main();
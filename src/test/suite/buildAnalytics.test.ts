@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { computeCommandStats, percentile, toCsv } from '../../buildAnalytics';
+import { JobStatus } from '../../jobManager';
+import { RunRecord } from '../../runRecordStore';
+
+function record(overrides: Partial<RunRecord>): RunRecord {
+    return {
+        command: 'make',
+        cwd: '/build',
+        label: 'make',
+        mode: 'local',
+        target: 'localhost',
+        status: JobStatus.SUCCEEDED,
+        exitCode: 0,
+        startTime: 0,
+        endTime: 1000,
+        ...overrides
+    };
+}
+
+suite('percentile', () => {
+    test('uses the nearest rank', () => {
+        const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+        assert.strictEqual(percentile(sorted, 50), 50);
+        assert.strictEqual(percentile(sorted, 90), 90);
+        assert.strictEqual(percentile(sorted, 0), 10);
+        assert.strictEqual(percentile([7], 90), 7);
+        assert.strictEqual(percentile([], 50), undefined);
+    });
+});
+
+suite('computeCommandStats', () => {
+    test('groups runs by command and cwd and ignores stopped runs in the failure rate', () => {
+        const stats = computeCommandStats([
+            record({ startTime: 0, endTime: 10000 }),
+            record({ startTime: 100, endTime: 120, status: JobStatus.FAILED, exitCode: 2 }),
+            record({ startTime: 200, endTime: 300, status: JobStatus.STOPPED, exitCode: null, target: 'builder' }),
+            record({ startTime: 400, endTime: 20400 }),
+            record({ cwd: '/other', startTime: 500, endTime: 1500 })
+        ]);
+
+        assert.deepStrictEqual(stats.map(s => s.cwd), ['/build', '/other']);
+        const [build] = stats;
+        assert.strictEqual(build.runs, 4);
+        assert.strictEqual(build.failures, 1);
+        assert.strictEqual(build.failureRate, 1 / 3);
+        assert.strictEqual(build.p50, 10000);
+        assert.strictEqual(build.p90, 20000);
+        assert.deepStrictEqual(build.targets, ['localhost', 'builder']);
+        assert.strictEqual(build.lastRun, 400);
+        assert.strictEqual(build.trend, undefined);
+    });
+
+    test('compares the latest five successful runs with the five before', () => {
+        const durations = [10, 10, 10, 10, 10, 15, 15, 15, 15, 15].map(seconds => seconds * 1000);
+        const stats = computeCommandStats(durations.map((duration, i) => record({ startTime: i * 100000, endTime: i * 100000 + duration })));
+        assert.strictEqual(stats[0].trend, 0.5);
+    });
+
+    test('skips runs before the start of the period', () => {
+        assert.deepStrictEqual(computeCommandStats([record({ startTime: 10 })], 20), []);
+    });
+});
+
+suite('toCsv', () => {
+    test('writes one quoted row per run', () => {
+        const csv = toCsv([record({
+            command: 'make CFLAGS="-O2, -g"',
+            label: 'make',
+            status: JobStatus.FAILED,
+            exitCode: 2,
+            startTime: Date.UTC(2024, 0, 1),
+            endTime: Date.UTC(2024, 0, 1) + 1500,
+            cwd: undefined
+        })]);
+        assert.strictEqual(csv, [
+            'start,end,duration_s,label,command,cwd,mode,target,profile,status,exit_code',
+            '2024-01-01T00:00:00.000Z,2024-01-01T00:00:01.500Z,1.5,make,"make CFLAGS=""-O2, -g""",,local,localhost,,failed,2',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import { BuildDiagnostics, BuildOutputParser } from '../../buildDiagnostics';
+import { JobManager } from '../../jobManager';
+import { Diagnostic, DiagnosticSeverity, diagnosticCollections } from '../vscodeStub';
+
+suite('BuildOutputParser', () => {
+    test('parses compiler errors with and without column', () => {
+        const parser = new BuildOutputParser();
+        assert.deepStrictEqual(parser.parseLine('src/foo.cc:12:5: error: expected \';\' after expression'), [{
+            file: 'src/foo.cc',
+            line: 12,
+            column: 5,
+            severity: 'error',
+            message: 'expected \';\' after expression',
+            source: 'compiler'
+        }]);
+        assert.deepStrictEqual(parser.parseLine('/sandbox/include/bar.h:3: warning: "FOO" redefined'), [{
+            file: '/sandbox/include/bar.h',
+            line: 3,
+            severity: 'warning',
+            message: '"FOO" redefined',
+            source: 'compiler'
+        }]);
+    });
+
+    test('maps fatal error to error and keeps notes', () => {
+        const parser = new BuildOutputParser();
+        assert.strictEqual(parser.parseLine('a.cc:1:10: fatal error: foo.h: No such file or directory')[0].severity, 'error');
+        assert.strictEqual(parser.parseLine('a.cc:4:2: note: declared here')[0].severity, 'note');
+    });
+
+    test('parses linker errors with a line or a section', () => {
+        const parser = new BuildOutputParser();
+        const [withLine] = parser.parseLine('/usr/bin/ld: src/main.cc:20: undefined reference to `foo()\'');
+        assert.strictEqual(withLine.file, 'src/main.cc');
+        assert.strictEqual(withLine.line, 20);
+        assert.strictEqual(withLine.source, 'ld');
+
+        const [withSection] = parser.parseLine('main.cc:(.text+0x12): multiple definition of `bar\'');
+        assert.strictEqual(withSection.file, 'main.cc');
+        assert.strictEqual(withSection.line, 1);
+        assert.strictEqual(withSection.message, 'multiple definition of `bar\'');
+    });
+
+    test('parses ninja errors', () => {
+        const parser = new BuildOutputParser();
+        assert.deepStrictEqual(parser.parseLine('ninja: error: build.ninja:123: bad $-escape'), [{
+            file: 'build.ninja',
+            line: 123,
+            severity: 'error',
+            message: 'bad $-escape',
+            source: 'ninja'
+        }]);
+    });
+
+    test('collects multi-line CMake messages until the next unindented line', () => {
+        const parser = new BuildOutputParser();
+        assert.deepStrictEqual(parser.parseLine('CMake Error at CMakeLists.txt:12 (find_package):'), []);
+        assert.deepStrictEqual(parser.parseLine('  Could not find a package configuration file'), []);
+        assert.deepStrictEqual(parser.parseLine(''), []);
+        assert.deepStrictEqual(parser.parseLine('  provided by "Foo".'), []);
+        assert.deepStrictEqual(parser.parseLine('-- Configuring incomplete, errors occurred!'), [{
+            file: 'CMakeLists.txt',
+            line: 12,
+            severity: 'error',
+            message: 'Could not find a package configuration file provided by "Foo".',
+            source: 'cmake (find_package)'
+        }]);
+        assert.deepStrictEqual(parser.flush(), []);
+    });
+
+    test('flushes a pending CMake warning at the end of the output', () => {
+        const parser = new BuildOutputParser();
+        parser.parseLine('CMake Warning (dev) at cmake/deps.cmake:7 (message):');
+        const [diagnostic] = parser.flush();
+        assert.strictEqual(diagnostic.severity, 'warning');
+        assert.strictEqual(diagnostic.message, 'CMake warning');
+        assert.strictEqual(diagnostic.source, 'cmake (message)');
+    });
+
+    test('ignores ordinary output', () => {
+        const parser = new BuildOutputParser();
+        assert.deepStrictEqual(parser.parseLine('[12/40] Building CXX object src/foo.cc.o'), []);
+        assert.deepStrictEqual(parser.parseLine('-- Build files have been written to: /sandbox/build'), []);
+    });
+});
+
+suite('BuildDiagnostics', () => {
+    let jobManager: JobManager;
+    let diagnostics: BuildDiagnostics;
+
+    setup(() => {
+        jobManager = new JobManager();
+        diagnostics = new BuildDiagnostics(jobManager);
+    });
+
+    teardown(() => {
+        diagnostics.dispose();
+        jobManager.dispose();
+    });
+
+    /**
+     * Run a job printing the given output and return the published diagnostics by file
+     */
+    async function publish(lines: string[]): Promise<Map<string, Diagnostic[]>> {
+        const job = jobManager.enqueue({ label: 'build', command: 'make', target: 'Local', mode: 'local', workDir: '/src' }, async job => {
+            job.write(lines.join('\n') + '\n');
+            return { exitCode: 1, signal: null };
+        });
+        await jobManager.waitForJob(job);
+        // Updates are batched
+        await new Promise(resolve => setTimeout(resolve, 600));
+        return diagnosticCollections.get('deeproute-build')!;
+    }
+
+    test('attaches notes to the preceding diagnostic and drops duplicates', async () => {
+        const files = await publish([
+            'a.h:3:1: error: unknown type name \'foo\'',
+            'a.h:1:1: note: in file included from here',
+            'b.cc:5:2: warning: unused variable \'x\'',
+            'a.h:3:1: error: unknown type name \'foo\'',
+            'a.h:2:1: note: in file included from there'
+        ]);
+
+        // The note after the duplicate has no diagnostic to belong to and is shown on its own
+        const [error, note] = files.get('/src/a.h')!;
+        assert.strictEqual(files.get('/src/a.h')!.length, 2);
+        assert.deepStrictEqual(error.relatedInformation?.map(info => info.message), ['in file included from here']);
+        assert.strictEqual(note.message, 'in file included from there');
+        assert.strictEqual(note.severity, DiagnosticSeverity.Information);
+
+        const [warning] = files.get('/src/b.cc')!;
+        assert.strictEqual(warning.message, 'unused variable \'x\'');
+        assert.strictEqual(warning.relatedInformation, undefined);
+    });
+});
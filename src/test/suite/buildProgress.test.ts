@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { BuildProgressParser, formatDuration } from '../../buildProgress';
+
+suite('BuildProgressParser', () => {
+    const parser = new BuildProgressParser();
+
+    test('parses ninja progress', () => {
+        assert.deepStrictEqual(parser.parseLine('[25/100] Building CXX object src/CMakeFiles/app.dir/main.cc.o'), {
+            fraction: 0.25,
+            target: 'Building CXX object src/CMakeFiles/app.dir/main.cc.o'
+        });
+        assert.strictEqual(parser.parseLine('[0/0] Nothing'), undefined);
+    });
+
+    test('parses make progress', () => {
+        assert.deepStrictEqual(parser.parseLine('[ 45%] Linking CXX executable app'), { fraction: 0.45, target: 'Linking CXX executable app' });
+        assert.deepStrictEqual(parser.parseLine('[100%] Built target app'), { fraction: 1, target: 'Built target app' });
+    });
+
+    test('uses the last segment of a line overwritten with carriage returns', () => {
+        assert.deepStrictEqual(parser.parseLine('[1/4] a.cc.o\r[3/4] c.cc.o'), { fraction: 0.75, target: 'c.cc.o' });
+    });
+
+    test('parses numbered and plain stage banners', () => {
+        assert.deepStrictEqual(parser.parseLine('===== [2/5] Build ====='), { stage: 'Build', stageIndex: 2, stageCount: 5 });
+        assert.deepStrictEqual(parser.parseLine('### Packaging ###'), { stage: 'Packaging' });
+        assert.deepStrictEqual(parser.parseLine('>>> Install'), { stage: 'Install' });
+    });
+
+    test('ignores other output', () => {
+        assert.strictEqual(parser.parseLine('-- Configuring done'), undefined);
+        assert.strictEqual(parser.parseLine('======'), undefined);
+        assert.strictEqual(parser.parseLine('src/a.cc:1:1: error: x'), undefined);
+    });
+
+    test('supports a custom stage pattern and disables stages for an invalid one', () => {
+        assert.deepStrictEqual(new BuildProgressParser('^STEP (?<current>\\d+) of (?<total>\\d+): (?<stage>.+)$').parseLine('STEP 1 of 3: Fetch'), {
+            stage: 'Fetch',
+            stageIndex: 1,
+            stageCount: 3
+        });
+        assert.strictEqual(new BuildProgressParser('(').parseLine('===== Build ====='), undefined);
+    });
+});
+
+suite('formatDuration', () => {
+    test('formats seconds, minutes and hours', () => {
+        assert.strictEqual(formatDuration(45 * 1000), '45s');
+        assert.strictEqual(formatDuration(200 * 1000), '3m 20s');
+        assert.strictEqual(formatDuration((3600 + 120 + 5) * 1000), '1h 2m');
+        assert.strictEqual(formatDuration(-5), '0s');
+    });
+});
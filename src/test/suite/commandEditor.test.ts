@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { parseEnv, parseInputs } from '../../commandEditor';
+
+suite('parseInputs', () => {
+    test('accepts inputs with string fields', () => {
+        assert.deepStrictEqual(parseInputs(''), {});
+        assert.deepStrictEqual(parseInputs('[]'), { inputs: undefined });
+        assert.deepStrictEqual(parseInputs('[{"id": "arch", "options": ["x86", "arm64"], "default": "x86"}]'), {
+            inputs: [{ id: 'arch', options: ['x86', 'arm64'], default: 'x86' }]
+        });
+    });
+
+    test('rejects values of the wrong type', () => {
+        assert.strictEqual(parseInputs('[1').error?.startsWith('Invalid JSON'), true);
+        assert.strictEqual(parseInputs('{"id": "arch"}').error, 'Expected a JSON array');
+        assert.strictEqual(parseInputs('[{"id": "arch"}, null]').error, 'Input 2: expected an object with an "id"');
+        assert.strictEqual(parseInputs('[{"id": " "}]').error, 'Input 1: "id" is required');
+        assert.strictEqual(parseInputs('[{"id": "arch", "description": 1}]').error, 'Input 1: "description" must be a string');
+        assert.strictEqual(parseInputs('[{"id": "arch", "options": "x86"}]').error, 'Input 1: "options" must be an array of strings');
+        assert.strictEqual(parseInputs('[{"id": "arch", "options": ["x86", 2]}]').error, 'Input 1: "options" must be an array of strings');
+        assert.strictEqual(parseInputs('[{"id": "arch", "default": 2}]').error, 'Input 1: "default" must be a string');
+    });
+});
+
+suite('parseEnv', () => {
+    test('accepts string values of valid variable names', () => {
+        assert.deepStrictEqual(parseEnv(''), {});
+        assert.deepStrictEqual(parseEnv('{}'), { env: undefined });
+        assert.deepStrictEqual(Object.entries(parseEnv('{"CC": "clang", "_flags": ""}').env || {}), [['CC', 'clang'], ['_flags', '']]);
+    });
+
+    test('rejects other JSON', () => {
+        assert.strictEqual(parseEnv('["CC"]').error, 'Expected a JSON object');
+        assert.strictEqual(parseEnv('null').error, 'Expected a JSON object');
+        assert.strictEqual(parseEnv('{"CC": 1}').error, 'CC: names must be valid variable names and values strings');
+        assert.strictEqual(parseEnv('{"1CC": "clang"}').error, '1CC: names must be valid variable names and values strings');
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { parseEnvFile, writeDockerEnvFile } from '../../commandEnvironment';
+
+suite('parseEnvFile', () => {
+    test('reads assignments with an optional export prefix and skips comments', () => {
+        const env = parseEnvFile([
+            '# Toolchain',
+            'export CC=clang',
+            '  CXX = clang++  ',
+            'not an assignment',
+            '1BAD=value',
+            'FLAGS=-O2 -g # inline comment',
+            'HASH=a#b',
+            '',
+            'exported=yes'
+        ].join('\r\n'));
+
+        assert.deepStrictEqual(Object.entries(env), [
+            ['CC', 'clang'],
+            ['CXX', 'clang++'],
+            ['FLAGS', '-O2 -g'],
+            ['HASH', 'a#b'],
+            ['exported', 'yes']
+        ]);
+    });
+
+    test('unquotes values and expands escapes in double quotes only', () => {
+        const env = parseEnvFile([
+            'DOUBLE="line 1\\nline \\"2\\" # kept"',
+            'SINGLE=\'no \\n escapes # kept\'',
+            'EMPTY=""',
+            'UNBALANCED="open',
+            'LAST=first',
+            'LAST=second'
+        ].join('\n'));
+
+        assert.deepStrictEqual(Object.entries(env), [
+            ['DOUBLE', 'line 1\nline "2" # kept'],
+            ['SINGLE', 'no \\n escapes # kept'],
+            ['EMPTY', ''],
+            ['UNBALANCED', '"open'],
+            ['LAST', 'second']
+        ]);
+    });
+});
+
+suite('writeDockerEnvFile', () => {
+    test('writes single-line values to a file only the user can read', () => {
+        const { file, inline } = writeDockerEnvFile(Object.fromEntries([['TOKEN', 's3cret'], ['MULTI', 'a\nb'], ['EMPTY', '']]));
+        try {
+            assert.ok(file);
+            assert.strictEqual(fs.statSync(file).mode & 0o777, 0o600);
+            assert.strictEqual(fs.readFileSync(file, 'utf8'), 'TOKEN=s3cret\nEMPTY=\n');
+            assert.deepStrictEqual(Object.entries(inline), [['MULTI', 'a\nb']]);
+        } finally {
+            if (file) {
+                fs.rmSync(file, { force: true });
+            }
+        }
+    });
+
+    test('writes no file when every value spans lines', () => {
+        assert.deepStrictEqual(writeDockerEnvFile({}), { inline: {} });
+        assert.strictEqual(writeDockerEnvFile(Object.fromEntries([['MULTI', 'a\r\nb']])).file, undefined);
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { COMMAND_FILE, CommandStore, normalizeGroup } from '../../commandStore';
+import { settings, window, workspace } from '../vscodeStub';
+
+const USER_COMMANDS = 'deeproute-compile-commands.predefinedCommands';
+
+suite('normalizeGroup', () => {
+    test('trims segments and drops empty ones', () => {
+        assert.strictEqual(normalizeGroup('/Build//x86 '), 'Build/x86');
+        assert.strictEqual(normalizeGroup(' Build / arm64 '), 'Build/arm64');
+        assert.strictEqual(normalizeGroup(' / '), undefined);
+        assert.strictEqual(normalizeGroup(undefined), undefined);
+    });
+});
+
+suite('CommandStore', () => {
+    let tempDir: string;
+    const showWarningMessage = window.showWarningMessage;
+
+    function writeWorkspaceCommands(commands: unknown[]): void {
+        const filePath = path.join(tempDir, COMMAND_FILE);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify({ commands }));
+    }
+
+    function readWorkspaceCommands(): unknown[] {
+        return JSON.parse(fs.readFileSync(path.join(tempDir, COMMAND_FILE), 'utf8')).commands;
+    }
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deeproute-commands-'));
+        workspace.workspaceFolders = [{ uri: { fsPath: tempDir } }];
+    });
+
+    teardown(() => {
+        workspace.workspaceFolders = undefined;
+        window.showWarningMessage = showWarningMessage;
+        settings.clear();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('lists workspace commands first and hides user commands with the same text', () => {
+        writeWorkspaceCommands(['make', { command: 'make test', group: 'Test' }]);
+        settings.set(USER_COMMANDS, ['make', { command: 'make install' }, { alias: 'no command' }]);
+
+        assert.deepStrictEqual(CommandStore.getCommands(), [
+            { config: { command: 'make' }, source: 'workspace' },
+            { config: { command: 'make test', group: 'Test' }, source: 'workspace' },
+            { config: { command: 'make install' }, source: 'user' }
+        ]);
+    });
+
+    test('finds a command in the given source even when it is hidden', () => {
+        writeWorkspaceCommands([{ command: 'make', alias: 'Workspace build' }]);
+        settings.set(USER_COMMANDS, [{ command: 'make', alias: 'User build' }]);
+
+        assert.strictEqual(CommandStore.find('make')?.config.alias, 'Workspace build');
+        assert.deepStrictEqual(CommandStore.find('make', 'user'), { config: { command: 'make', alias: 'User build' }, source: 'user' });
+        assert.strictEqual(CommandStore.find('make install', 'workspace'), undefined);
+    });
+
+    test('updates and removes commands only in their source', async () => {
+        writeWorkspaceCommands(['make']);
+        settings.set(USER_COMMANDS, ['make']);
+
+        assert.strictEqual(await CommandStore.update('make', 'user', current => ({ ...current, alias: 'Build' })), true);
+        assert.deepStrictEqual(settings.get(USER_COMMANDS), [{ command: 'make', alias: 'Build' }]);
+        assert.deepStrictEqual(readWorkspaceCommands(), ['make']);
+
+        assert.strictEqual(await CommandStore.remove('make', 'workspace'), true);
+        assert.deepStrictEqual(readWorkspaceCommands(), []);
+        assert.strictEqual(await CommandStore.remove('make', 'workspace'), false);
+    });
+
+    test('rejects comments with a warning and never overwrites the file', async () => {
+        const warnings: string[] = [];
+        window.showWarningMessage = async (message?: string) => {
+            warnings.push(message || '');
+            return undefined;
+        };
+        const filePath = path.join(tempDir, COMMAND_FILE);
+        const content = '{\n    // Shared build\n    "commands": ["make"]\n}\n';
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+
+        assert.deepStrictEqual(CommandStore.getCommands(), []);
+        assert.strictEqual(warnings.length, 1);
+        assert.match(warnings[0], /Invalid \.vscode[\\/]deeproute-commands\.json: not valid JSON, comments and trailing commas are not allowed/);
+
+        await assert.rejects(CommandStore.add({ command: 'make test' }, 'workspace'), /Cannot update .*comments and trailing commas are not allowed/);
+        assert.strictEqual(fs.readFileSync(filePath, 'utf8'), content);
+    });
+
+    test('moves commands into a group before another command', async () => {
+        writeWorkspaceCommands(['a', 'b', { command: 'c', group: 'Old' }]);
+        await CommandStore.move(['c'], 'workspace', '/Build//x86', 'a');
+        assert.deepStrictEqual(readWorkspaceCommands(), [{ command: 'c', group: 'Build/x86' }, 'a', 'b']);
+    });
+});
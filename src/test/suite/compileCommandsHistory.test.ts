@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompileCommandsHistory, parseCompileFlags, splitCommandLine } from '../../compileCommandsHistory';
+
+// Snapshot ids are millisecond timestamps
+function nextMillisecond(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 5));
+}
+
+suite('splitCommandLine', () => {
+    test('splits on whitespace and honours quotes and escapes', () => {
+        assert.deepStrictEqual(
+            splitCommandLine('g++  -DNAME="a b" -DQ=\'x "y"\' -DE=\\"z\\" "" -c a\\ b.cc'),
+            ['g++', '-DNAME=a b', '-DQ=x "y"', '-DE="z"', '', '-c', 'a b.cc']
+        );
+        assert.deepStrictEqual(splitCommandLine('  '), []);
+    });
+});
+
+suite('parseCompileFlags', () => {
+    test('groups flags and skips the output and source file', () => {
+        const flags = parseCompileFlags({
+            directory: '/build',
+            file: '../src/a.cc',
+            command: '/usr/bin/g++ -D NDEBUG -DVERSION=2 -U FOO -I /src/include -isystem/opt/include -std=c++17 -O2 -o a.o -c /src/a.cc'
+        });
+        assert.deepStrictEqual(flags, {
+            compiler: '/usr/bin/g++',
+            defines: ['-DNDEBUG', '-DVERSION=2', '-UFOO'],
+            includes: ['-I /src/include', '-isystem/opt/include'],
+            standard: ['-std=c++17'],
+            other: ['-O2', '-c']
+        });
+    });
+
+    test('prefers the arguments field', () => {
+        const flags = parseCompileFlags({
+            directory: '/build',
+            file: 'a.cc',
+            command: 'ignored -DIGNORED',
+            arguments: ['clang++', '--std=c++20', '-include', 'pch.h', 'a.cc']
+        });
+        assert.deepStrictEqual(flags, { compiler: 'clang++', defines: [], includes: ['-include pch.h'], standard: ['--std=c++20'], other: [] });
+    });
+});
+
+suite('CompileCommandsHistory', () => {
+    let tempDir: string;
+    let databasePath: string;
+
+    function writeDatabase(entries: { file: string; command: string }[]): void {
+        fs.writeFileSync(databasePath, JSON.stringify(entries.map(entry => ({ directory: '/build', ...entry }))));
+    }
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deeproute-history-'));
+        databasePath = path.join(tempDir, 'compile_commands.json');
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('diffs a database against its previous snapshot by flag category', async () => {
+        const history = new CompileCommandsHistory(path.join(tempDir, 'history'));
+        writeDatabase([
+            { file: 'a.cc', command: 'g++ -DA -c a.cc' },
+            { file: 'b.cc', command: 'g++ -Iinc -c b.cc' },
+            { file: 'c.cc', command: 'g++ -c c.cc' }
+        ]);
+        const first = await history.record(databasePath);
+        assert.strictEqual(first.entries, 3);
+        assert.strictEqual(first.diff, undefined);
+
+        await nextMillisecond();
+        writeDatabase([
+            { file: 'a.cc', command: 'g++ -DB -std=c++17 -c a.cc' },
+            { file: 'b.cc', command: 'g++ -Iinc -c b.cc -o b.o' },
+            { file: 'd.cc', command: 'g++ -c d.cc' }
+        ]);
+        const second = await history.record(databasePath);
+        assert.strictEqual(second.previousId, first.id);
+        assert.deepStrictEqual(second.diff, {
+            added: ['/build/d.cc'],
+            removed: ['/build/c.cc'],
+            changed: [{ file: '/build/a.cc', categories: ['defines', 'standard'] }],
+            unchanged: 1,
+            categories: { defines: 1, includes: 0, standard: 1, other: 0 }
+        });
+
+        assert.deepStrictEqual(history.list(databasePath).map(snapshot => snapshot.id), [second.id, first.id]);
+        const entry = await history.readEntry(first, '/build/a.cc');
+        assert.strictEqual(entry?.command, 'g++ -DA -c a.cc');
+    });
+
+    test('keeps only the newest snapshots', async () => {
+        const history = new CompileCommandsHistory(path.join(tempDir, 'history'), 2);
+        writeDatabase([{ file: 'a.cc', command: 'g++ -c a.cc' }]);
+        const ids: string[] = [];
+        for (let i = 0; i < 3; i++) {
+            await nextMillisecond();
+            ids.push((await history.record(databasePath)).id);
+        }
+        assert.deepStrictEqual(history.list(databasePath).map(snapshot => snapshot.id), [ids[2], ids[1]]);
+    });
+
+    test('does not keep a snapshot of an invalid database', async () => {
+        const history = new CompileCommandsHistory(path.join(tempDir, 'history'));
+        fs.writeFileSync(databasePath, '[{"directory": "/build"');
+        await assert.rejects(history.record(databasePath), /truncated/);
+        assert.deepStrictEqual(history.list(), []);
+    });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompileCommandsMerger } from '../../compileCommandsMerger';
+import { PathMapper } from '../../pathMapper';
+import { settings } from '../vscodeStub';
+
+suite('CompileCommandsMerger', () => {
+    let root: string;
+
+    /**
+     * Write the database of a module, one entry per file compiled with the given command
+     * @param age Seconds the database is older than now
+     */
+    function writeModule(module: string, files: [string, string][], age = 0): void {
+        const dir = path.join(root, module);
+        fs.mkdirSync(dir, { recursive: true });
+        const filePath = path.join(dir, 'compile_commands.json');
+        fs.writeFileSync(filePath, JSON.stringify(files.map(([file, command]) => ({ directory: root, file, command }))));
+        const time = new Date(Date.now() - age * 1000);
+        fs.utimesSync(filePath, time, time);
+    }
+
+    function readMerged(): [string, string][] {
+        const entries: { file: string; command: string }[] = JSON.parse(fs.readFileSync(path.join(root, 'compile_commands.json'), 'utf8'));
+        return entries.map(entry => [entry.file, entry.command]);
+    }
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'deeproute-merge-'));
+        settings.set('deeproute-compile-commands.compileCommandsModules', ['planning', 'perception', 'missing', ' ']);
+        writeModule('planning', [['common/log.cc', 'g++ -DPLANNING'], ['planning/a.cc', 'g++ -c a']], 60);
+        writeModule('perception', [['common/log.cc', 'g++ -DPERCEPTION'], ['perception/b.cc', 'g++ -c b']]);
+    });
+
+    teardown(() => {
+        settings.clear();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('keeps the entry of the module listed first', async () => {
+        const result = await new CompileCommandsMerger(root).merge();
+
+        assert.strictEqual(result.outputPath, path.join(root, 'compile_commands.json'));
+        assert.strictEqual(result.entries, 3);
+        assert.strictEqual(result.duplicates, 1);
+        assert.deepStrictEqual(result.missing, ['missing']);
+        assert.deepStrictEqual(result.sources.map(source => [source.module, source.entries, source.used]), [
+            ['planning', 2, 2],
+            ['perception', 2, 1]
+        ]);
+        assert.deepStrictEqual(readMerged(), [
+            ['common/log.cc', 'g++ -DPLANNING'],
+            ['planning/a.cc', 'g++ -c a'],
+            ['perception/b.cc', 'g++ -c b']
+        ]);
+    });
+
+    test('keeps the entry of the newest database', async () => {
+        settings.set('deeproute-compile-commands.compileCommandsMergePrecedence', 'newest');
+        const result = await new CompileCommandsMerger(root).merge();
+
+        assert.deepStrictEqual(result.sources.map(source => source.module), ['perception', 'planning']);
+        assert.deepStrictEqual(readMerged()[0], ['common/log.cc', 'g++ -DPERCEPTION']);
+    });
+
+    test('never reads the merged database as an input', async () => {
+        writeModule('.', [['stale.cc', 'g++ -c stale']]);
+        settings.set('deeproute-compile-commands.compileCommandsModules', ['.', 'planning']);
+        const result = await new CompileCommandsMerger(root).merge();
+
+        assert.deepStrictEqual(result.sources.map(source => source.module), ['planning']);
+        assert.deepStrictEqual(readMerged().map(([file]) => file), ['common/log.cc', 'planning/a.cc']);
+    });
+
+    test('maps container paths left in module databases', async () => {
+        fs.writeFileSync(path.join(root, 'planning', 'compile_commands.json'), JSON.stringify([
+            { directory: '/sandbox/build', file: '/sandbox/planning/a.cc', command: 'g++ -I/sandbox/include -c a.cc' }
+        ]));
+        settings.set('deeproute-compile-commands.compileCommandsModules', ['planning']);
+        await new CompileCommandsMerger(root).merge(new PathMapper([{ hostPath: root, containerPath: '/sandbox' }]));
+
+        assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(root, 'compile_commands.json'), 'utf8')), [
+            { directory: `${root}/build`, file: `${root}/planning/a.cc`, command: `g++ -I${root}/include -c a.cc` }
+        ]);
+    });
+
+    test('keeps the previous merge when a module database is invalid', async () => {
+        const outputPath = path.join(root, 'compile_commands.json');
+        fs.writeFileSync(outputPath, '[]');
+        fs.writeFileSync(path.join(root, 'perception', 'compile_commands.json'), '[{"directory": "/"');
+
+        await assert.rejects(new CompileCommandsMerger(root).merge(), /truncated/);
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), '[]');
+        assert.deepStrictEqual(fs.readdirSync(root).sort(), ['compile_commands.json', 'perception', 'planning']);
+    });
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import {
+    CompileCommand,
+    CompileCommandsParser,
+    CompileCommandsRewriter,
+    RewriteResult,
+    rewriteEmbeddedPaths,
+    streamCompileCommands
+} from '../../compileCommandsRewriter';
+import { PathMapper } from '../../pathMapper';
+
+const mapper = new PathMapper([{ hostPath: '/home/dev/repo', containerPath: '/sandbox' }]);
+
+function emptyFields(): RewriteResult['fields'] {
+    return { directory: 0, file: 0, output: 0, command: 0, arguments: 0 };
+}
+
+suite('CompileCommandsParser', () => {
+    const entries: CompileCommand[] = [
+        { directory: '/sandbox/build', file: 'a.cc', command: 'g++ -DNAME="{x}" -c a.cc' },
+        { directory: '/sandbox/build', file: 'b "quoted" \\ [b].cc', arguments: ['g++', '-c', 'b.cc'], extra: { nested: [1, { x: '}' }] } }
+    ];
+    const text = JSON.stringify(entries, null, 2);
+
+    test('parses a database fed in chunks of any size', () => {
+        for (const size of [1, 2, 7, 64, text.length]) {
+            const parser = new CompileCommandsParser();
+            const parsed: CompileCommand[] = [];
+            for (let i = 0; i < text.length; i += size) {
+                parsed.push(...parser.push(text.substring(i, i + size)));
+            }
+            parser.end();
+            assert.deepStrictEqual(parsed, entries, `chunk size ${size}`);
+        }
+    });
+
+    test('accepts an empty database', () => {
+        const parser = new CompileCommandsParser();
+        assert.deepStrictEqual(parser.push(' [ ]\n'), []);
+        parser.end();
+    });
+
+    test('rejects text that is not an array of objects', () => {
+        assert.throws(() => new CompileCommandsParser().push('{"directory": "/"}'), /Expected '\['/);
+        assert.throws(() => new CompileCommandsParser().push('["a.cc"]'), /Expected an entry object/);
+        assert.throws(() => new CompileCommandsParser().push('[] x'), /after the end of the database/);
+    });
+
+    test('rejects a truncated database', () => {
+        const parser = new CompileCommandsParser();
+        parser.push(text.substring(0, text.length - 10));
+        assert.throws(() => parser.end(), /database is truncated/);
+    });
+
+    test('streams entries from a readable stream', async () => {
+        const stream = new PassThrough();
+        stream.end(text);
+        const files: string[] = [];
+        assert.strictEqual(await streamCompileCommands(stream, entry => {
+            files.push(entry.file);
+        }), 2);
+        assert.deepStrictEqual(files, entries.map(entry => entry.file));
+    });
+});
+
+suite('rewriteEmbeddedPaths', () => {
+    test('maps paths after flags, quotes and separators', () => {
+        assert.deepStrictEqual(
+            rewriteEmbeddedPaths('g++ -I/sandbox/include -isystem /sandbox/third_party --sysroot=/sandbox/sysroot "-DROOT=/sandbox" -c /sandbox/a.cc', mapper),
+            {
+                text: 'g++ -I/home/dev/repo/include -isystem /home/dev/repo/third_party --sysroot=/home/dev/repo/sysroot "-DROOT=/home/dev/repo" -c /home/dev/repo/a.cc',
+                count: 5
+            }
+        );
+        assert.deepStrictEqual(rewriteEmbeddedPaths('-Wl,-rpath,/sandbox/lib', mapper), { text: '-Wl,-rpath,/home/dev/repo/lib', count: 1 });
+    });
+
+    test('leaves paths outside the mappings untouched', () => {
+        const text = 'g++ -I/sandbox_old/include -I/usr/include -o out/a.o';
+        assert.deepStrictEqual(rewriteEmbeddedPaths(text, mapper), { text, count: 0 });
+    });
+});
+
+suite('CompileCommandsRewriter', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deeproute-rewriter-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('rewrites only the path fields of an entry and counts per field', () => {
+        const rewriter = new CompileCommandsRewriter(mapper);
+        const fields = emptyFields();
+        const entry: CompileCommand = {
+            directory: '/sandbox/build',
+            file: '/sandbox/src/a.cc',
+            output: 'a.o',
+            arguments: ['g++', '-I/sandbox/include', '-c', '/sandbox/src/a.cc'],
+            note: '/sandbox/untouched'
+        };
+        assert.strictEqual(rewriter.rewriteEntry(entry, fields), 4);
+        assert.deepStrictEqual(entry, {
+            directory: '/home/dev/repo/build',
+            file: '/home/dev/repo/src/a.cc',
+            output: 'a.o',
+            arguments: ['g++', '-I/home/dev/repo/include', '-c', '/home/dev/repo/src/a.cc'],
+            note: '/sandbox/untouched'
+        });
+        assert.deepStrictEqual(fields, { directory: 1, file: 1, output: 0, command: 0, arguments: 2 });
+    });
+
+    test('replaces the database and keeps a backup', async () => {
+        const filePath = path.join(tempDir, 'compile_commands.json');
+        const original = JSON.stringify([{ directory: '/sandbox/build', file: 'a.cc', command: 'g++ -I/sandbox/include -c a.cc' }]);
+        fs.writeFileSync(filePath, original);
+
+        const result = await new CompileCommandsRewriter(mapper).rewrite(filePath);
+        assert.strictEqual(result.entries, 1);
+        assert.strictEqual(result.replacements, 2);
+        assert.strictEqual(result.backupPath, `${filePath}.bak`);
+        assert.strictEqual(fs.readFileSync(`${filePath}.bak`, 'utf8'), original);
+        assert.deepStrictEqual(JSON.parse(fs.readFileSync(filePath, 'utf8')), [
+            { directory: '/home/dev/repo/build', file: 'a.cc', command: 'g++ -I/home/dev/repo/include -c a.cc' }
+        ]);
+        assert.deepStrictEqual(fs.readdirSync(tempDir).sort(), ['compile_commands.json', 'compile_commands.json.bak']);
+    });
+
+    test('leaves a database without container paths unchanged', async () => {
+        const filePath = path.join(tempDir, 'compile_commands.json');
+        fs.writeFileSync(filePath, '[{"directory": "/home/dev/repo", "file": "a.cc"}]');
+
+        const result = await new CompileCommandsRewriter(mapper).rewrite(filePath);
+        assert.strictEqual(result.replacements, 0);
+        assert.strictEqual(result.backupPath, undefined);
+        assert.deepStrictEqual(fs.readdirSync(tempDir), ['compile_commands.json']);
+    });
+
+    test('keeps the original when the database is invalid', async () => {
+        const filePath = path.join(tempDir, 'compile_commands.json');
+        fs.writeFileSync(filePath, '[{"directory": "/sandbox", "file": "a.cc"}');
+
+        await assert.rejects(new CompileCommandsRewriter(mapper).rewrite(filePath), /truncated/);
+        assert.deepStrictEqual(fs.readdirSync(tempDir), ['compile_commands.json']);
+    });
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { COMMAND_FILE } from '../../commandStore';
+import { CompileCommandsStaleDetector } from '../../compileCommandsStaleDetector';
+import { fireFileCreated, statusBarItems, window, workspace, workspaceFiles } from '../vscodeStub';
+
+suite('CompileCommandsStaleDetector', () => {
+    let root: string;
+    let databasePath: string;
+    let detector: CompileCommandsStaleDetector | undefined;
+    const showWarningMessage = window.showWarningMessage;
+
+    function writeFile(relativePath: string, content: string, mtime?: Date): string {
+        const filePath = path.join(root, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+        if (mtime) {
+            fs.utimesSync(filePath, mtime, mtime);
+        }
+        return filePath;
+    }
+
+    function createSource(relativePath: string): void {
+        fireFileCreated(writeFile(relativePath, ''));
+    }
+
+    // Scans and source checks run in the background
+    async function settle(): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    function getReasons(): string[] {
+        return detector!.getStaleDatabases().flatMap(stale => stale.reasons);
+    }
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'deeproute-stale-'));
+        workspace.workspaceFolders = [{ uri: { fsPath: root } }];
+        writeFile(COMMAND_FILE, JSON.stringify({ commands: [{ command: 'cmake ..', cwd: 'build', regeneratesCompileCommands: true }] }));
+        writeFile('CMakeLists.txt', '', new Date(Date.now() - 60000));
+        databasePath = path.join(root, 'build', 'compile_commands.json');
+    });
+
+    teardown(() => {
+        detector?.dispose();
+        detector = undefined;
+        workspace.workspaceFolders = undefined;
+        workspaceFiles.length = 0;
+        window.showWarningMessage = showWarningMessage;
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('reports a missing database', async () => {
+        detector = new CompileCommandsStaleDetector(root);
+        await settle();
+
+        assert.deepStrictEqual(getReasons(), ['compile_commands.json is missing']);
+        assert.strictEqual(statusBarItems[0].visible, true);
+    });
+
+    test('reports build inputs changed after the database', async () => {
+        writeFile('build/compile_commands.json', '[]');
+        workspaceFiles.push(path.join(root, 'CMakeLists.txt'), writeFile('cmake/deps.cmake', '', new Date(Date.now() + 60000)));
+        detector = new CompileCommandsStaleDetector(root);
+        await settle();
+
+        assert.deepStrictEqual(getReasons(), ['cmake/deps.cmake']);
+    });
+
+    test('reports new sources that the database does not contain, but not new headers', async () => {
+        writeFile('build/compile_commands.json', JSON.stringify([
+            { directory: path.join(root, 'build'), file: path.join(root, 'src', 'a.cc'), command: 'g++ -c ../src/a.cc' }
+        ]));
+        detector = new CompileCommandsStaleDetector(root);
+        await settle();
+        assert.deepStrictEqual(getReasons(), []);
+        assert.strictEqual(statusBarItems[0].visible, false);
+
+        createSource('src/a.cc');
+        createSource('src/a.h');
+        await settle();
+        assert.deepStrictEqual(getReasons(), []);
+
+        createSource('src/b.cc');
+        createSource('build/generated.cc');
+        await settle();
+        assert.deepStrictEqual(getReasons(), [path.join('src', 'b.cc') + ' (new)']);
+        assert.strictEqual(statusBarItems[0].visible, true);
+    });
+
+    test('warns instead of rejecting when a scan fails', async () => {
+        writeFile('build/compile_commands.json', '[]');
+        const warnings: string[] = [];
+        window.showWarningMessage = async (message?: string) => {
+            warnings.push(message || '');
+            return undefined;
+        };
+        const findFiles = workspace.findFiles;
+        workspace.findFiles = async () => {
+            throw new Error('search failed');
+        };
+        try {
+            detector = new CompileCommandsStaleDetector(root);
+            await settle();
+        } finally {
+            workspace.findFiles = findFiles;
+        }
+
+        assert.strictEqual(warnings.length, 1);
+        assert.match(warnings[0], /Failed to scan the build inputs of .*compile_commands\.json: search failed/);
+        assert.deepStrictEqual(getReasons(), []);
+    });
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeepRouteCompileCommands } from '../../deepRouteCompileCommands';
+import { JobManager, JobResult } from '../../jobManager';
+import { OutputManager } from '../../outputManager';
+import { installFakeCommands } from '../fakes';
+import { outputChannels, settings } from '../vscodeStub';
+
+// Reports docker exec's env file (mode and content) and whether it still exists once docker has exited
+const FAKE_DOCKER = `
+case "$1" in
+    inspect) echo true ;;
+    exec)
+        while [ $# -gt 0 ]; do
+            if [ "$1" = --env-file ]; then
+                stat -c 'mode %a' "$2"
+                cat "$2"
+                echo "$2" > "$ENV_FILE_RECORD"
+            fi
+            shift
+        done ;;
+esac`;
+
+// ssh running scripts locally in a new session, like sshd does for the remote shell
+const SESSION_SSH = 'for script; do :; done; exec setsid sh -c "$script"';
+
+// docker exec on the remote host: the command runs in its own session, so killing the remote
+// process group (the docker client) leaves it running like a process in a container.
+// Only variables passed with -e reach it
+const REMOTE_DOCKER = `
+[ "$1" = exec ] || exit 1
+shift
+keep=
+while [ $# -gt 0 ]; do
+    case "$1" in
+        -i|-it) shift ;;
+        -u|-w) shift 2 ;;
+        -e) [ "$2" = DEEPROUTE_RUN_ID ] && keep=1; shift 2 ;;
+        *) break ;;
+    esac
+done
+shift
+[ -n "$keep" ] || unset DEEPROUTE_RUN_ID
+exec setsid -w "$@"`;
+
+/**
+ * Whether a process exists and is no zombie
+ */
+function isRunning(pid: number): boolean {
+    try {
+        const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+        return stat.substring(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+    } catch {
+        return false;
+    }
+}
+
+suite('DeepRouteCompileCommands', () => {
+    let root: string;
+    let jobManager: JobManager;
+    let outputManager: OutputManager;
+    let executor: DeepRouteCompileCommands;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'deeproute-workspace-'));
+        jobManager = new JobManager();
+        outputManager = new OutputManager('DeepRoute Test');
+        executor = new DeepRouteCompileCommands(root, outputManager, jobManager);
+    });
+
+    teardown(() => {
+        jobManager.dispose();
+        outputManager.dispose();
+        settings.clear();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('leaves a database written by a running command to that command', async () => {
+        const buildDir = path.join(root, 'build');
+        fs.mkdirSync(buildDir);
+        const databasePath = path.join(buildDir, 'compile_commands.json');
+        const database = JSON.stringify([{ directory: '/remote/build', file: 'a.cc', command: 'g++ -c a.cc' }]);
+        fs.writeFileSync(databasePath, database);
+
+        let finish: (result: JobResult) => void = () => undefined;
+        const job = jobManager.enqueue(
+            { label: 'cmake', command: 'cmake ..', cwd: 'build', target: 'builder', mode: 'ssh' },
+            () => new Promise(resolve => {
+                finish = resolve;
+            })
+        );
+
+        await executor.updateChangedCompileCommands(databasePath);
+        assert.strictEqual(fs.readFileSync(databasePath, 'utf8'), database);
+        assert.deepStrictEqual(fs.readdirSync(buildDir), ['compile_commands.json']);
+        assert.match(outputChannels.get('DeepRoute Test')!, new RegExp(`build/compile_commands.json changed while job #${job.id} runs in its directory`));
+
+        finish({ exitCode: 0, signal: null });
+        await jobManager.waitForJob(job);
+    });
+
+    test('passes variables to docker exec through a private env file and deletes it afterwards', async () => {
+        const record = path.join(root, 'env-file');
+        const restore = installFakeCommands({ docker: FAKE_DOCKER });
+        process.env.ENV_FILE_RECORD = record;
+        settings.set('deeproute-compile-commands.dockerContainerName', 'builder');
+        settings.set('deeproute-compile-commands.autoDetectPathMappings', false);
+        settings.set('deeproute-compile-commands.pathMappings', [{ hostPath: root, containerPath: '/sandbox' }]);
+        try {
+            const job = await executor.execute('make', undefined, { env: Object.fromEntries([['SECRET_TOKEN', 's3cret']]) });
+            assert.ok(job);
+            await jobManager.waitForJob(job);
+
+            const output = outputChannels.get(`DeepRoute #${job.id}: make`)!;
+            assert.match(output, /mode 600\nSECRET_TOKEN=s3cret\n/);
+            assert.strictEqual(fs.existsSync(fs.readFileSync(record, 'utf8').trim()), false);
+        } finally {
+            delete process.env.ENV_FILE_RECORD;
+            restore();
+        }
+    });
+
+    test('stops the processes of a command in a container on a remote host', async function () {
+        if (process.platform !== 'linux') {
+            this.skip();
+        }
+        const pidFile = path.join(root, 'pid');
+        const restore = installFakeCommands({ ssh: SESSION_SSH, docker: REMOTE_DOCKER });
+        settings.set('deeproute-compile-commands.containerProfiles', [{ name: 'remote', container: 'builder', ssh: { host: 'h', remoteRoot: root } }]);
+        let pid = 0;
+        try {
+            const job = await executor.execute(`echo $$ > ${pidFile}; exec sleep 30`, undefined, { profile: 'remote', killGraceSeconds: 1 });
+            assert.ok(job);
+            for (let i = 0; i < 50 && !pid; i++) {
+                await new Promise(resolve => setTimeout(resolve, 100));
+                pid = fs.existsSync(pidFile) ? Number(fs.readFileSync(pidFile, 'utf8')) : 0;
+            }
+            assert.ok(pid && isRunning(pid), 'the command did not start');
+
+            job.stop();
+            await jobManager.waitForJob(job);
+            assert.strictEqual(isRunning(pid), false);
+            assert.match(outputChannels.get(`DeepRoute #${job.id}: ${job.label}`)!, /\[Stop\] ✅ All processes of the command have exited/);
+        } finally {
+            if (pid && isRunning(pid)) {
+                process.kill(pid, 'SIGKILL');
+            }
+            restore();
+        }
+    });
+});
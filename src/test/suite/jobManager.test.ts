@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import * as child_process from 'child_process';
+import { Job, JobManager, JobOptions, JobResult, JobStatus } from '../../jobManager';
+import { outputChannels, settings } from '../vscodeStub';
+
+/**
+ * Runner whose attempts finish when the test resolves them
+ */
+class ControlledRunner {
+    readonly started: string[] = [];
+    private pending = new Map<string, (result: JobResult) => void>();
+
+    readonly run = (job: Job): Promise<JobResult> => {
+        this.started.push(job.label);
+        return new Promise(resolve => this.pending.set(job.label, resolve));
+    };
+
+    finish(label: string, exitCode = 0): void {
+        this.pending.get(label)!({ exitCode, signal: null });
+        this.pending.delete(label);
+    }
+}
+
+/**
+ * Runner returning the given results, one per attempt
+ */
+function scriptedRunner(results: JobResult[]): (job: Job) => Promise<JobResult> {
+    return async job => results[job.attempt - 1];
+}
+
+/**
+ * Runner whose attempts ignore SIGTERM and sleep until they are killed
+ */
+function stubbornRunner(job: Job): Promise<JobResult> {
+    return new Promise(resolve => {
+        const proc = child_process.spawn('sh', ['-c', 'trap "" TERM; exec sleep 30'], { stdio: 'ignore' });
+        job.process = proc;
+        proc.on('close', (exitCode, signal) => resolve({ exitCode, signal }));
+    });
+}
+
+function options(label: string, policy: Partial<JobOptions> = {}): JobOptions {
+    return { label, command: label, target: 'Local', mode: 'local', ...policy };
+}
+
+function outputOf(job: Job): string {
+    return outputChannels.get(`DeepRoute #${job.id}: ${job.label}`) || '';
+}
+
+suite('JobManager', () => {
+    let manager: JobManager;
+
+    setup(() => {
+        settings.set('deeproute-compile-commands.maxConcurrentJobs', 2);
+        manager = new JobManager();
+    });
+
+    teardown(() => {
+        manager.dispose();
+        settings.clear();
+    });
+
+    test('runs jobs up to the concurrency cap and starts queued jobs in order', async () => {
+        const runner = new ControlledRunner();
+        const jobs = ['a', 'b', 'c', 'd'].map(label => manager.enqueue(options(label), runner.run));
+
+        assert.deepStrictEqual(runner.started, ['a', 'b']);
+        assert.deepStrictEqual(jobs.map(job => job.status), [JobStatus.RUNNING, JobStatus.RUNNING, JobStatus.QUEUED, JobStatus.QUEUED]);
+
+        runner.finish('b');
+        await manager.waitForJob(jobs[1]);
+        assert.deepStrictEqual(runner.started, ['a', 'b', 'c']);
+        assert.strictEqual(jobs[1].status, JobStatus.SUCCEEDED);
+
+        runner.finish('a', 2);
+        await manager.waitForJob(jobs[0]);
+        assert.strictEqual(jobs[0].status, JobStatus.FAILED);
+        assert.deepStrictEqual(runner.started, ['a', 'b', 'c', 'd']);
+        assert.deepStrictEqual(manager.getActiveJobs().map(job => job.label), ['c', 'd']);
+
+        runner.finish('c');
+        runner.finish('d');
+        await Promise.all(jobs.map(job => manager.waitForJob(job)));
+    });
+
+    test('drops a job stopped while queued without running it', async () => {
+        settings.set('deeproute-compile-commands.maxConcurrentJobs', 1);
+        const runner = new ControlledRunner();
+        const running = manager.enqueue(options('a'), runner.run);
+        const queued = manager.enqueue(options('b'), runner.run);
+        const finished: Job[] = [];
+        manager.onDidFinishJob(job => finished.push(job));
+
+        assert.strictEqual(manager.stop(queued.id), true);
+        assert.strictEqual(queued.status, JobStatus.STOPPED);
+        assert.deepStrictEqual(finished, [queued]);
+        assert.strictEqual(manager.stop(queued.id), false);
+
+        runner.finish('a');
+        await manager.waitForJob(running);
+        assert.deepStrictEqual(runner.started, ['a']);
+        assert.strictEqual(queued.attempt, 0);
+    });
+
+    test('retries failed attempts up to the retry count', async () => {
+        const job = manager.enqueue(options('flaky', { retries: 2 }), scriptedRunner([
+            { exitCode: 1, signal: null },
+            { exitCode: 1, signal: null },
+            { exitCode: 0, signal: null }
+        ]));
+        await manager.waitForJob(job);
+        assert.strictEqual(job.status, JobStatus.SUCCEEDED);
+        assert.strictEqual(job.attempt, 3);
+        assert.match(outputOf(job), /\[Retry\] Attempt 2\/3 exited with code 1, retrying/);
+
+        const failing = manager.enqueue(options('failing', { retries: 1 }), scriptedRunner([
+            { exitCode: 1, signal: null },
+            { exitCode: 3, signal: null }
+        ]));
+        await manager.waitForJob(failing);
+        assert.strictEqual(failing.status, JobStatus.FAILED);
+        assert.strictEqual(failing.attempt, 2);
+        assert.strictEqual(failing.result?.exitCode, 3);
+    });
+
+    test('retries only the exit codes in retryOn', async () => {
+        const job = manager.enqueue(options('retryOn', { retries: 3, retryOn: [75] }), scriptedRunner([
+            { exitCode: 75, signal: null },
+            { exitCode: 1, signal: null },
+            { exitCode: 0, signal: null }
+        ]));
+        await manager.waitForJob(job);
+        assert.strictEqual(job.status, JobStatus.FAILED);
+        assert.strictEqual(job.attempt, 2);
+    });
+
+    test('does not retry jobs that failed before their process ran', async () => {
+        const failed = manager.enqueue(options('error', { retries: 2 }), scriptedRunner([
+            { exitCode: null, signal: null, error: 'Container not running' }
+        ]));
+        const thrown = manager.enqueue(options('throw', { retries: 2 }), async () => {
+            throw new Error('spawn failed');
+        });
+        await Promise.all([manager.waitForJob(failed), manager.waitForJob(thrown)]);
+
+        assert.strictEqual(failed.attempt, 1);
+        assert.strictEqual(failed.status, JobStatus.FAILED);
+        assert.strictEqual(thrown.attempt, 1);
+        assert.strictEqual(thrown.result?.error, 'spawn failed');
+    });
+
+    test('kills timed out attempts after the grace period and retries them unless retryOn is set', async () => {
+        const policy: Partial<JobOptions> = { timeout: 1, killGraceSeconds: 1, retries: 1 };
+        const retried = manager.enqueue(options('retried', policy), stubbornRunner);
+        const notRetried = manager.enqueue(options('notRetried', { ...policy, retryOn: [75] }), stubbornRunner);
+        await Promise.all([manager.waitForJob(retried), manager.waitForJob(notRetried)]);
+
+        assert.strictEqual(retried.status, JobStatus.FAILED);
+        assert.strictEqual(retried.attempt, 2);
+        assert.deepStrictEqual(retried.result, { exitCode: null, signal: 'SIGKILL', error: 'Timed out after 1s' });
+        assert.match(outputOf(retried), /\[Timeout\] Attempt 1 exceeded 1s[\s\S]*\[Retry\] Attempt 1\/2 timed out, retrying/);
+
+        assert.strictEqual(notRetried.status, JobStatus.FAILED);
+        assert.strictEqual(notRetried.attempt, 1);
+        assert.strictEqual(notRetried.result?.error, 'Timed out after 1s');
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { PathMapper } from '../../pathMapper';
+import { installFakeCommands } from '../fakes';
+
+suite('PathMapper', () => {
+    const mapper = new PathMapper([
+        { hostPath: '/home/dev/repo/', containerPath: '/sandbox/' },
+        { hostPath: '/data/third_party', containerPath: '/sandbox/third_party' },
+        { hostPath: '', containerPath: '/ignored' }
+    ]);
+
+    test('maps container paths to host paths', () => {
+        assert.strictEqual(mapper.toHost('/sandbox/src/foo.cc'), '/home/dev/repo/src/foo.cc');
+        assert.strictEqual(mapper.toHost('/sandbox'), '/home/dev/repo');
+    });
+
+    test('uses the longest matching mapping', () => {
+        assert.strictEqual(mapper.toHost('/sandbox/third_party/boost/config.hpp'), '/data/third_party/boost/config.hpp');
+        assert.strictEqual(mapper.toContainer('/data/third_party/boost'), '/sandbox/third_party/boost');
+    });
+
+    test('matches whole path components only', () => {
+        assert.strictEqual(mapper.toHost('/sandbox_old/src/foo.cc'), '/sandbox_old/src/foo.cc');
+        assert.strictEqual(mapper.isContainerPath('/sandbox_old'), false);
+        assert.strictEqual(mapper.isContainerPath('/sandbox/build'), true);
+    });
+
+    test('returns undefined for host paths outside all mappings', () => {
+        assert.strictEqual(mapper.toContainer('/home/dev/repo/include'), '/sandbox/include');
+        assert.strictEqual(mapper.toContainer('/home/dev/other'), undefined);
+    });
+
+    test('drops incomplete mappings and trailing slashes', () => {
+        assert.deepStrictEqual(mapper.getMappings(), [
+            { hostPath: '/data/third_party', containerPath: '/sandbox/third_party' },
+            { hostPath: '/home/dev/repo', containerPath: '/sandbox' }
+        ]);
+    });
+
+    test('detects bind mounts from docker inspect', function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+        // Bind mounts only, without / and incomplete entries
+        const mounts = '[{"Type": "bind", "Source": "/home/dev/repo", "Destination": "/sandbox"},'
+            + ' {"Type": "volume", "Source": "/var/lib/docker/volumes/cache", "Destination": "/cache"},'
+            + ' {"Type": "bind", "Source": "/", "Destination": "/"},'
+            + ' {"Type": "bind", "Destination": "/missing-source"}, null]';
+        let restore = installFakeCommands({ docker: `echo '${mounts}'` });
+        try {
+            assert.deepStrictEqual(PathMapper.detectFromDocker('dev'), [{ hostPath: '/home/dev/repo', containerPath: '/sandbox' }]);
+        } finally {
+            restore();
+        }
+
+        restore = installFakeCommands({ docker: 'echo \'{"not": "a list"}\'' });
+        try {
+            assert.deepStrictEqual(PathMapper.detectFromDocker('dev'), []);
+        } finally {
+            restore();
+        }
+    });
+});
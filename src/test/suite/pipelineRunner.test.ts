@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { DeepRouteCompileCommands, ExecuteOptions } from '../../deepRouteCompileCommands';
+import { Job, JobManager } from '../../jobManager';
+import { PipelineRunner, StepStatus } from '../../pipelineRunner';
+import { VariableResolver } from '../../variableResolver';
+import { createContext } from '../fakes';
+import { settings, window } from '../vscodeStub';
+
+/**
+ * Executor queueing every step as a job that exits with the code given in the command ("exit 1")
+ */
+function createExecutor(jobManager: JobManager, executed: string[]): DeepRouteCompileCommands {
+    return {
+        execute: async (command: string, cwd?: string, options: ExecuteOptions = {}): Promise<Job | undefined> => {
+            executed.push(command);
+            const exitCode = parseInt(command.replace(/^exit /, ''), 10);
+            return jobManager.enqueue(
+                { label: options.label || command, command, cwd, target: 'Local', mode: 'local' },
+                async () => ({ exitCode, signal: null })
+            );
+        }
+    } as unknown as DeepRouteCompileCommands;
+}
+
+suite('PipelineRunner', () => {
+    const originalShowInputBox = window.showInputBox;
+    let jobManager: JobManager;
+    let executed: string[];
+    let runner: PipelineRunner;
+
+    setup(() => {
+        jobManager = new JobManager();
+        executed = [];
+        runner = new PipelineRunner(jobManager, createExecutor(jobManager, executed), new VariableResolver(createContext(), '/work'));
+    });
+
+    teardown(() => {
+        window.showInputBox = originalShowInputBox;
+        runner.dispose();
+        jobManager.dispose();
+        settings.clear();
+    });
+
+    test('runs steps in order and skips the rest after a failure', async () => {
+        await runner.run({
+            name: 'build',
+            steps: [
+                { command: 'exit 0' },
+                { command: 'exit 2', name: 'may fail', continueOnFailure: true },
+                { command: 'exit 1' },
+                { command: 'exit 0' }
+            ]
+        });
+
+        const run = runner.getRun('build')!;
+        assert.deepStrictEqual(executed, ['exit 0', 'exit 2', 'exit 1']);
+        assert.deepStrictEqual(run.steps.map(stepRun => stepRun.status), [
+            StepStatus.SUCCEEDED, StepStatus.FAILED, StepStatus.FAILED, StepStatus.SKIPPED
+        ]);
+        assert.strictEqual(run.status, StepStatus.FAILED);
+        assert.strictEqual(runner.isRunning('build'), false);
+    });
+
+    test('resolves referenced predefined commands', () => {
+        settings.set('deeproute-compile-commands.predefinedCommands', [{ command: 'make', alias: 'Build', cwd: 'out', timeout: 60 }]);
+        const step = PipelineRunner.resolveStep({ ref: 'Build', cwd: 'other' }, 0);
+        assert.strictEqual(step.command, 'make');
+        assert.strictEqual(step.cwd, 'other');
+        assert.strictEqual(step.label, 'Build');
+        assert.strictEqual(step.timeout, 60);
+        assert.throws(() => PipelineRunner.resolveStep({ ref: 'Missing' }, 2), /Step 3: predefined command "Missing" not found/);
+        assert.throws(() => PipelineRunner.resolveStep({}, 0), /either "ref" or "command" is required/);
+    });
+
+    test('does not start a pipeline twice while its prompts are open', async () => {
+        let answer: (value: string) => void = () => undefined;
+        window.showInputBox = () => new Promise(resolve => {
+            answer = resolve;
+        });
+        const pipeline = { name: 'prompted', steps: [{ command: 'exit ${input:code}' }] };
+
+        const first = runner.run(pipeline);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(runner.isRunning('prompted'), true);
+        await runner.run(pipeline);
+
+        answer('0');
+        await first;
+        assert.deepStrictEqual(executed, ['exit 0']);
+        assert.strictEqual(runner.getRun('prompted')?.status, StepStatus.SUCCEEDED);
+    });
+
+    test('forgets a run whose prompt was cancelled', async () => {
+        window.showInputBox = async () => undefined;
+        await runner.run({ name: 'cancelled', steps: [{ command: 'exit ${input:code}' }] });
+        assert.strictEqual(runner.getRun('cancelled'), undefined);
+        assert.deepStrictEqual(executed, []);
+    });
+
+    test('fails the run when a step cannot be started', async () => {
+        const failing = new PipelineRunner(jobManager, {
+            execute: async () => {
+                throw new Error('docker not found');
+            }
+        } as unknown as DeepRouteCompileCommands, new VariableResolver(createContext(), '/work'));
+
+        await failing.run({ name: 'broken', steps: [{ command: 'exit 0' }, { command: 'exit 0' }] });
+        const run = failing.getRun('broken')!;
+        assert.strictEqual(run.status, StepStatus.FAILED);
+        assert.strictEqual(failing.isRunning('broken'), false);
+        assert.deepStrictEqual(run.steps.map(stepRun => [stepRun.status, stepRun.error]), [
+            [StepStatus.FAILED, 'docker not found'],
+            [StepStatus.SKIPPED, undefined]
+        ]);
+        failing.dispose();
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import { ProcessTreeSignaller, RUN_ID_VARIABLE, createRunId, localProcesses } from '../../processTree';
+import { toCommandLine, wrapInPty } from '../../jobTerminal';
+
+/**
+ * Start a detached command (as local runs do) carrying a run id
+ */
+function spawnTree(runId: string, file: string, args: string[]): ProcessTreeSignaller {
+    const proc = child_process.spawn(file, args, {
+        detached: true,
+        stdio: 'ignore',
+        env: { ...process.env, [RUN_ID_VARIABLE]: runId }
+    });
+    return localProcesses(proc.pid!, runId);
+}
+
+/**
+ * Poll the signaller until the count satisfies a condition
+ */
+async function waitForCount(tree: ProcessTreeSignaller, done: (count: number) => boolean): Promise<number> {
+    let count = await tree();
+    for (let i = 0; i < 80 && !done(count); i++) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        count = await tree();
+    }
+    return count;
+}
+
+suite('localProcesses', () => {
+    const hasProc = fs.existsSync('/proc/self/environ');
+    let tree: ProcessTreeSignaller | undefined;
+
+    teardown(async () => {
+        await tree?.('SIGKILL');
+        tree = undefined;
+    });
+
+    test('creates distinct run ids per attempt', () => {
+        assert.notStrictEqual(createRunId(1, 1), createRunId(1, 2));
+        assert.ok(createRunId(7, 2).startsWith(`${process.pid}-7-2-`));
+    });
+
+    test('finds and kills the process group of a command', async function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+        const runId = createRunId(1, 1);
+        tree = spawnTree(runId, 'sh', ['-c', 'sleep 30 & sleep 30 & wait']);
+
+        assert.strictEqual(await waitForCount(tree, count => count >= 3), 3);
+        await tree('SIGKILL');
+        assert.strictEqual(await waitForCount(tree, count => count === 0), 0);
+    });
+
+    test('finds processes of a pty session through the run id', async function () {
+        if (!hasProc || child_process.spawnSync('script', ['--version']).status !== 0) {
+            this.skip();
+        }
+        const runId = createRunId(2, 1);
+        const pty = wrapInPty(toCommandLine('sh', ['-c', 'sleep 30 & sleep 30 & wait']));
+        tree = spawnTree(runId, pty.file, pty.args);
+
+        // script, the shell it starts in a new session and both sleeps
+        assert.strictEqual(await waitForCount(tree, count => count >= 4), 4);
+        await tree('SIGTERM');
+        assert.strictEqual(await waitForCount(tree, count => count === 0), 0);
+    });
+});
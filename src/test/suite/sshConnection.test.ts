@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import { PID_MARKER, SshConnection, parsePidMarker, shellQuote } from '../../sshConnection';
+import { LOCAL_SSH, installFakeCommands } from '../fakes';
+
+suite('shellQuote', () => {
+    test('quotes text so the shell reads it back unchanged', () => {
+        assert.strictEqual(shellQuote('a b'), '\'a b\'');
+        assert.strictEqual(shellQuote('it\'s'), '\'it\'\\\'\'s\'');
+
+        const text = 'it\'s $HOME `id` "x" \\ ;';
+        const echoed = child_process.execFileSync('sh', ['-c', `printf %s ${shellQuote(text)}`]).toString();
+        assert.strictEqual(echoed, text);
+    });
+});
+
+suite('parsePidMarker', () => {
+    test('waits for the first line and takes the marker off', () => {
+        assert.strictEqual(parsePidMarker(`${PID_MARKER}12`), undefined);
+        assert.deepStrictEqual(parsePidMarker(`${PID_MARKER}1234\nbuilding\n`), { pid: '1234', rest: 'building\n' });
+        assert.deepStrictEqual(parsePidMarker('motd line\nmore'), { pid: '', rest: 'motd line\nmore' });
+    });
+});
+
+suite('SshConnection', () => {
+    test('builds non-interactive ssh arguments', () => {
+        const connection = new SshConnection({
+            host: 'builder',
+            user: 'dev',
+            port: 2222,
+            identityFile: '~/.ssh/id_build',
+            remoteRoot: '/work',
+            options: ['StrictHostKeyChecking=accept-new']
+        });
+        assert.strictEqual(connection.destination, 'dev@builder:2222');
+        assert.deepStrictEqual(connection.buildArgs('make', true), [
+            '-o', 'BatchMode=yes', '-o', 'ServerAliveInterval=30',
+            '-tt',
+            '-p', '2222',
+            '-i', `${os.homedir()}/.ssh/id_build`,
+            '-o', 'StrictHostKeyChecking=accept-new',
+            'dev@builder',
+            'make'
+        ]);
+    });
+
+    test('expands ~ in the identity file only at the start', () => {
+        const args = (identityFile: string) => new SshConnection({ host: 'h', identityFile, remoteRoot: '/' }).buildArgs('true');
+        assert.deepStrictEqual(args('~').slice(4, 6), ['-i', os.homedir()]);
+        assert.deepStrictEqual(args('~other/key').slice(4, 6), ['-i', '~other/key']);
+        assert.deepStrictEqual(args('/keys/~/id').slice(4, 6), ['-i', '/keys/~/id']);
+        assert.deepStrictEqual(new SshConnection({ host: 'h', remoteRoot: '/' }).buildArgs('true'), [
+            '-o', 'BatchMode=yes', '-o', 'ServerAliveInterval=30', 'h', 'true'
+        ]);
+    });
+
+    test('gives a stop the grace period plus time to connect', async () => {
+        const connection = new SshConnection({ host: 'h', remoteRoot: '/' });
+        const captured: [string, number | undefined][] = [];
+        connection.capture = async (script, timeoutMs) => {
+            captured.push([script, timeoutMs]);
+            return { code: 0, stdout: '', stderr: '' };
+        };
+
+        await connection.stopProcessGroup('42', 15);
+        assert.deepStrictEqual(captured, [
+            ['kill -s TERM -- -42 2>/dev/null; sleep 15; kill -s KILL -- -42 2>/dev/null; true', 25000]
+        ]);
+    });
+
+    suite('with ssh running scripts locally', () => {
+        let restore: () => void;
+
+        setup(function () {
+            if (process.platform === 'win32') {
+                this.skip();
+            }
+            restore = installFakeCommands({ ssh: LOCAL_SSH });
+        });
+
+        teardown(() => {
+            restore?.();
+        });
+
+        test('captures output and exit code', async () => {
+            const connection = new SshConnection({ host: 'h', remoteRoot: '/' });
+            assert.deepStrictEqual(await connection.capture('echo out; echo err >&2; exit 3'), { code: 3, stdout: 'out\n', stderr: 'err\n' });
+            assert.deepStrictEqual(await connection.capture('cat', 5000, 'input'), { code: 0, stdout: 'input', stderr: '' });
+        });
+
+        test('uploads the environment into a private file that reproduces the values', async () => {
+            const connection = new SshConnection({ host: 'h', remoteRoot: '/' });
+            const env = { token: 'it\'s a "secret" $HOME', empty: '' };
+            const file = await connection.uploadEnvironment(env);
+            try {
+                assert.strictEqual(fs.statSync(file).mode & 0o777, 0o600);
+                const sourced = await connection.capture(`. ${shellQuote(file)}; printf '%s|%s' "$token" "$empty"`);
+                assert.strictEqual(sourced.stdout, `${env.token}|`);
+            } finally {
+                fs.rmSync(file, { force: true });
+            }
+        });
+
+        test('kills a process group that ignores SIGTERM once the grace period is over', async () => {
+            const connection = new SshConnection({ host: 'h', remoteRoot: '/' });
+            const proc = child_process.spawn('sh', ['-c', 'trap "" TERM; sleep 30'], { detached: true, stdio: 'ignore' });
+            const exited = new Promise<string | null>(resolve => proc.on('exit', (_code, signal) => resolve(signal)));
+
+            const startTime = Date.now();
+            assert.strictEqual((await connection.stopProcessGroup(String(proc.pid), 1)).code, 0);
+            assert.strictEqual(await exited, 'SIGKILL');
+            assert.ok(Date.now() - startTime >= 1000);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { VariableResolver } from '../../variableResolver';
+import { createContext } from '../fakes';
+import { window } from '../vscodeStub';
+
+const CPU_COUNT = '$(nproc 2>/dev/null || getconf _NPROCESSORS_ONLN)';
+
+suite('VariableResolver', () => {
+    const originalShowInputBox = window.showInputBox;
+
+    teardown(() => {
+        window.showInputBox = originalShowInputBox;
+        delete process.env.DEEPROUTE_TEST_VARIABLE;
+    });
+
+    test('detects only supported placeholders', () => {
+        assert.strictEqual(VariableResolver.hasVariables('make -j${cpuCount}'), true);
+        assert.strictEqual(VariableResolver.hasVariables('cd ${workspaceFolder}'), true);
+        assert.strictEqual(VariableResolver.hasVariables('echo ${HOME} ${NPROC:-8}'), false);
+        assert.strictEqual(VariableResolver.hasVariables(undefined), false);
+    });
+
+    test('leaves shell variables to the shell', async () => {
+        const resolver = new VariableResolver(createContext(), '/work');
+        const command = 'make -j${NPROC:-8} PREFIX=${HOME}/.local ${workspaceFolder}';
+        assert.deepStrictEqual(await resolver.resolve({ command }), {
+            command: 'make -j${NPROC:-8} PREFIX=${HOME}/.local /work',
+            cwd: undefined
+        });
+    });
+
+    test('expands cpuCount in the command on the execution target', async () => {
+        const resolver = new VariableResolver(createContext(), '/work');
+        const resolved = await resolver.resolve({ command: 'make -j${cpuCount}' });
+        assert.strictEqual(resolved?.command, `make -j${CPU_COUNT}`);
+    });
+
+    test('rejects cpuCount in cwd', async () => {
+        const resolver = new VariableResolver(createContext(), '/work');
+        await assert.rejects(resolver.resolve({ command: 'make', cwd: '/build/${cpuCount}' }), /only supported in commands/);
+    });
+
+    test('resolves host environment variables and rejects missing ones', async () => {
+        const resolver = new VariableResolver(createContext(), '/work');
+        process.env.DEEPROUTE_TEST_VARIABLE = 'release';
+        const resolved = await resolver.resolve({ command: 'build ${env:DEEPROUTE_TEST_VARIABLE}', cwd: '${workspaceFolder}/out' });
+        assert.deepStrictEqual(resolved, { command: 'build release', cwd: '/work/out' });
+
+        delete process.env.DEEPROUTE_TEST_VARIABLE;
+        await assert.rejects(resolver.resolve({ command: 'build ${env:DEEPROUTE_TEST_VARIABLE}' }), /DEEPROUTE_TEST_VARIABLE is not set/);
+    });
+
+    test('rejects workspaceFolder without a workspace', async () => {
+        const resolver = new VariableResolver(createContext(), undefined);
+        await assert.rejects(resolver.resolve({ command: 'cd ${workspaceFolder}' }), /no workspace folder is open/);
+    });
+
+    test('prompts for each input once and remembers the value', async () => {
+        const context = createContext();
+        const resolver = new VariableResolver(context, '/work');
+        const prompts: string[] = [];
+        window.showInputBox = async (options?: vscode.InputBoxOptions) => {
+            prompts.push(options?.prompt || '');
+            return 'x86';
+        };
+
+        const request = {
+            command: './build.sh ${input:arch} --out ${input:arch}',
+            cwd: '/build/${input:arch}',
+            inputs: [{ id: 'arch', description: 'Target architecture', default: 'arm' }]
+        };
+        assert.deepStrictEqual(await resolver.resolve(request), { command: './build.sh x86 --out x86', cwd: '/build/x86' });
+        assert.deepStrictEqual(prompts, ['Target architecture']);
+        assert.strictEqual(resolver.preview(request).command, './build.sh x86 --out x86');
+    });
+
+    test('returns undefined when a prompt is cancelled', async () => {
+        const resolver = new VariableResolver(createContext(), '/work');
+        window.showInputBox = async () => undefined;
+        assert.strictEqual(await resolver.resolve({ command: 'build ${input:target}' }), undefined);
+    });
+
+    test('previews defaults and keeps unresolvable placeholders', () => {
+        const resolver = new VariableResolver(createContext(), '/work');
+        const preview = resolver.preview({
+            command: 'build ${input:arch} ${input:mode} ${env:DEEPROUTE_TEST_VARIABLE} -j${cpuCount}',
+            cwd: '/build/${cpuCount}',
+            inputs: [{ id: 'arch', default: 'arm' }]
+        });
+        assert.deepStrictEqual(preview, {
+            command: `build arm \${input:mode} \${env:DEEPROUTE_TEST_VARIABLE} -j${CPU_COUNT}`,
+            cwd: '/build/${cpuCount}'
+        });
+    });
+});
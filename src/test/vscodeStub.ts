@@ -0,0 +1,264 @@
+import Module = require('module');
+import * as path from 'path';
+
+/**
+ * Minimal stand-in for the vscode module, so that the parsing and path logic can be unit tested
+ * in plain Node without starting VS Code
+ *
+ * Only what the tested modules touch at runtime is provided. Tests change the behaviour of the
+ * prompts and settings through the exported objects
+ */
+
+// Values returned by workspace.getConfiguration(...).get(key)
+export const settings = new Map<string, unknown>();
+
+// Text written to each output channel, by channel name
+export const outputChannels = new Map<string, string>();
+
+// Status bar items created through window.createStatusBarItem
+export const statusBarItems: StatusBarItem[] = [];
+
+export class StatusBarItem {
+    text = '';
+    tooltip: string | undefined;
+    command: string | undefined;
+    backgroundColor: ThemeColor | undefined;
+    visible = false;
+
+    show(): void {
+        this.visible = true;
+    }
+
+    hide(): void {
+        this.visible = false;
+    }
+
+    dispose(): void {
+        statusBarItems.splice(statusBarItems.indexOf(this), 1);
+    }
+}
+
+export class ThemeColor {
+    constructor(readonly id: string) {}
+}
+
+interface CancellationToken {
+    isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): Disposable;
+}
+
+// Member names follow the vscode API
+export enum ProgressLocation {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    Notification = 15
+}
+
+// Member names follow the vscode API
+export enum StatusBarAlignment {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    Left = 1,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    Right = 2
+}
+
+export const window = {
+    createStatusBarItem: () => {
+        const item = new StatusBarItem();
+        statusBarItems.push(item);
+        return item;
+    },
+    createOutputChannel: (name: string) => {
+        outputChannels.set(name, '');
+        const append = (text: string) => outputChannels.set(name, (outputChannels.get(name) || '') + text);
+        return {
+            name,
+            append,
+            appendLine: (text: string) => append(text + '\n'),
+            clear: () => outputChannels.set(name, ''),
+            show: () => undefined,
+            hide: () => undefined,
+            dispose: () => undefined
+        };
+    },
+    withProgress: <T>(_options: unknown, task: (progress: { report(value: unknown): void }, token: CancellationToken) => Promise<T>): Promise<T> =>
+        task({ report: () => undefined }, { isCancellationRequested: false, onCancellationRequested: () => new Disposable(() => undefined) }),
+    showInputBox: async (): Promise<string | undefined> => undefined,
+    showQuickPick: async (): Promise<unknown> => undefined,
+    showInformationMessage: async (): Promise<undefined> => undefined,
+    showWarningMessage: async (): Promise<undefined> => undefined,
+    showErrorMessage: async (): Promise<undefined> => undefined
+};
+
+// Member names follow the vscode API
+export enum ConfigurationTarget {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    Global = 1
+}
+
+// Files returned by workspace.findFiles below the base of the pattern (the glob itself is not matched)
+export const workspaceFiles: string[] = [];
+
+// File system watchers created through workspace.createFileSystemWatcher
+export const fileSystemWatchers: FileSystemWatcher[] = [];
+
+export class RelativePattern {
+    constructor(readonly base: string, readonly pattern: string) {}
+}
+
+export class FileSystemWatcher {
+    readonly created = new EventEmitter<Uri>();
+    readonly changed = new EventEmitter<Uri>();
+    readonly deleted = new EventEmitter<Uri>();
+    readonly onDidCreate = this.created.event;
+    readonly onDidChange = this.changed.event;
+    readonly onDidDelete = this.deleted.event;
+
+    constructor(readonly pattern: RelativePattern) {}
+
+    /**
+     * Whether the glob of the pattern (with *, ** and {a,b} only) matches a file below its base
+     */
+    matches(fsPath: string): boolean {
+        const relative = path.relative(this.pattern.base, fsPath);
+        if (!relative || relative.startsWith('..')) {
+            return false;
+        }
+        const source = this.pattern.pattern
+            .replace(/[.+^$()|[\]\\]/g, '\\$&')
+            .replace(/\*\*\//g, '\0')
+            .replace(/\*/g, '[^/]*')
+            .replace(/\0/g, '(?:.*/)?')
+            .replace(/\{([^}]*)\}/g, (_, options: string) => `(?:${options.split(',').join('|')})`);
+        return new RegExp(`^${source}$`).test(relative);
+    }
+
+    dispose(): void {
+        fileSystemWatchers.splice(fileSystemWatchers.indexOf(this), 1);
+    }
+}
+
+/**
+ * Report a created file to the watchers whose pattern matches it
+ */
+export function fireFileCreated(fsPath: string): void {
+    fileSystemWatchers
+        .filter(watcher => watcher.matches(fsPath))
+        .forEach(watcher => watcher.created.fire(Uri.file(fsPath)));
+}
+
+export const workspace = {
+    workspaceFolders: undefined as { uri: { fsPath: string } }[] | undefined,
+    findFiles: async (pattern: RelativePattern): Promise<Uri[]> => workspaceFiles
+        .filter(file => file.startsWith(pattern.base + '/'))
+        .map(file => Uri.file(file)),
+    createFileSystemWatcher: (pattern: RelativePattern) => {
+        const watcher = new FileSystemWatcher(pattern);
+        fileSystemWatchers.push(watcher);
+        return watcher;
+    },
+    onDidChangeConfiguration: () => new Disposable(() => undefined),
+    getConfiguration: (section?: string) => ({
+        get: <T>(key: string, defaultValue?: T): T | undefined => {
+            const fullKey = section ? `${section}.${key}` : key;
+            return settings.has(fullKey) ? settings.get(fullKey) as T : defaultValue;
+        },
+        update: async (key: string, value: unknown): Promise<void> => {
+            settings.set(section ? `${section}.${key}` : key, value);
+        }
+    })
+};
+
+// Diagnostics published by each collection, by collection name and file path
+export const diagnosticCollections = new Map<string, Map<string, Diagnostic[]>>();
+
+export const languages = {
+    createDiagnosticCollection: (name: string) => {
+        const files = new Map<string, Diagnostic[]>();
+        diagnosticCollections.set(name, files);
+        return {
+            name,
+            set: (uri: Uri, diagnostics: Diagnostic[]) => files.set(uri.fsPath, diagnostics),
+            clear: () => files.clear(),
+            dispose: () => diagnosticCollections.delete(name)
+        };
+    }
+};
+
+export class Uri {
+    private constructor(readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri(fsPath);
+    }
+}
+
+export class Range {
+    constructor(readonly startLine: number, readonly startCharacter: number, readonly endLine: number, readonly endCharacter: number) {}
+}
+
+export class Location {
+    constructor(readonly uri: Uri, readonly range: Range) {}
+}
+
+export class DiagnosticRelatedInformation {
+    constructor(readonly location: Location, readonly message: string) {}
+}
+
+// Member names follow the vscode API
+export enum DiagnosticSeverity {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    Error = 0,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    Warning = 1,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    Information = 2
+}
+
+export class Diagnostic {
+    source?: string;
+    relatedInformation?: DiagnosticRelatedInformation[];
+
+    constructor(readonly range: Range, readonly message: string, readonly severity: DiagnosticSeverity) {}
+}
+
+export class Disposable {
+    constructor(private callOnDispose: () => void) {}
+
+    static from(...disposables: { dispose(): unknown }[]): Disposable {
+        return new Disposable(() => disposables.forEach(d => d.dispose()));
+    }
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: ((e: T) => void)[] = [];
+
+    event = (listener: (e: T) => void): Disposable => {
+        this.listeners.push(listener);
+        return new Disposable(() => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        });
+    };
+
+    fire(data: T): void {
+        this.listeners.forEach(listener => listener(data));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+/**
+ * Make require('vscode') return this module
+ */
+export function installVscodeStub(): void {
+    const moduleLoader = Module as any;
+    const load = moduleLoader._load;
+    moduleLoader._load = function (request: string, ...rest: unknown[]) {
+        return request === 'vscode' ? module.exports : load.call(this, request, ...rest);
+    };
+}
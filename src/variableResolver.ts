@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import { CommandInput } from './commandTreeProvider';
+
+// Matches the supported ${name} and ${name:argument} placeholders; any other ${...} is shell
+// syntax (e.g. ${HOME}, ${NPROC:-8}) and left for the shell that runs the command
+const VARIABLE_PATTERN = /\$\{(input|env|workspaceFolder|cpuCount)(?::([^}]+))?\}/g;
+
+// Evaluated by the shell running the command, so it counts the cores of the execution target
+const CPU_COUNT_EXPRESSION = '$(nproc 2>/dev/null || getconf _NPROCESSORS_ONLN)';
+
+/**
+ * Text to resolve together with the inputs declared for it
+ */
+export interface ResolveRequest {
+    command: string;
+    cwd?: string;
+    inputs?: CommandInput[];
+    key?: string;  // Key under which entered values are remembered (defaults to the command template)
+}
+
+/**
+ * Resolved command and working directory
+ */
+export interface ResolvedCommand {
+    command: string;
+    cwd?: string;
+}
+
+/**
+ * Resolves placeholders in commands before they are executed
+ *
+ * Supported variables:
+ *   ${input:id}        prompted via quick pick (declared options) or input box
+ *   ${env:NAME}        host environment variable
+ *   ${workspaceFolder} host workspace root
+ *   ${cpuCount}        number of CPU cores of the execution target (host, container or remote
+ *                      host), counted by the shell when the command runs; not supported in cwd
+ *
+ * Other ${...} text is not a placeholder and reaches the shell unchanged
+ */
+export class VariableResolver {
+    private readonly INPUT_VALUES_STORAGE_KEY = 'deeproute-compile-commands.inputValues';
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private workspaceRoot: string | undefined
+    ) {}
+
+    /**
+     * Whether text contains any placeholder
+     */
+    static hasVariables(text: string | undefined): boolean {
+        return !!text && new RegExp(VARIABLE_PATTERN.source).test(text);
+    }
+
+    /**
+     * Resolve command and cwd, prompting for inputs
+     * @returns undefined if the user cancelled a prompt
+     * @throws Error for missing environment variables or ${cpuCount} in cwd
+     */
+    async resolve(request: ResolveRequest): Promise<ResolvedCommand | undefined> {
+        if (!VariableResolver.hasVariables(request.command) && !VariableResolver.hasVariables(request.cwd)) {
+            return { command: request.command, cwd: request.cwd };
+        }
+
+        // Prompt for each input once, in order of first appearance
+        const inputIds: string[] = [];
+        for (const text of [request.command, request.cwd || '']) {
+            for (const match of text.matchAll(VARIABLE_PATTERN)) {
+                if (match[1] === 'input' && match[2] && !inputIds.includes(match[2])) {
+                    inputIds.push(match[2]);
+                }
+            }
+        }
+
+        const key = request.key || request.command;
+        const lastValues = this.getLastValues(key);
+        const values: Record<string, string> = {};
+        for (const id of inputIds) {
+            const input = (request.inputs || []).find(i => i.id === id) || { id };
+            const value = await this.promptInput(input, lastValues[id]);
+            if (value === undefined) {
+                return undefined;
+            }
+            values[id] = value;
+        }
+
+        if (inputIds.length > 0) {
+            await this.saveLastValues(key, { ...lastValues, ...values });
+        }
+
+        return {
+            command: this.substitute(request.command, values),
+            cwd: request.cwd !== undefined ? this.substitute(request.cwd, values, false, false) : undefined
+        };
+    }
+
+    /**
+     * Resolve command and cwd without prompting, for previews
+     * Inputs take their last used or default value; anything unresolvable is left as the placeholder
+     */
+    preview(request: ResolveRequest): ResolvedCommand {
+        const lastValues = this.getLastValues(request.key || request.command);
+        const values: Record<string, string> = {};
+        (request.inputs || []).forEach(input => {
+            const value = lastValues[input.id] ?? input.default;
+            if (value !== undefined) {
+                values[input.id] = value;
+            }
+        });
+        Object.entries(lastValues).forEach(([id, value]) => {
+            values[id] = values[id] ?? value;
+        });
+
+        return {
+            command: this.substitute(request.command, values, true),
+            cwd: request.cwd !== undefined ? this.substitute(request.cwd, values, true, false) : undefined
+        };
+    }
+
+    /**
+     * Replace all placeholders in text
+     * @param lenient Leave unresolvable placeholders as they are instead of throwing
+     * @param inShell Whether the text runs in a shell (${cpuCount} needs one)
+     */
+    private substitute(text: string, inputValues: Record<string, string>, lenient = false, inShell = true): string {
+        return text.replace(VARIABLE_PATTERN, (placeholder: string, name: string, argument?: string) => {
+            switch (name) {
+                case 'input':
+                    return inputValues[argument || ''] ?? (lenient ? placeholder : '');
+                case 'env': {
+                    const value = argument ? process.env[argument] : undefined;
+                    if (value === undefined) {
+                        if (lenient) {
+                            return placeholder;
+                        }
+                        throw new Error(`Environment variable ${argument} is not set (used by ${placeholder})`);
+                    }
+                    return value;
+                }
+                case 'workspaceFolder':
+                    if (!this.workspaceRoot) {
+                        if (lenient) {
+                            return placeholder;
+                        }
+                        throw new Error('${workspaceFolder} cannot be resolved: no workspace folder is open');
+                    }
+                    return this.workspaceRoot;
+                case 'cpuCount':
+                    if (!inShell) {
+                        if (lenient) {
+                            return placeholder;
+                        }
+                        throw new Error('${cpuCount} is only supported in commands, not in cwd');
+                    }
+                    return CPU_COUNT_EXPRESSION;
+                default:
+                    return placeholder;
+            }
+        });
+    }
+
+    /**
+     * Prompt for a single input value
+     * Declared options are offered in a quick pick with the last used value first
+     */
+    private async promptInput(input: CommandInput, lastValue: string | undefined): Promise<string | undefined> {
+        const prompt = input.description || `Value for ${input.id}`;
+        const initial = lastValue ?? input.default;
+
+        if (input.options && input.options.length > 0) {
+            const options = [...input.options];
+            if (initial && options.includes(initial)) {
+                options.splice(options.indexOf(initial), 1);
+                options.unshift(initial);
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                options.map(option => ({
+                    label: option,
+                    description: option === lastValue ? 'last used' : option === input.default ? 'default' : undefined
+                })),
+                { placeHolder: prompt, ignoreFocusOut: true }
+            );
+            return selected?.label;
+        }
+
+        return vscode.window.showInputBox({
+            prompt,
+            value: initial || '',
+            ignoreFocusOut: true
+        });
+    }
+
+    private getLastValues(key: string): Record<string, string> {
+        const all = this.context.workspaceState.get<Record<string, Record<string, string>>>(this.INPUT_VALUES_STORAGE_KEY, {});
+        return all[key] || {};
+    }
+
+    private async saveLastValues(key: string, values: Record<string, string>): Promise<void> {
+        const all = this.context.workspaceState.get<Record<string, Record<string, string>>>(this.INPUT_VALUES_STORAGE_KEY, {});
+        await this.context.workspaceState.update(this.INPUT_VALUES_STORAGE_KEY, { ...all, [key]: values });
+    }
+}